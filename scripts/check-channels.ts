@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { OnboardPayload } from "../src/types.ts";
+
+// Update channels through configureChannel against a stand-in openclaw CLI that applies `config patch` the way
+// OpenClaw does (objects merge, null removes), and check that fields cleared in the form leave the config while keys
+// added by hand stay.
+//
+//   bun run check:channels
+
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-channels-check-"));
+const configFile = path.join(stateDir, "openclaw.json");
+const entry = path.join(stateDir, "fake-openclaw.js");
+fs.writeFileSync(configFile, "{}\n");
+fs.writeFileSync(
+  entry,
+  `const fs = require("node:fs");
+const file = ${JSON.stringify(configFile)};
+const [command, action, key] = process.argv.slice(2);
+const config = JSON.parse(fs.readFileSync(file, "utf8"));
+const isObject = (value) => Boolean(value) && typeof value === "object" && !Array.isArray(value);
+function merge(target, patch) {
+  if (!isObject(patch)) return patch;
+  const result = isObject(target) ? { ...target } : {};
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === null) delete result[k];
+    else result[k] = merge(result[k], v);
+  }
+  return result;
+}
+if (command === "config" && action === "get") {
+  const value = key.split(".").reduce((node, part) => (isObject(node) ? node[part] : undefined), config);
+  if (value === undefined) process.exit(1);
+  console.log(JSON.stringify(value, null, 2));
+} else if (command === "config" && action === "patch") {
+  const patch = JSON.parse(fs.readFileSync(0, "utf8"));
+  fs.writeFileSync(file, JSON.stringify(merge(config, patch), null, 2));
+  console.log("patched");
+} else {
+  process.exit(2);
+}
+`
+);
+process.env.OPENCLAW_STATE_DIR = stateDir;
+process.env.OPENCLAW_WORKSPACE_DIR = path.join(stateDir, "workspace");
+process.env.OPENCLAW_ENTRY = entry;
+process.env.OPENCLAW_NODE = process.execPath;
+delete process.env.OPENCLAW_SECRETS_KEY;
+
+const { configureChannel, getChannel } = await import("../src/channels.ts");
+
+const problems: string[] = [];
+function check(name: string, ok: boolean, detail?: unknown): void {
+  if (!ok) problems.push(detail === undefined ? name : `${name}: ${JSON.stringify(detail)}`);
+}
+
+const readConfig = () => JSON.parse(fs.readFileSync(configFile, "utf8")) as { channels?: Record<string, any> };
+function editChannel(name: string, edit: (block: Record<string, any>) => void): void {
+  const config = readConfig();
+  edit(config.channels![name]);
+  fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+}
+
+async function update(name: string, payload: OnboardPayload): Promise<Record<string, any>> {
+  const result = await configureChannel(getChannel(name)!, payload, () => true);
+  check(`${name} update succeeds`, result.ok, result.output);
+  return readConfig().channels?.[name] ?? {};
+}
+
+// Discord: a new guild replaces the old one, blank fields are removed, hand-edited keys stay.
+const discord = {
+  discordToken: "check-discord-token-0000",
+  discordGuildId: "111111111111111111",
+  discordChannelId: "222222222222222222",
+  discordHistoryLimit: "20",
+  discordAllowFrom: "333333333333333333",
+};
+let block = await update("discord", discord);
+check("discord guild written", Boolean(block.guilds?.["111111111111111111"]?.channels?.["222222222222222222"]), block);
+check("discord historyLimit written", block.historyLimit === 20, block);
+editChannel("discord", (b) => {
+  b.actions = { reactions: false };
+  b.guilds["111111111111111111"].channels["222222222222222222"].allow = true;
+});
+
+block = await update("discord", { ...discord, discordHistoryLimit: "", discordAllowFrom: "" });
+check("cleared historyLimit is removed", !("historyLimit" in block), block);
+check("cleared dm.allowFrom is removed", Boolean(block.dm) && !("allowFrom" in block.dm), block);
+check("hand-edited key is kept", block.actions?.reactions === false, block);
+const channel = block.guilds?.["111111111111111111"]?.channels?.["222222222222222222"];
+check("hand-edited channel setting is kept", channel?.allow === true, block.guilds);
+
+block = await update("discord", { ...discord, discordGuildId: "444444444444444444", discordChannelId: "" });
+check("old guild is removed", Object.keys(block.guilds ?? {}).join() === "444444444444444444", block.guilds);
+check("blank channel leaves no channel list", !("channels" in block.guilds["444444444444444444"]), block.guilds);
+check("hand-edited key survives a guild change", block.actions?.reactions === false, block);
+
+// Signal: optional URL, CLI path and allow list can be cleared.
+const signal = {
+  signalAccount: "+15551234567",
+  signalHttpUrl: "http://127.0.0.1:8080",
+  signalCliPath: "/usr/local/bin/signal-cli",
+  signalDmPolicy: "allowlist",
+  signalAllowFrom: "+15557654321",
+};
+block = await update("signal", signal);
+check("signal fields written", Boolean(block.httpUrl && block.cliPath) && block.allowFrom?.length === 1, block);
+const clearedSignal = { signalHttpUrl: "", signalCliPath: "", signalDmPolicy: "pairing", signalAllowFrom: "" };
+block = await update("signal", { ...signal, ...clearedSignal });
+check("cleared signal fields are removed", !("httpUrl" in block || "cliPath" in block || "allowFrom" in block), block);
+check("signal account is kept", block.account === "+15551234567", block);
+
+// WhatsApp: the allow list can be cleared.
+block = await update("whatsapp", { whatsappDmPolicy: "allowlist", whatsappAllowFrom: "+15551234567" });
+check("whatsapp allowFrom written", block.allowFrom?.length === 1, block);
+block = await update("whatsapp", { whatsappDmPolicy: "pairing", whatsappAllowFrom: "" });
+check("cleared whatsapp allowFrom is removed", !("allowFrom" in block), block);
+
+fs.rmSync(stateDir, { recursive: true, force: true });
+if (problems.length > 0) {
+  for (const problem of problems) console.error(`channels: ${problem}`);
+  process.exit(1);
+}
+console.log("channels ok");
@@ -0,0 +1,10 @@
+import { checkRedactionCorpus, REDACTION_RULES } from "../src/redactrules.ts";
+
+// Run the built-in redaction rules over the sample corpus: every credential sample must be masked and every
+// ordinary sample left alone.
+const problems = checkRedactionCorpus();
+if (problems.length > 0) {
+  for (const problem of problems) console.error(`redaction: ${problem}`);
+  process.exit(1);
+}
+console.log(`redaction ok: ${REDACTION_RULES.length} rules`);
@@ -0,0 +1,224 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { GatewayChild, SupervisorPolicy } from "../src/types.ts";
+
+// Drive the gateway supervisor with a fake clock and fake gateway processes: the crash window, backoff, the circuit
+// breaker and its reset, and each restart strategy. Then feed parseSupervisorPolicy good and bad settings.
+//
+//   bun run check:supervisor
+
+// The config file must exist before the wrapper modules load, or the supervisor refuses to start anything.
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-supervisor-check-"));
+fs.writeFileSync(path.join(stateDir, "openclaw.json"), "{}\n");
+process.env.OPENCLAW_STATE_DIR = stateDir;
+process.env.OPENCLAW_WORKSPACE_DIR = path.join(stateDir, "workspace");
+
+const { configureSupervisor, ensureGatewayRunning, getGatewayHealth } = await import("../src/gateway.ts");
+const { DEFAULT_SUPERVISOR_POLICY, loadSupervisorPolicy, parseSupervisorPolicy } = await import(
+  "../src/supervisor.ts"
+);
+
+const problems: string[] = [];
+function check(name: string, ok: boolean, detail?: unknown): void {
+  if (!ok) problems.push(detail === undefined ? name : `${name}: ${JSON.stringify(detail)}`);
+}
+
+// Supervisor logs are kept and only printed when a check fails.
+const logs: string[] = [];
+const originalConsole = { log: console.log, warn: console.warn, error: console.error };
+const capture = (...args: unknown[]) => logs.push(args.map(String).join(" "));
+Object.assign(console, { log: capture, warn: capture, error: capture });
+
+let now = 1_000_000;
+const sleeps: number[] = [];
+const clock = {
+  now: () => now,
+  async sleep(ms: number) {
+    sleeps.push(ms);
+    now += ms;
+  },
+  every: () => () => {},
+};
+
+// A gateway that runs until the check makes it exit.
+interface FakeGateway extends EventEmitter {
+  exit(code: number | null, signal?: NodeJS.Signals | null): void;
+}
+const children: FakeGateway[] = [];
+// Backoff is the last sleep before a spawn; 0 when there was none.
+const backoffs: number[] = [];
+let answering = true;
+
+function spawn(): GatewayChild {
+  const child = new EventEmitter() as FakeGateway;
+  child.exit = (code, signal = null) => child.emit("exit", code, signal);
+  Object.assign(child, { kill: (signal: NodeJS.Signals = "SIGTERM") => (child.exit(null, signal), true) });
+  children.push(child);
+  backoffs.push(sleeps.pop() ?? 0);
+  sleeps.length = 0;
+  return child as unknown as GatewayChild;
+}
+
+const runtime = {
+  clock,
+  spawn,
+  probe: async () => (answering ? new Response("ok") : null),
+};
+
+function setup(policy: Partial<SupervisorPolicy>): void {
+  configureSupervisor({ ...runtime, policy: { ...DEFAULT_SUPERVISOR_POLICY, ...policy } });
+  children.length = 0;
+  backoffs.length = 0;
+  sleeps.length = 0;
+  answering = true;
+}
+
+// Automatic restarts are not awaited by anyone; let them run to completion.
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function crash(code = 1): Promise<void> {
+  children[children.length - 1].exit(code);
+  await settle();
+}
+
+const sameAsDefaults = (policy: SupervisorPolicy) =>
+  JSON.stringify(policy) === JSON.stringify(DEFAULT_SUPERVISOR_POLICY);
+const inRange = (value: number | undefined, min: number, max: number) =>
+  value !== undefined && value >= min && value <= max;
+
+// Crash window and circuit breaker: three crashes within a minute open the circuit for two minutes.
+setup({ restart: "always", crashWindowMs: 60_000, maxCrashesInWindow: 3, circuitResetMs: 120_000 });
+check("first start", (await ensureGatewayRunning()).ok && children.length === 1);
+await crash();
+check("restart after a crash", children.length === 2 && getGatewayHealth().running);
+now += 70_000;
+await crash();
+check("crashes outside the window are forgotten", getGatewayHealth().crashCount === 1, getGatewayHealth());
+await crash();
+await crash();
+let health = getGatewayHealth();
+check("circuit opens after maxCrashesInWindow", health.circuitOpen && !health.running && children.length === 4, health);
+const held = await ensureGatewayRunning();
+check("open circuit refuses to start", !held.ok && /Circuit breaker/.test(held.reason ?? "") && children.length === 4);
+now += 119_000;
+check("circuit still open before circuitResetMs", !(await ensureGatewayRunning()).ok);
+now += 1_000;
+check("circuit resets after circuitResetMs", (await ensureGatewayRunning()).ok && children.length === 5);
+health = getGatewayHealth();
+check("reset clears the crash history", !health.circuitOpen && health.crashCount === 0, health);
+
+// Backoff: each start after a failed one waits twice as long, up to backoffMaxMs, plus up to 30% jitter. After
+// maxConsecutiveFails failed starts, only a restart gets the gateway going again.
+setup({
+  backoffBaseMs: 1_000,
+  backoffMaxMs: 8_000,
+  readyTimeoutMs: 1_000,
+  maxConsecutiveFails: 5,
+  maxCrashesInWindow: 100,
+});
+answering = false;
+for (let attempt = 0; attempt < 5; attempt++) {
+  check(`start ${attempt + 1} fails while the gateway does not answer`, !(await ensureGatewayRunning()).ok);
+  children[children.length - 1].exit(null, "SIGTERM");
+}
+const [first, ...rest] = backoffs;
+check("no backoff before the first start", first === 0, backoffs);
+const expected = [2_000, 4_000, 8_000, 8_000];
+expected.forEach((ms, i) => check(`backoff ${i + 1} is about ${ms}ms`, inRange(rest[i], ms, ms * 1.3), backoffs));
+const refused = await ensureGatewayRunning();
+check("maxConsecutiveFails stops further starts", /consecutive/.test(refused.reason ?? "") && children.length === 5);
+
+// Restart strategies.
+setup({ restart: "on-demand" });
+await ensureGatewayRunning();
+await crash();
+check("on-demand leaves the gateway down", children.length === 1 && !getGatewayHealth().running);
+check("on-demand starts it on the next request", (await ensureGatewayRunning()).ok && children.length === 2);
+
+setup({ restart: "never" });
+await ensureGatewayRunning();
+await crash();
+check("never leaves the gateway down", children.length === 1 && getGatewayHealth().heldReason !== null);
+check("never ignores ordinary requests", !(await ensureGatewayRunning()).ok && children.length === 1);
+check("never starts on a manual start", (await ensureGatewayRunning({ manual: true })).ok && children.length === 2);
+
+setup({ restart: "on-failure", minUptimeMs: 10_000 });
+await ensureGatewayRunning();
+now += 20_000;
+await crash(0);
+check("on-failure leaves a clean exit alone", children.length === 1 && getGatewayHealth().heldReason !== null);
+await ensureGatewayRunning({ manual: true });
+await crash(0);
+check("on-failure restarts an exit within minUptimeMs", children.length === 3);
+
+setup({ restart: "always" });
+await ensureGatewayRunning();
+children[0].exit(null, "SIGTERM");
+await settle();
+check("SIGTERM is never restarted", children.length === 1 && getGatewayHealth().heldReason === null);
+
+// Policy parsing: defaults, ranges, cross-field checks and bad files.
+const parse = (file: unknown, env: Record<string, string> = {}) => parseSupervisorPolicy(file, env);
+
+let parsed = parse(undefined);
+check("defaults", sameAsDefaults(parsed.policy), parsed);
+check("defaults have no problems", parsed.problems.length === 0, parsed.problems);
+
+parsed = parse({ maxCrashesInWindow: 7, restart: "never" }, { GATEWAY_MAX_CRASHES: "9" });
+check("env wins over the file", parsed.policy.maxCrashesInWindow === 9 && parsed.policy.restart === "never", parsed);
+
+for (const [name, file, env] of [
+  ["below the range", {}, { GATEWAY_MAX_CRASHES: "0" }],
+  ["above the range", {}, { GATEWAY_CRASH_WINDOW_MS: "99999999" }],
+  ["not a number", {}, { GATEWAY_BACKOFF_BASE_MS: "1s" }],
+  ["a fraction in the file", { maxConsecutiveFails: 2.5 }, {}],
+  ["a string in the file", { circuitResetMs: "fast" }, {}],
+  ["an unknown strategy", {}, { GATEWAY_RESTART: "sometimes" }],
+] as Array<[string, unknown, Record<string, string>]>) {
+  parsed = parse(file, env);
+  check(`${name} is refused`, parsed.problems.length === 1 && sameAsDefaults(parsed.policy), parsed);
+}
+
+parsed = parse({ backoffBaseMs: 5_000, backoffMaxMs: 1_000 });
+check("backoffMaxMs below backoffBaseMs is raised", parsed.policy.backoffMaxMs === 5_000, parsed);
+parsed = parse({}, { GATEWAY_HEALTH_INTERVAL_MS: "5000", GATEWAY_HEALTH_TIMEOUT_MS: "10000" });
+check("health timeout longer than the interval is capped", parsed.policy.healthCheckTimeoutMs === 5_000, parsed);
+
+for (const [name, file] of [
+  ["a list", [1, 2]],
+  ["a string", "restart: always"],
+] as Array<[string, unknown]>) {
+  parsed = parse(file);
+  check(`a file holding ${name} is refused`, parsed.problems.length === 1, parsed);
+}
+parsed = parse({ restrat: "never" });
+check("unknown file keys are reported", parsed.problems.length === 1 && parsed.policy.restart === "on-demand", parsed);
+
+const policyFile = (name: string, content: string) => {
+  const file = path.join(stateDir, name);
+  fs.writeFileSync(file, content);
+  process.env.OPENCLAW_SUPERVISOR_FILE = file;
+  return loadSupervisorPolicy();
+};
+const yaml = policyFile("supervisor.yaml", "restart: on-failure\nmaxCrashesInWindow: 4\n");
+check("YAML policy file", yaml.restart === "on-failure" && yaml.maxCrashesInWindow === 4, yaml);
+check("JSON policy file", policyFile("supervisor.json", '{"restart": "never"}').restart === "never");
+const broken = policyFile("broken.json", "{ restart: ");
+check("unreadable policy file keeps the defaults", sameAsDefaults(broken));
+process.env.OPENCLAW_SUPERVISOR_FILE = path.join(stateDir, "missing.json");
+check("missing policy file keeps the defaults", loadSupervisorPolicy().restart === DEFAULT_SUPERVISOR_POLICY.restart);
+delete process.env.OPENCLAW_SUPERVISOR_FILE;
+
+Object.assign(console, originalConsole);
+fs.rmSync(stateDir, { recursive: true, force: true });
+if (problems.length > 0) {
+  for (const line of logs) console.error(`  ${line}`);
+  for (const problem of problems) console.error(`supervisor: ${problem}`);
+  process.exit(1);
+}
+console.log("supervisor ok");
@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+
+// Minimal OpenID Connect provider for trying single sign-on locally. It signs everyone in without
+// asking: as MOCK_OIDC_EMAIL (or the login_hint parameter) with the groups in MOCK_OIDC_GROUPS.
+//
+//   bun scripts/mock-oidc-issuer.ts
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=openclaw OIDC_ALLOWED_DOMAINS=example.com bun run dev
+const PORT = Number(process.env.MOCK_OIDC_PORT ?? 9400);
+const ISSUER = process.env.MOCK_OIDC_ISSUER ?? `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID ?? "openclaw";
+const EMAIL = process.env.MOCK_OIDC_EMAIL ?? "dev@example.com";
+const GROUPS = (process.env.MOCK_OIDC_GROUPS ?? "").split(",").map((g) => g.trim()).filter(Boolean);
+
+const KID = "mock-1";
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  challenge: string;
+  nonce: string | null;
+  email: string;
+}
+
+const codes = new Map<string, IssuedCode>();
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function oauthError(error: string, description: string): Response {
+  return json({ error, error_description: description }, 400);
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid: KID })}.${encode(claims)}`;
+  return `${input}.${crypto.sign("sha256", Buffer.from(input), privateKey).toString("base64url")}`;
+}
+
+function authorize(url: URL): Response {
+  const params = url.searchParams;
+  const redirectUri = params.get("redirect_uri");
+  if (params.get("client_id") !== CLIENT_ID || !redirectUri) {
+    return oauthError("invalid_request", "unknown client_id or missing redirect_uri");
+  }
+  if (params.get("response_type") !== "code" || params.get("code_challenge_method") !== "S256") {
+    return oauthError("invalid_request", "only the authorization code flow with S256 PKCE is supported");
+  }
+
+  const code = crypto.randomBytes(16).toString("base64url");
+  codes.set(code, {
+    clientId: CLIENT_ID,
+    redirectUri,
+    challenge: params.get("code_challenge") ?? "",
+    nonce: params.get("nonce"),
+    email: params.get("login_hint") || EMAIL,
+  });
+  const back = new URL(redirectUri);
+  back.searchParams.set("code", code);
+  back.searchParams.set("state", params.get("state") ?? "");
+  return new Response(null, { status: 302, headers: { Location: back.toString() } });
+}
+
+async function token(req: Request): Promise<Response> {
+  const form = new URLSearchParams(await req.text());
+  const code = form.get("code") ?? "";
+  const issued = codes.get(code);
+  codes.delete(code);
+  if (form.get("grant_type") !== "authorization_code" || !issued) {
+    return oauthError("invalid_grant", "unknown or used authorization code");
+  }
+  if (form.get("redirect_uri") !== issued.redirectUri) return oauthError("invalid_grant", "redirect_uri mismatch");
+  const verifier = form.get("code_verifier") ?? "";
+  if (crypto.createHash("sha256").update(verifier).digest("base64url") !== issued.challenge) {
+    return oauthError("invalid_grant", "PKCE verification failed");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: ISSUER,
+    sub: `mock|${issued.email}`,
+    aud: issued.clientId,
+    iat: now,
+    exp: now + 300,
+    ...(issued.nonce ? { nonce: issued.nonce } : {}),
+    email: issued.email,
+    email_verified: true,
+    groups: GROUPS,
+  });
+  return json({
+    access_token: crypto.randomBytes(16).toString("base64url"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const url = new URL(req.url);
+    switch (`${req.method} ${url.pathname}`) {
+      case "GET /.well-known/openid-configuration":
+        return json({
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["none", "client_secret_basic"],
+        });
+      case "GET /jwks":
+        return json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: KID, use: "sig", alg: "RS256" }] });
+      case "GET /authorize":
+        return authorize(url);
+      case "POST /token":
+        return token(req);
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  },
+});
+
+console.log(`[mock-oidc] issuer ${ISSUER} (client_id ${CLIENT_ID}, signs in as ${EMAIL})`);
@@ -0,0 +1,97 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AuditEntry, AuditOutcome, AuditQuery } from "./types.js";
+import { isSecretKey } from "./utils.js";
+import { STATE_DIR } from "./config.js";
+import { redactSecrets } from "./redact.js";
+
+const AUDIT_FILE = "audit.jsonl";
+export const AUDIT_PATH = path.join(STATE_DIR, AUDIT_FILE);
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Argument values under secret-looking keys are dropped; other strings lose anything that looks like a credential.
+function redactArgs(value: unknown, key = ""): unknown {
+  if (key && isSecretKey(key) && value !== undefined && value !== null && value !== "") return "[REDACTED]";
+  if (typeof value === "string") return redactSecrets(value);
+  if (Array.isArray(value)) return value.map((item) => redactArgs(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArgs(v, k)]));
+  }
+  return value;
+}
+
+/** Append one entry to the audit log. Failures are logged but never break the action being audited. */
+export function recordAudit(entry: {
+  actor: string;
+  ip: string;
+  action: string;
+  outcome: AuditOutcome;
+  args?: Record<string, unknown>;
+  detail?: string;
+}): void {
+  const line: AuditEntry = {
+    time: Date.now(),
+    actor: entry.actor,
+    ip: entry.ip,
+    action: entry.action,
+    outcome: entry.outcome,
+    args: redactArgs(entry.args ?? {}) as Record<string, unknown>,
+    ...(entry.detail ? { detail: redactSecrets(entry.detail).slice(0, 500) } : {}),
+  };
+  try {
+    fs.mkdirSync(STATE_DIR, { recursive: true });
+    fs.appendFileSync(AUDIT_PATH, `${JSON.stringify(line)}\n`, { encoding: "utf8", mode: 0o600 });
+  } catch (err) {
+    console.error(`[audit] failed to record ${entry.action}: ${String(err)}`);
+  }
+}
+
+function readEntries(): AuditEntry[] {
+  let text = "";
+  try {
+    text = fs.readFileSync(AUDIT_PATH, "utf8");
+  } catch {
+    return [];
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip a torn line (e.g. the wrapper died mid-write).
+    }
+  }
+  return entries;
+}
+
+/** Entries matching the filters, newest first, one page at a time. `action` also matches sub-actions ("console"). */
+export function queryAudit(query: AuditQuery): {
+  entries: AuditEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+  actions: string[];
+} {
+  const all = readEntries();
+  const actor = query.actor?.toLowerCase();
+  const text = query.q?.toLowerCase();
+  const matches = all.filter(
+    (entry) =>
+      (!query.action || entry.action === query.action || entry.action.startsWith(`${query.action}.`)) &&
+      (!actor || entry.actor.toLowerCase().includes(actor)) &&
+      (!query.outcome || entry.outcome === query.outcome) &&
+      (query.since === undefined || entry.time >= query.since) &&
+      (query.until === undefined || entry.time <= query.until) &&
+      (!text || JSON.stringify(entry).toLowerCase().includes(text))
+  );
+  matches.reverse();
+
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE));
+  const actions = [...new Set(all.map((entry) => entry.action))].sort();
+  return { entries: matches.slice(offset, offset + limit), total: matches.length, offset, limit, actions };
+}
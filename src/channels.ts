@@ -0,0 +1,797 @@
+import type {
+  ChannelBuild,
+  ChannelConfigureResult,
+  ChannelDefinition,
+  ChannelDescriptor,
+  ChannelField,
+  ChannelFieldOption,
+  DiscordConfig,
+  FieldErrors,
+  IMessageConfig,
+  OnboardPayload,
+  SignalConfig,
+  SlackConfig,
+  TelegramConfig,
+  WhatsAppConfig,
+} from "./types.js";
+import { parseCommaSeparated } from "./utils.js";
+import { clawArgs, OPENCLAW_NODE } from "./config.js";
+import { runCmd } from "./gateway.js";
+import { isSecretReference, resolveSecret, secretStoreEnabled, storeSecret } from "./secrets.js";
+import { redactSecrets } from "./redact.js";
+
+// Accepted values shared by the channel options in the setup form.
+const DM_POLICY_OPTIONS: ChannelFieldOption[] = [
+  { value: "pairing", label: "pairing (approve each user)" },
+  { value: "allowlist", label: "allowlist (specific users)" },
+  { value: "open", label: "open (anyone)" },
+  { value: "disabled", label: "disabled (no DMs)" },
+];
+const DISCORD_STREAM_MODE_OPTIONS: ChannelFieldOption[] = [
+  { value: "partial", label: "partial (streaming)" },
+  { value: "full", label: "full (wait for complete)" },
+];
+const DM_POLICIES = DM_POLICY_OPTIONS.map((o) => o.value);
+const DISCORD_GROUP_POLICIES = ["allowlist", "open", "disabled"];
+const DISCORD_STREAM_MODES = DISCORD_STREAM_MODE_OPTIONS.map((o) => o.value);
+const DISCORD_ID_PATTERN = /^\d{5,25}$/;
+const MAX_DISCORD_HISTORY_LIMIT = 100;
+const TELEGRAM_TOKEN_PATTERN = /^\d+:[A-Za-z0-9_-]+$/;
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** How channel blocks are written: a merge patch on stdin, so tokens stay out of argv. */
+export const CHANNEL_PATCH_ARGS = ["config", "patch", "--stdin"];
+
+// --- Field parsing helpers ---
+
+// Parse a "true"/"false" form value, keeping the fallback when the field is blank.
+function parseBooleanField(
+  value: string | undefined,
+  fallback: boolean,
+  field: string,
+  errors: FieldErrors
+): boolean {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return fallback;
+  if (normalized === "true" || normalized === "1" || normalized === "on") return true;
+  if (normalized === "false" || normalized === "0" || normalized === "off") return false;
+  errors[field] = "Expected true or false";
+  return fallback;
+}
+
+// Check a value against a fixed option list and record a field error when it does not match.
+function pickOption(
+  value: string | undefined,
+  options: string[],
+  fallback: string,
+  field: string,
+  errors: FieldErrors
+): string {
+  const normalized = value?.trim() || fallback;
+  if (!options.includes(normalized)) {
+    errors[field] = `Must be one of: ${options.join(", ")}`;
+    return fallback;
+  }
+  return normalized;
+}
+
+// Parse a DM allow list against the selected DM policy.
+// The open policy only takes effect when the wildcard is allow-listed.
+function parseAllowFrom(
+  value: string | undefined,
+  dmPolicy: string,
+  isValid: (entry: string) => boolean,
+  describe: string,
+  field: string,
+  errors: FieldErrors
+): string[] | undefined {
+  const entries = parseCommaSeparated(value);
+  const invalid = entries.find((entry) => !isValid(entry));
+  if (invalid) {
+    errors[field] = `"${invalid}" is not ${describe}`;
+  } else if (dmPolicy === "allowlist" && entries.length === 0) {
+    errors[field] = "Add at least one entry when the DM policy is allowlist";
+  }
+  if (dmPolicy === "open") return ["*"];
+  return entries.length > 0 ? entries : undefined;
+}
+
+// Join a stored allow list back into the comma-separated form field (dropping the open-policy wildcard).
+function joinAllowFrom(allowFrom: string[] | undefined): string {
+  return (allowFrom ?? []).filter((entry) => entry !== "*").join(", ");
+}
+
+function isPhoneNumber(value: string): boolean {
+  return E164_PATTERN.test(value);
+}
+
+// Shared DM policy + allow list fields for channels keyed by phone number or handle.
+function dmFields(prefix: "whatsapp" | "signal" | "imessage", allowLabel: string, allowPlaceholder: string): ChannelField[] {
+  return [
+    {
+      key: `${prefix}DmPolicy`,
+      label: "DM policy",
+      type: "select",
+      options: DM_POLICY_OPTIONS,
+      defaultValue: "pairing",
+    },
+    { key: `${prefix}AllowFrom`, label: allowLabel, type: "text", placeholder: allowPlaceholder },
+  ];
+}
+
+// --- Channel registry ---
+
+const telegram: ChannelDefinition = {
+  name: "telegram",
+  label: "Telegram",
+  pairing: true,
+  fields: [
+    {
+      key: "telegramToken",
+      label: "Bot token",
+      type: "password",
+      placeholder: "123456:ABC...",
+      hint: "Get from @BotFather → /newbot",
+      trigger: true,
+      secretKey: "botToken",
+    },
+  ],
+
+  build(payload): ChannelBuild<TelegramConfig> {
+    const errors: FieldErrors = {};
+    const token = payload.telegramToken?.trim() ?? "";
+    if (!token) {
+      errors.telegramToken = "Bot token is required";
+    } else if (!TELEGRAM_TOKEN_PATTERN.test(token)) {
+      errors.telegramToken = "Expected the 123456:ABC... format from @BotFather";
+    }
+
+    return {
+      config: {
+        enabled: true,
+        dmPolicy: "pairing",
+        botToken: token,
+        groupPolicy: "allowlist",
+        streamMode: "partial",
+      },
+      errors,
+    };
+  },
+
+  fromConfig() {
+    return {};
+  },
+};
+
+const discord: ChannelDefinition = {
+  name: "discord",
+  label: "Discord",
+  notice: "Required: enable MESSAGE CONTENT INTENT and SERVER MEMBERS INTENT in Bot → Privileged Gateway Intents",
+  pairing: true,
+  // The form sets one guild and one channel; switching either drops the old one.
+  replaces: ["guilds", "guilds.*.channels"],
+  fields: [
+    {
+      key: "discordToken",
+      label: "Bot token",
+      type: "password",
+      placeholder: "Bot token from Developer Portal",
+      trigger: true,
+      secretKey: "token",
+    },
+    {
+      key: "discordDmPolicy",
+      label: "DM policy",
+      type: "select",
+      options: DM_POLICY_OPTIONS,
+      defaultValue: "pairing",
+      advanced: true,
+    },
+    {
+      key: "discordStreamMode",
+      label: "Stream mode",
+      type: "select",
+      options: DISCORD_STREAM_MODE_OPTIONS,
+      defaultValue: "partial",
+      advanced: true,
+    },
+    {
+      key: "discordAllowFrom",
+      label: "DM allow list (comma-separated user IDs)",
+      type: "text",
+      placeholder: "123456789, 987654321",
+      hint: 'Only applies when DM policy is "allowlist"',
+      advanced: true,
+    },
+    {
+      key: "discordGuildId",
+      label: "Guild/Server ID",
+      type: "text",
+      placeholder: "Right-click server → Copy ID",
+      advanced: true,
+    },
+    {
+      key: "discordChannelId",
+      label: "Channel ID (optional)",
+      type: "text",
+      placeholder: "Restrict to channel",
+      advanced: true,
+    },
+    {
+      key: "discordHistoryLimit",
+      label: "History limit",
+      type: "number",
+      defaultValue: "20",
+      hint: "Number of messages to include in context",
+      advanced: true,
+    },
+    {
+      key: "discordRequireMention",
+      label: "Require @mention in guild channels",
+      type: "checkbox",
+      defaultValue: "false",
+      advanced: true,
+    },
+    {
+      key: "discordNativeCommands",
+      label: "Enable native slash commands",
+      type: "checkbox",
+      defaultValue: "true",
+      advanced: true,
+    },
+  ],
+
+  build(payload): ChannelBuild<DiscordConfig> {
+    const errors: FieldErrors = {};
+
+    const token = payload.discordToken?.trim() ?? "";
+    if (!token) {
+      errors.discordToken = "Bot token is required";
+    }
+
+    const dmPolicy = pickOption(payload.discordDmPolicy, DM_POLICIES, "pairing", "discordDmPolicy", errors);
+    const groupPolicy = pickOption(
+      payload.discordGroupPolicy,
+      DISCORD_GROUP_POLICIES,
+      "allowlist",
+      "discordGroupPolicy",
+      errors
+    );
+    const streamMode = pickOption(
+      payload.discordStreamMode,
+      DISCORD_STREAM_MODES,
+      "partial",
+      "discordStreamMode",
+      errors
+    );
+
+    let historyLimit: number | undefined;
+    const historyRaw = String(payload.discordHistoryLimit ?? "").trim();
+    if (historyRaw) {
+      const parsed = Number(historyRaw);
+      if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_DISCORD_HISTORY_LIMIT) {
+        errors.discordHistoryLimit = `Must be a whole number between 0 and ${MAX_DISCORD_HISTORY_LIMIT}`;
+      } else {
+        historyLimit = parsed;
+      }
+    }
+
+    const allowFrom = parseAllowFrom(
+      payload.discordAllowFrom,
+      dmPolicy,
+      (id) => DISCORD_ID_PATTERN.test(id),
+      "a numeric Discord user ID",
+      "discordAllowFrom",
+      errors
+    );
+
+    const guildId = payload.discordGuildId?.trim() ?? "";
+    const channelId = payload.discordChannelId?.trim() ?? "";
+    if (guildId && !DISCORD_ID_PATTERN.test(guildId)) {
+      errors.discordGuildId = "Guild ID must be numeric (Right-click server → Copy ID)";
+    }
+    if (channelId && !DISCORD_ID_PATTERN.test(channelId)) {
+      errors.discordChannelId = "Channel ID must be numeric";
+    } else if (channelId && !guildId) {
+      errors.discordChannelId = "A channel restriction needs the Guild ID as well";
+    }
+
+    const dmEnabled = parseBooleanField(payload.discordDmEnabled, true, "discordDmEnabled", errors);
+    const requireMention = parseBooleanField(payload.discordRequireMention, false, "discordRequireMention", errors);
+    const nativeCommands = parseBooleanField(payload.discordNativeCommands, true, "discordNativeCommands", errors);
+
+    const config: DiscordConfig = {
+      enabled: true,
+      token,
+      groupPolicy,
+      historyLimit,
+      streamMode,
+      commands: {
+        native: nativeCommands,
+      },
+      dm: {
+        enabled: dmEnabled && dmPolicy !== "disabled",
+        policy: dmPolicy,
+        allowFrom,
+      },
+      guilds: guildId
+        ? {
+          [guildId]: {
+            enabled: true,
+            requireMention,
+            channels: channelId ? { [channelId]: { enabled: true } } : undefined,
+          },
+        }
+        : undefined,
+    };
+
+    return { config, errors };
+  },
+
+  fromConfig(config) {
+    const cfg = config as Partial<DiscordConfig>;
+    const [guildId, guild] = Object.entries(cfg.guilds ?? {})[0] ?? [];
+    const [channelId] = Object.keys(guild?.channels ?? {});
+    return {
+      discordDmPolicy: cfg.dm?.policy,
+      discordGroupPolicy: cfg.groupPolicy,
+      discordHistoryLimit: cfg.historyLimit,
+      discordStreamMode: cfg.streamMode,
+      discordNativeCommands: cfg.commands ? String(cfg.commands.native) : undefined,
+      discordDmEnabled: cfg.dm?.enabled === undefined ? undefined : String(cfg.dm.enabled),
+      discordGuildId: guildId,
+      discordChannelId: channelId,
+      discordRequireMention: guild ? String(guild.requireMention) : undefined,
+      discordAllowFrom: joinAllowFrom(cfg.dm?.allowFrom),
+    };
+  },
+};
+
+const slack: ChannelDefinition = {
+  name: "slack",
+  label: "Slack",
+  pairing: true,
+  fields: [
+    {
+      key: "slackBotToken",
+      label: "Bot token",
+      type: "password",
+      placeholder: "xoxb-...",
+      trigger: true,
+      secretKey: "botToken",
+    },
+    {
+      key: "slackAppToken",
+      label: "App token",
+      type: "password",
+      placeholder: "xapp-...",
+      trigger: true,
+      secretKey: "appToken",
+    },
+  ],
+
+  build(payload): ChannelBuild<SlackConfig> {
+    const errors: FieldErrors = {};
+    const botToken = payload.slackBotToken?.trim() || undefined;
+    const appToken = payload.slackAppToken?.trim() || undefined;
+    if (!botToken && !appToken) {
+      errors.slackBotToken = "A bot or app token is required";
+    }
+
+    return { config: { enabled: true, botToken, appToken }, errors };
+  },
+
+  fromConfig() {
+    return {};
+  },
+};
+
+const whatsapp: ChannelDefinition = {
+  name: "whatsapp",
+  label: "WhatsApp",
+  notice: "Link your phone after setup by scanning the QR code in the Control UI",
+  pairing: true,
+  fields: [
+    {
+      key: "whatsappEnabled",
+      label: "Enable WhatsApp",
+      type: "checkbox",
+      defaultValue: "false",
+      trigger: true,
+      setupOnly: true,
+    },
+    ...dmFields("whatsapp", "DM allow list (comma-separated numbers)", "+15551234567"),
+  ],
+
+  build(payload): ChannelBuild<WhatsAppConfig> {
+    const errors: FieldErrors = {};
+    const dmPolicy = pickOption(payload.whatsappDmPolicy, DM_POLICIES, "pairing", "whatsappDmPolicy", errors);
+    const allowFrom = parseAllowFrom(
+      payload.whatsappAllowFrom,
+      dmPolicy,
+      isPhoneNumber,
+      "an E.164 phone number (e.g. +15551234567)",
+      "whatsappAllowFrom",
+      errors
+    );
+
+    return {
+      config: { enabled: true, dmPolicy, allowFrom, groupPolicy: "allowlist" },
+      errors,
+    };
+  },
+
+  fromConfig(config) {
+    const cfg = config as Partial<WhatsAppConfig>;
+    return {
+      whatsappEnabled: "true",
+      whatsappDmPolicy: cfg.dmPolicy,
+      whatsappAllowFrom: joinAllowFrom(cfg.allowFrom),
+    };
+  },
+};
+
+const signal: ChannelDefinition = {
+  name: "signal",
+  label: "Signal",
+  pairing: true,
+  fields: [
+    {
+      key: "signalAccount",
+      label: "Account number",
+      type: "text",
+      placeholder: "+15551234567",
+      hint: "The number registered with signal-cli",
+      trigger: true,
+    },
+    {
+      key: "signalHttpUrl",
+      label: "signal-cli daemon URL (optional)",
+      type: "text",
+      placeholder: "http://127.0.0.1:8080",
+    },
+    {
+      key: "signalCliPath",
+      label: "signal-cli path (optional)",
+      type: "text",
+      placeholder: "signal-cli",
+      advanced: true,
+    },
+    ...dmFields("signal", "DM allow list (comma-separated numbers)", "+15551234567"),
+  ],
+
+  build(payload): ChannelBuild<SignalConfig> {
+    const errors: FieldErrors = {};
+
+    const account = payload.signalAccount?.trim() ?? "";
+    if (!account) {
+      errors.signalAccount = "The Signal account number is required";
+    } else if (!isPhoneNumber(account)) {
+      errors.signalAccount = "Expected an E.164 phone number (e.g. +15551234567)";
+    }
+
+    const httpUrl = payload.signalHttpUrl?.trim() || undefined;
+    if (httpUrl && !/^https?:\/\/\S+$/.test(httpUrl)) {
+      errors.signalHttpUrl = "Expected an http:// or https:// URL";
+    }
+
+    const dmPolicy = pickOption(payload.signalDmPolicy, DM_POLICIES, "pairing", "signalDmPolicy", errors);
+    const allowFrom = parseAllowFrom(
+      payload.signalAllowFrom,
+      dmPolicy,
+      isPhoneNumber,
+      "an E.164 phone number (e.g. +15551234567)",
+      "signalAllowFrom",
+      errors
+    );
+
+    return {
+      config: {
+        enabled: true,
+        account,
+        cliPath: payload.signalCliPath?.trim() || undefined,
+        httpUrl,
+        dmPolicy,
+        allowFrom,
+      },
+      errors,
+    };
+  },
+
+  fromConfig(config) {
+    const cfg = config as Partial<SignalConfig>;
+    return {
+      signalAccount: cfg.account,
+      signalCliPath: cfg.cliPath,
+      signalHttpUrl: cfg.httpUrl,
+      signalDmPolicy: cfg.dmPolicy,
+      signalAllowFrom: joinAllowFrom(cfg.allowFrom),
+    };
+  },
+};
+
+const imessage: ChannelDefinition = {
+  name: "imessage",
+  label: "iMessage",
+  notice: "Requires a macOS host running imsg with access to the Messages database",
+  pairing: true,
+  fields: [
+    {
+      key: "imessageEnabled",
+      label: "Enable iMessage",
+      type: "checkbox",
+      defaultValue: "false",
+      trigger: true,
+      setupOnly: true,
+    },
+    { key: "imessageCliPath", label: "imsg path (optional)", type: "text", placeholder: "imsg", advanced: true },
+    {
+      key: "imessageDbPath",
+      label: "Messages database path (optional)",
+      type: "text",
+      placeholder: "~/Library/Messages/chat.db",
+      advanced: true,
+    },
+    ...dmFields("imessage", "DM allow list (numbers or emails)", "+15551234567, me@icloud.com"),
+  ],
+
+  build(payload): ChannelBuild<IMessageConfig> {
+    const errors: FieldErrors = {};
+    const dmPolicy = pickOption(payload.imessageDmPolicy, DM_POLICIES, "pairing", "imessageDmPolicy", errors);
+    const allowFrom = parseAllowFrom(
+      payload.imessageAllowFrom,
+      dmPolicy,
+      (handle) => isPhoneNumber(handle) || EMAIL_PATTERN.test(handle),
+      "a phone number or Apple ID email",
+      "imessageAllowFrom",
+      errors
+    );
+
+    return {
+      config: {
+        enabled: true,
+        cliPath: payload.imessageCliPath?.trim() || undefined,
+        dbPath: payload.imessageDbPath?.trim() || undefined,
+        dmPolicy,
+        allowFrom,
+      },
+      errors,
+    };
+  },
+
+  fromConfig(config) {
+    const cfg = config as Partial<IMessageConfig>;
+    return {
+      imessageEnabled: "true",
+      imessageCliPath: cfg.cliPath,
+      imessageDbPath: cfg.dbPath,
+      imessageDmPolicy: cfg.dmPolicy,
+      imessageAllowFrom: joinAllowFrom(cfg.allowFrom),
+    };
+  },
+};
+
+/** Channels the wrapper can configure, in display order. Add a channel by adding an entry here. */
+export const CHANNELS: ChannelDefinition[] = [telegram, discord, slack, whatsapp, signal, imessage];
+
+/** Look up a channel definition by name. */
+export function getChannel(name: string): ChannelDefinition | undefined {
+  return CHANNELS.find((channel) => channel.name === name);
+}
+
+/** Serializable channel descriptors for the setup UI. */
+export function channelDescriptors(): ChannelDescriptor[] {
+  return CHANNELS.map(({ name, label, notice, pairing, fields }) => ({ name, label, notice, pairing, fields }));
+}
+
+/** Names of the channels that issue pairing codes. */
+export function pairingChannelNames(): string[] {
+  return CHANNELS.filter((channel) => channel.pairing).map((channel) => channel.name);
+}
+
+// Secret fields of a channel, mapped to the config key they are stored under.
+function secretFields(channel: ChannelDefinition): Array<[keyof OnboardPayload, string]> {
+  return channel.fields
+    .filter((field) => field.secretKey)
+    .map((field): [keyof OnboardPayload, string] => [field.key, field.secretKey!]);
+}
+
+/** Return true when the payload asks for a channel (a token, account or enable flag is set). */
+export function channelRequested(channel: ChannelDefinition, payload: OnboardPayload): boolean {
+  return channel.fields
+    .filter((field) => field.trigger)
+    .some((field) => {
+      const value = String(payload[field.key] ?? "").trim().toLowerCase();
+      return value !== "" && value !== "false";
+    });
+}
+
+/** Collect field-level errors for every channel requested by an onboarding payload. */
+export function validateOnboardChannels(payload: OnboardPayload): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const channel of CHANNELS) {
+    if (channelRequested(channel, payload)) {
+      Object.assign(errors, channel.build(payload).errors);
+    }
+  }
+  return errors;
+}
+
+/** Ask the CLI which channels `channels add` supports in this build. */
+export async function loadChannelSupport(): Promise<(name: string) => boolean> {
+  const channelsHelp = await runCmd(OPENCLAW_NODE, clawArgs(["channels", "add", "--help"]));
+  const helpText = channelsHelp.output || "";
+  return (name: string): boolean => helpText.includes(name);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function matchesPath(pattern: string, segments: string[]): boolean {
+  const parts = pattern.split(".");
+  return parts.length === segments.length && parts.every((part, i) => part === "*" || part === segments[i]);
+}
+
+// The merge patch that writes `built` over `current`. A blank field (undefined) becomes null, which removes the key,
+// as does any entry of a replaced map that the form no longer lists. Keys the form does not know are left out of the
+// patch, so hand-edited settings such as allowlists survive.
+function buildPatch(built: unknown, current: unknown, segments: string[], replaces: string[]): unknown {
+  if (built === undefined) return null;
+  if (!isRecord(built)) return built;
+  const patch: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(built)) {
+    const previous = isRecord(current) ? current[key] : undefined;
+    // A blank field only needs removing when the config has it.
+    if (value === undefined && previous === undefined) continue;
+    patch[key] = buildPatch(value, previous, [...segments, key], replaces);
+  }
+  if (isRecord(current) && replaces.some((pattern) => matchesPath(pattern, segments))) {
+    for (const key of Object.keys(current)) {
+      if (!(key in built)) patch[key] = null;
+    }
+  }
+  return patch;
+}
+
+// Apply a merge patch the way `openclaw config patch` does: objects merge, null removes, anything else replaces.
+function applyPatch(target: unknown, patch: unknown): unknown {
+  if (!isRecord(patch)) return patch;
+  const result: Record<string, unknown> = isRecord(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyPatch(result[key], value);
+  }
+  return result;
+}
+
+/**
+ * The `config patch` document that writes a built channel block over the current one (null when the channel is not
+ * set yet), and the block that results.
+ */
+export function channelPatch(
+  channel: ChannelDefinition,
+  built: Record<string, unknown>,
+  current: Record<string, unknown> | null
+): { patch: Record<string, unknown>; block: Record<string, unknown> } {
+  const block = buildPatch(built, current, [], channel.replaces ?? []) as Record<string, unknown>;
+  return {
+    patch: { channels: { [channel.name]: block } },
+    block: applyPatch(current, block) as Record<string, unknown>,
+  };
+}
+
+/** Write a channel's config block over the current one when this OpenClaw build supports it, then read it back. */
+export async function configureChannel(
+  channel: ChannelDefinition,
+  payload: OnboardPayload,
+  supports: (name: string) => boolean
+): Promise<ChannelConfigureResult> {
+  const { name } = channel;
+  if (!supports(name)) {
+    return {
+      ok: false,
+      skipped: true,
+      code: null,
+      output: `\n[${name}] skipped (this openclaw build does not list ${name} in \`channels add --help\`)\n`,
+    };
+  }
+
+  const { config: cfgObj } = channel.build(payload);
+  // With the secret store enabled, tokens are stored encrypted and the config only sees a reference.
+  const stored = cfgObj as Record<string, unknown>;
+  for (const [, key] of secretFields(channel)) {
+    if (typeof stored[key] === "string") stored[key] = storeSecret(`channels.${name}.${key}`, stored[key]);
+  }
+  const { patch } = channelPatch(channel, stored, await readChannelConfig(name));
+
+  // The patch goes over stdin: without the store it holds plain tokens, which must not show up in argv.
+  const set = await runCmd(OPENCLAW_NODE, clawArgs(CHANNEL_PATCH_ARGS), { input: JSON.stringify(patch) });
+  const get = await runCmd(OPENCLAW_NODE, clawArgs(["config", "get", `channels.${name}`]));
+
+  return {
+    ok: set.code === 0,
+    skipped: false,
+    code: set.code,
+    output: `\n[${name} config] exit=${set.code} (output ${set.output.length} chars)\n${set.output || "(no output)"}` +
+      `\n[${name} verify] exit=${get.code} (output ${get.output.length} chars)\n${get.output || "(no output)"}`,
+  };
+}
+
+/** Read `channels.<name>` from the OpenClaw config; null when the block is not set. */
+export async function readChannelConfig(name: string): Promise<Record<string, unknown> | null> {
+  const r = await runCmd(OPENCLAW_NODE, clawArgs(["config", "get", `channels.${name}`]), { timeoutMs: 15_000 });
+  if (r.code !== 0) return null;
+  try {
+    const parsed: unknown = JSON.parse(r.output);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Replace channel secrets with a marker so the config can be shown in the browser. */
+export function maskChannelConfig(channel: ChannelDefinition, config: Record<string, unknown>): Record<string, unknown> {
+  const masked = { ...config };
+  for (const [, key] of secretFields(channel)) {
+    if (masked[key]) masked[key] = "[REDACTED]";
+  }
+  return masked;
+}
+
+/** Report which secret fields already have a stored value. */
+export function storedSecretFields(
+  channel: ChannelDefinition,
+  config: Record<string, unknown> | null
+): Record<string, boolean> {
+  return Object.fromEntries(secretFields(channel).map(([field, key]) => [field, Boolean(config?.[key])]));
+}
+
+/** Secret values (tokens) a payload carries for a channel. */
+export function channelSecrets(channel: ChannelDefinition, payload: OnboardPayload): string[] {
+  return secretFields(channel)
+    .map(([field]) => String(payload[field] ?? "").trim())
+    .filter(Boolean);
+}
+
+/** Redact CLI output, including the literal channel secrets from the payload. */
+export function redactChannelOutput(channel: ChannelDefinition, payload: OnboardPayload, output: string): string {
+  return redactSecrets(output, channelSecrets(channel, payload));
+}
+
+/** Fill blank secret fields from the stored channel config so updates can keep existing tokens. */
+export function withStoredSecrets(
+  channel: ChannelDefinition,
+  payload: OnboardPayload,
+  current: Record<string, unknown> | null
+): OnboardPayload {
+  const merged: OnboardPayload = { ...payload };
+  if (!current) return merged;
+  for (const [field, key] of secretFields(channel)) {
+    const stored = current[key];
+    if (!String(merged[field] ?? "").trim() && typeof stored === "string" && stored) {
+      (merged as Record<string, unknown>)[field] = resolveSecret(stored);
+    }
+  }
+  return merged;
+}
+
+/** Move plain-text channel tokens from the config into the secret store, leaving references behind. */
+export async function migrateChannelSecrets(): Promise<string[]> {
+  if (!secretStoreEnabled()) return [];
+  const moved: string[] = [];
+  for (const channel of CHANNELS) {
+    const current = await readChannelConfig(channel.name);
+    if (!current) continue;
+    for (const [, key] of secretFields(channel)) {
+      const value = current[key];
+      if (typeof value !== "string" || !value || isSecretReference(value)) continue;
+      const name = `channels.${channel.name}.${key}`;
+      const r = await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", name, storeSecret(name, value)]));
+      if (r.code === 0) moved.push(name);
+      else console.error(`[secrets] failed to move ${name} into the store: ${redactSecrets(r.output, [value])}`);
+    }
+  }
+  return moved;
+}
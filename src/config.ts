@@ -3,7 +3,8 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
-import type { AuthGroup, OnboardPayload } from "./types.js";
+import type { AuthGroup, OnboardPayload, UserRole } from "./types.js";
+import { parseCommaSeparated } from "./utils.js";
 
 const DEFAULT_PUBLIC_PORT = 8080;
 const DEFAULT_INTERNAL_GATEWAY_PORT = 18789;
@@ -43,14 +44,121 @@ export const WORKSPACE_DIR: string =
   process.env.CLAWDBOT_WORKSPACE_DIR?.trim() ||
   path.join(STATE_DIR, "workspace");
 
-/** Password gate for /setup; DEV_MODE bypasses this outside Railway. */
+const GATEWAY_TOKEN_PATH = path.join(STATE_DIR, "gateway.token");
+export const SETUP_PASSWORD_FILE = "setup-password.json";
+const SETUP_PASSWORD_PATH = path.join(STATE_DIR, SETUP_PASSWORD_FILE);
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// Write a credential file readable only by the wrapper, replacing any previous one in a single step.
+function writePrivateFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, content, { encoding: "utf8", mode: 0o600 });
+  fs.renameSync(tmp, filePath);
+}
+
+/** Password gate for /setup; DEV_MODE bypasses this outside Railway. Check passwords with checkSetupPassword. */
 export const SETUP_PASSWORD: string | undefined = process.env.SETUP_PASSWORD?.trim();
 
+// A password rotated from /setup replaces SETUP_PASSWORD until the variable itself is changed. Only its hash is
+// stored, next to a hash of the value it replaced to tell the two apart.
+function loadRotatedPasswordHash(): string | null {
+  if (!SETUP_PASSWORD) return null;
+  try {
+    const rotated = JSON.parse(fs.readFileSync(SETUP_PASSWORD_PATH, "utf8")) as {
+      passwordHash?: string;
+      replaces?: string;
+    };
+    if (rotated.passwordHash && rotated.replaces === sha256(SETUP_PASSWORD)) return rotated.passwordHash;
+    fs.rmSync(SETUP_PASSWORD_PATH, { force: true });
+  } catch {
+    // Never rotated.
+  }
+  return null;
+}
+
+let rotatedPasswordHash: string | null = loadRotatedPasswordHash();
+
+/** Check a password against the rotated setup password, or SETUP_PASSWORD when it was never rotated. */
+export function checkSetupPassword(password: string): boolean {
+  if (!SETUP_PASSWORD || !password) return false;
+  if (rotatedPasswordHash) return Bun.password.verifySync(password, rotatedPasswordHash);
+  // Comparing digests keeps the time constant whatever the lengths.
+  return crypto.timingSafeEqual(Buffer.from(sha256(password), "hex"), Buffer.from(sha256(SETUP_PASSWORD), "hex"));
+}
+
+/** Replace the setup password until SETUP_PASSWORD is changed in the environment. */
+export function setSetupPassword(password: string): void {
+  if (!SETUP_PASSWORD) throw new Error("SETUP_PASSWORD is not set");
+  const passwordHash = Bun.password.hashSync(password, { algorithm: "argon2id" });
+  writePrivateFile(
+    SETUP_PASSWORD_PATH,
+    JSON.stringify({ passwordHash, replaces: sha256(SETUP_PASSWORD), rotatedAt: Date.now() })
+  );
+  rotatedPasswordHash = passwordHash;
+}
+
 const inRailway = Boolean(process.env.RAILWAY_ENVIRONMENT);
 const devOverride = process.env.DEV_MODE === "1";
 const nodeDev = process.env.NODE_ENV === "development";
 export const DEV_MODE: boolean = !inRailway && (devOverride || nodeDev);
 
+/** Take the client IP from X-Forwarded-For (as set by Railway's edge) rather than the TCP peer. */
+export const TRUST_PROXY: boolean = process.env.SETUP_TRUST_PROXY ? process.env.SETUP_TRUST_PROXY === "1" : inRailway;
+
+/** HTTP Basic auth for /setup is an opt-in fallback for scripts; browsers sign in on /setup/login. */
+export const BASIC_AUTH_ENABLED: boolean = process.env.SETUP_BASIC_AUTH === "1";
+
+function resolvePositiveInt(raw: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(raw?.trim() ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Login sessions end after this long without a request, or this long after sign-in regardless of use. */
+export const SESSION_IDLE_MS: number = resolvePositiveInt(process.env.SETUP_SESSION_IDLE_MINUTES, 30) * 60_000;
+export const SESSION_MAX_AGE_MS: number =
+  resolvePositiveInt(process.env.SETUP_SESSION_MAX_AGE_MINUTES, 12 * 60) * 60_000;
+
+/** Config history keeps at most this many revisions, and none older than this many days (0 keeps them forever). */
+export const CONFIG_HISTORY_MAX_REVISIONS: number = resolvePositiveInt(process.env.CONFIG_HISTORY_MAX_REVISIONS, 50);
+export const CONFIG_HISTORY_MAX_AGE_DAYS: number = process.env.CONFIG_HISTORY_MAX_AGE_DAYS?.trim() === "0"
+  ? 0
+  : resolvePositiveInt(process.env.CONFIG_HISTORY_MAX_AGE_DAYS, 90);
+
+/** How long a tried config change must keep the gateway up before it is kept (see tryConfigChange). */
+export const CONFIG_TRY_GRACE_MS: number = resolvePositiveInt(process.env.CONFIG_TRY_GRACE_SECONDS, 30) * 1000;
+
+/** OpenID Connect single sign-on for /setup and the Control UI; enabled when an issuer and client ID are set. */
+export const OIDC_ISSUER: string = process.env.OIDC_ISSUER?.trim().replace(/\/+$/, "") || "";
+export const OIDC_CLIENT_ID: string = process.env.OIDC_CLIENT_ID?.trim() || "";
+export const OIDC_CLIENT_SECRET: string = process.env.OIDC_CLIENT_SECRET?.trim() || ""; // Optional with PKCE
+export const OIDC_ENABLED: boolean = Boolean(OIDC_ISSUER && OIDC_CLIENT_ID);
+
+/** Callback URL registered with the identity provider; derived from the request host when unset. */
+export const OIDC_REDIRECT_URL: string = process.env.OIDC_REDIRECT_URL?.trim() || "";
+export const OIDC_SCOPES: string = process.env.OIDC_SCOPES?.trim() || "openid email profile";
+
+/** Who may sign in: an exact email, an email domain, or membership of a group (any one match is enough). */
+export const OIDC_ALLOWED_EMAILS: string[] = parseCommaSeparated(process.env.OIDC_ALLOWED_EMAILS?.toLowerCase());
+export const OIDC_ALLOWED_DOMAINS: string[] = parseCommaSeparated(process.env.OIDC_ALLOWED_DOMAINS?.toLowerCase())
+  .map((domain) => domain.replace(/^@/, ""));
+export const OIDC_ALLOWED_GROUPS: string[] = parseCommaSeparated(process.env.OIDC_ALLOWED_GROUPS);
+export const OIDC_GROUPS_CLAIM: string = process.env.OIDC_GROUPS_CLAIM?.trim() || "groups"; // Dotted path allowed
+
+/** Accept an email without `email_verified: true`, for providers that only ever issue verified addresses. */
+export const OIDC_EMAIL_ALWAYS_VERIFIED: boolean = process.env.OIDC_EMAIL_ALWAYS_VERIFIED === "1";
+
+function resolveRole(raw: string | undefined, fallback: UserRole): UserRole {
+  const value = raw?.trim().toLowerCase();
+  return value === "viewer" || value === "operator" || value === "admin" ? value : fallback;
+}
+
+/** Role given to single sign-on users. */
+export const OIDC_ROLE: UserRole = resolveRole(process.env.OIDC_ROLE, "admin");
+
 /** Enable proxy request metrics logging. */
 export const PROXY_DEBUG: boolean =
   process.env.OPENCLAW_PROXY_DEBUG === "1" || process.env.PROXY_DEBUG === "1";
@@ -70,14 +178,18 @@ export const OPENCLAW_NODE: string = process.env.OPENCLAW_NODE?.trim() || "node"
 /** UI assets live alongside the wrapper source. */
 export const UI_DIR: string = path.join(process.cwd(), "src", "ui");
 
+/** True when OPENCLAW_GATEWAY_TOKEN (or its CLAWDBOT alias) is set, so the token cannot be rotated from /setup. */
+export const GATEWAY_TOKEN_FROM_ENV: boolean = Boolean(
+  process.env.OPENCLAW_GATEWAY_TOKEN?.trim() || process.env.CLAWDBOT_GATEWAY_TOKEN?.trim()
+);
+
 // Resolve the gateway token from env, disk, or a new random value.
 function resolveGatewayToken(): string {
   const envTok = process.env.OPENCLAW_GATEWAY_TOKEN?.trim() || process.env.CLAWDBOT_GATEWAY_TOKEN?.trim();
   if (envTok) return envTok;
 
-  const tokenPath = path.join(STATE_DIR, "gateway.token");
   try {
-    const existing = fs.readFileSync(tokenPath, "utf8").trim();
+    const existing = fs.readFileSync(GATEWAY_TOKEN_PATH, "utf8").trim();
     if (existing) return existing;
   } catch {
     // Skip unreadable token files and generate a new one.
@@ -85,20 +197,34 @@ function resolveGatewayToken(): string {
 
   const generated = crypto.randomBytes(32).toString("hex");
   try {
-    fs.mkdirSync(STATE_DIR, { recursive: true });
-    fs.writeFileSync(tokenPath, generated, { encoding: "utf8", mode: 0o600 });
+    writePrivateFile(GATEWAY_TOKEN_PATH, generated);
   } catch {
     // Token persistence is best-effort; we can still return the generated value.
   }
   return generated;
 }
 
-export const OPENCLAW_GATEWAY_TOKEN: string = resolveGatewayToken();
+/** Shared secret between the wrapper and the gateway. Changes when the token is rotated. */
+export let OPENCLAW_GATEWAY_TOKEN: string = resolveGatewayToken();
 
 // Keep child processes aligned with the resolved gateway token.
 process.env.OPENCLAW_GATEWAY_TOKEN = OPENCLAW_GATEWAY_TOKEN;
 process.env.CLAWDBOT_GATEWAY_TOKEN = process.env.CLAWDBOT_GATEWAY_TOKEN || OPENCLAW_GATEWAY_TOKEN;
 
+/** Persist a new gateway token and hand it to child processes started from now on. */
+export function setGatewayToken(token: string): void {
+  writePrivateFile(GATEWAY_TOKEN_PATH, token);
+  OPENCLAW_GATEWAY_TOKEN = token;
+  process.env.OPENCLAW_GATEWAY_TOKEN = token;
+  process.env.CLAWDBOT_GATEWAY_TOKEN = token;
+}
+
+/** Master key for the encrypted secret store in STATE_DIR/credentials. Without it, secrets stay in openclaw.json. */
+export const SECRETS_MASTER_KEY: string = process.env.OPENCLAW_SECRETS_KEY?.trim() || "";
+
+// Child processes get the secrets they need, never the key that unlocks all of them.
+delete process.env.OPENCLAW_SECRETS_KEY;
+
 /** Prefix CLI arguments with the OpenClaw entrypoint. */
 export function clawArgs(args: string[]): string[] {
   return [OPENCLAW_ENTRY, ...args];
@@ -245,23 +371,25 @@ export const AUTH_GROUPS: AuthGroup[] = [
   },
 ];
 
-// CLI flags for auth secrets keyed by the setup option value.
-const AUTH_SECRET_MAP: Record<string, string> = {
-  "openai-api-key": "--openai-api-key",
-  "apiKey": "--anthropic-api-key",
-  "openrouter-api-key": "--openrouter-api-key",
-  "ai-gateway-api-key": "--ai-gateway-api-key",
-  "moonshot-api-key": "--moonshot-api-key",
-  "kimi-code-api-key": "--kimi-code-api-key",
-  "gemini-api-key": "--gemini-api-key",
-  "zai-api-key": "--zai-api-key",
-  "minimax-api": "--minimax-api-key",
-  "minimax-api-lightning": "--minimax-api-key",
-  "synthetic-api-key": "--synthetic-api-key",
-  "opencode-zen": "--opencode-zen-api-key",
+// Env vars `openclaw onboard --non-interactive` reads provider keys from when their flag is absent, keyed by the
+// setup option value; checked against `openclaw onboard --help` and the provider docs. Keys go through the env rather
+// than flags, which anyone can read from `ps` while the command runs.
+const AUTH_SECRET_ENV: Record<string, string> = {
+  "openai-api-key": "OPENAI_API_KEY",
+  "apiKey": "ANTHROPIC_API_KEY",
+  "openrouter-api-key": "OPENROUTER_API_KEY",
+  "ai-gateway-api-key": "AI_GATEWAY_API_KEY",
+  "moonshot-api-key": "MOONSHOT_API_KEY",
+  "kimi-code-api-key": "KIMI_API_KEY",
+  "gemini-api-key": "GEMINI_API_KEY",
+  "zai-api-key": "ZAI_API_KEY",
+  "minimax-api": "MINIMAX_API_KEY",
+  "minimax-api-lightning": "MINIMAX_API_KEY",
+  "synthetic-api-key": "SYNTHETIC_API_KEY",
+  "opencode-zen": "OPENCODE_API_KEY",
 };
 
-/** Build CLI arguments for the OpenClaw onboarding command. */
+/** Build CLI arguments for the OpenClaw onboarding command. Secrets go in buildOnboardEnv instead. */
 export function buildOnboardArgs(payload: OnboardPayload): string[] {
   const args: string[] = [
     "onboard",
@@ -278,52 +406,58 @@ export function buildOnboardArgs(payload: OnboardPayload): string[] {
     String(INTERNAL_GATEWAY_PORT),
     "--gateway-auth",
     "token",
-    "--gateway-token",
-    OPENCLAW_GATEWAY_TOKEN,
     "--flow",
     payload.flow || "quickstart",
   ];
 
   if (payload.authChoice) {
-    args.push("--auth-choice", payload.authChoice);
-
-    const secret = (payload.authSecret || "").trim();
-    const flag = AUTH_SECRET_MAP[payload.authChoice];
-    if (flag && secret) {
-      args.push(flag, secret);
-    }
-
-    if (payload.authChoice === "token" && secret) {
-      args.push("--token-provider", "anthropic", "--token", secret);
-    }
+    // `onboard` takes setup tokens only as a flag, so onboarding skips auth and the token is pasted over stdin after.
+    args.push("--auth-choice", setupTokenFor(payload) ? "skip" : payload.authChoice);
   }
 
   return args;
 }
 
-export const ALLOWED_CONSOLE_COMMANDS = new Set<string>([
+/** The Anthropic setup token to pass to `models auth paste-token` after onboarding; null for other auth choices. */
+export function setupTokenFor(payload: OnboardPayload): string | null {
+  const secret = (payload.authSecret || "").trim();
+  return payload.authChoice === "token" && secret ? secret : null;
+}
+
+/** Env for the onboarding command: the provider key the auth choice needs, if any. */
+export function buildOnboardEnv(payload: OnboardPayload): Record<string, string> {
+  const secret = (payload.authSecret || "").trim();
+  const name = payload.authChoice ? AUTH_SECRET_ENV[payload.authChoice] : undefined;
+  return name && secret ? { [name]: secret } : {};
+}
+
+// Console commands and the minimum role allowed to run each.
+export const CONSOLE_COMMAND_ROLES: Record<string, UserRole> = {
   // Wrapper lifecycle actions.
-  "gateway.restart",
-  "gateway.stop",
-  "gateway.start",
-  "gateway.health",
-  "gateway.reset-breaker",
+  "gateway.restart": "operator",
+  "gateway.stop": "operator",
+  "gateway.start": "operator",
+  "gateway.health": "viewer",
+  "gateway.reset-breaker": "operator",
   // OpenClaw CLI helpers.
-  "openclaw.version",
-  "openclaw.status",
-  "openclaw.health",
-  "openclaw.doctor",
-  "openclaw.logs.tail",
-  "openclaw.config.get",
-  "openclaw.config.set",
-  "openclaw.pairing.list",
-  "openclaw.pairing.approve",
-  "openclaw.nodes.list",
-  "openclaw.nodes.approve",
-  "openclaw.channels.status",
-  "openclaw.security.audit",
+  "openclaw.version": "viewer",
+  "openclaw.status": "viewer",
+  "openclaw.health": "viewer",
+  "openclaw.doctor": "operator",
+  "openclaw.logs.tail": "viewer",
+  "openclaw.config.get": "operator",
+  "openclaw.config.set": "admin",
+  "openclaw.config.try": "admin",
+  "openclaw.pairing.list": "viewer",
+  "openclaw.pairing.approve": "operator",
+  "openclaw.nodes.list": "viewer",
+  "openclaw.nodes.approve": "operator",
+  "openclaw.channels.status": "viewer",
+  "openclaw.security.audit": "viewer",
   // Device pairing management.
-  "openclaw.devices.list",
-  "openclaw.devices.clear",
-  "openclaw.devices.approve",
-]);
+  "openclaw.devices.list": "viewer",
+  "openclaw.devices.clear": "admin",
+  "openclaw.devices.approve": "operator",
+};
+
+export const ALLOWED_CONSOLE_COMMANDS = new Set<string>(Object.keys(CONSOLE_COMMAND_ROLES));
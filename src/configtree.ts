@@ -0,0 +1,155 @@
+import type { ConfigPatchOp } from "./types.js";
+import { checkConfigValue } from "./validate.js";
+import { isMaskedForm, isSecretConfigPath, MASK, redactSecrets } from "./redact.js";
+import { isSecretReference } from "./secrets.js";
+
+// The config as a tree for the form editor. Keys are addressed with JSON pointers (RFC 6901):
+// "/channels/telegram/botToken", with "~1" for "/" and "~0" for "~" inside a key, and "-" for the end of a list.
+const PATCH_OPS = new Set(["add", "replace", "remove"]);
+const MAX_PATCH_OPS = 200;
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return value !== null && typeof value === "object";
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+/** Split a JSON pointer into keys; null when it is not a pointer. "" is the whole config. */
+export function parsePointer(pointer: string): string[] | null {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) return null;
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/** Copy of the config with credential values replaced by a marker. References into the secret store stay. */
+export function maskConfigTree(value: unknown, segments: string[] = []): unknown {
+  if (typeof value === "string") {
+    if (value && !isSecretReference(value) && isSecretConfigPath(segments)) return MASK;
+    return redactSecrets(value);
+  }
+  if (Array.isArray(value)) return value.map((item, i) => maskConfigTree(item, [...segments, String(i)]));
+  if (isContainer(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, maskConfigTree(v, [...segments, k])]));
+  }
+  return value;
+}
+
+// A masked value sent back unedited stands for the value already stored at the same place.
+function restoreMasked(value: unknown, current: unknown): unknown {
+  if (typeof value === "string") return typeof current === "string" && isMaskedForm(value, current) ? current : value;
+  if (Array.isArray(value)) {
+    return value.map((item, i) => restoreMasked(item, Array.isArray(current) ? current[i] : undefined));
+  }
+  if (isContainer(value)) {
+    const before = isContainer(current) && !Array.isArray(current) ? current : {};
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreMasked(v, before[k])]));
+  }
+  return value;
+}
+
+function containsMask(value: unknown): boolean {
+  if (value === MASK) return true;
+  return isContainer(value) && Object.values(value).some(containsMask);
+}
+
+// Index into a list for `segment`; "-" (append) is only allowed when adding.
+function listIndex(list: unknown[], segment: string, adding: boolean): number | null {
+  if (adding && segment === "-") return list.length;
+  if (!/^(0|[1-9]\d*)$/.test(segment)) return null;
+  const index = Number(segment);
+  return index < list.length || (adding && index === list.length) ? index : null;
+}
+
+// Apply one operation to `root` in place. Returns an error message, or null.
+function applyOp(root: Container, op: ConfigPatchOp, segments: string[]): string | null {
+  let parent: unknown = root;
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(parent)) {
+      const index = listIndex(parent, segment, false);
+      parent = index === null ? undefined : parent[index];
+    } else if (isContainer(parent) && Object.prototype.hasOwnProperty.call(parent, segment)) {
+      parent = (parent as Record<string, unknown>)[segment];
+    } else {
+      parent = undefined;
+    }
+    if (!isContainer(parent)) return `${op.path}: the parent of this key does not exist`;
+  }
+
+  const last = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    const index = listIndex(parent, last, op.op === "add");
+    if (index === null) return `${op.path}: no such list item`;
+    if (op.op === "add") parent.splice(index, 0, op.value);
+    else if (op.op === "replace") parent[index] = op.value;
+    else parent.splice(index, 1);
+    return null;
+  }
+
+  const object = parent as Record<string, unknown>;
+  const exists = Object.prototype.hasOwnProperty.call(object, last);
+  if (op.op !== "add" && !exists) return `${op.path}: no such key`;
+  if (op.op === "remove") delete object[last];
+  else object[last] = op.value;
+  return null;
+}
+
+/**
+ * Apply JSON-pointer patch operations ("add", "replace", "remove") to a copy of the config. A masked value sent
+ * back keeps what is stored. Values are checked against the config schema; keys it does not cover must keep the
+ * type they already have.
+ */
+export function applyConfigPatch(
+  config: unknown,
+  ops: unknown
+): { ok: boolean; error?: string; config?: Record<string, unknown>; changed?: string[] } {
+  if (!Array.isArray(ops) || ops.length === 0) return { ok: false, error: "ops must be a non-empty list" };
+  if (ops.length > MAX_PATCH_OPS) return { ok: false, error: `At most ${MAX_PATCH_OPS} operations per request` };
+
+  const base = isContainer(config) && !Array.isArray(config) ? config : {};
+  const root = structuredClone(base) as Record<string, unknown>;
+  const changed: string[] = [];
+  for (const [i, raw] of ops.entries()) {
+    let op = raw as ConfigPatchOp;
+    const where = `ops[${i}]`;
+    if (!op || typeof op !== "object" || !PATCH_OPS.has(op.op)) {
+      return { ok: false, error: `${where}: op must be add, replace or remove` };
+    }
+    const segments = typeof op.path === "string" ? parsePointer(op.path) : null;
+    if (!segments || segments.length === 0) {
+      return { ok: false, error: `${where}: path must be a JSON pointer to a key, e.g. "/gateway/port"` };
+    }
+
+    if (op.op !== "remove") {
+      if (op.value === undefined) return { ok: false, error: `${where}: ${op.path} needs a value` };
+      const current = segments.reduce<unknown>(
+        (node, segment) => (isContainer(node) ? (node as Record<string, unknown>)[segment] : undefined),
+        root
+      );
+      op = { ...op, value: restoreMasked(op.value, current) };
+      if (containsMask(op.value)) {
+        return { ok: false, error: `${where}: ${op.path} holds the ${MASK} placeholder; send the real value` };
+      }
+      const issues = checkConfigValue(segments, op.value);
+      if (issues?.length) return { ok: false, error: `${where}: ${issues[0].message}` };
+      if (issues === null && op.op === "replace") {
+        if (current !== undefined && current !== null && typeName(current) !== typeName(op.value)) {
+          return { ok: false, error: `${where}: ${op.path} is ${typeName(current)}, not ${typeName(op.value)}` };
+        }
+      }
+    }
+
+    const err = applyOp(root, op, segments);
+    if (err) return { ok: false, error: `${where}: ${err}` };
+    changed.push(op.path);
+  }
+  return { ok: true, config: root, changed };
+}
@@ -1,31 +1,49 @@
-import childProcess, { ChildProcess, SpawnOptions } from "node:child_process";
+import childProcess, { SpawnOptions } from "node:child_process";
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 
-import type { CommandResult, GatewayResult, GatewayState, WaitForGatewayOptions } from "./types.js";
-import { sleep } from "./utils.js";
+import type {
+  CommandResult,
+  ConfigRevisionSummary,
+  ConfigTrialResult,
+  GatewayChild,
+  GatewayExit,
+  GatewayHealth,
+  GatewayResult,
+  GatewayTokenRotation,
+  GatewayState,
+  SupervisorPolicy,
+  SupervisorRuntime,
+  WaitForGatewayOptions,
+} from "./types.js";
+import { jobOutput, jobPhase, jobSignal, startJob } from "./jobs.js";
+import { captureExternalConfigChange, recordConfigRevision } from "./history.js";
+import { secretEnv } from "./secrets.js";
+import { redactSecrets } from "./redact.js";
+import { loadSupervisorPolicy, SYSTEM_RUNTIME } from "./supervisor.js";
 import {
   clawArgs,
+  CONFIG_TRY_GRACE_MS,
+  configPath,
   ensureDirectories,
   getChildEnv,
-  GATEWAY_TARGET,
   INTERNAL_GATEWAY_PORT,
   isConfigured,
   OPENCLAW_GATEWAY_TOKEN,
   OPENCLAW_NODE,
+  setGatewayToken,
   STATE_DIR,
   WORKSPACE_DIR,
 } from "./config.js";
 
-// Circuit breaker / crash tracking configuration
-const CRASH_WINDOW_MS = 60_000;           // Track crashes within 1 minute
-const MAX_CRASHES_IN_WINDOW = 5;          // Max crashes before circuit opens
-const CIRCUIT_RESET_MS = 120_000;         // Wait 2 minutes before retrying after circuit opens
-const MAX_CONSECUTIVE_FAILS = 3;          // Max consecutive startup failures
-const BASE_BACKOFF_MS = 1_000;            // Base backoff delay
-const MAX_BACKOFF_MS = 30_000;            // Max backoff delay
-const HEALTH_CHECK_INTERVAL_MS = 30_000;  // Health check every 30 seconds
-const HEALTH_CHECK_TIMEOUT_MS = 5_000;    // Timeout for health check requests
+// Crash-loop limits, backoff and health-check timing come from the supervisor policy (see supervisor.ts).
+const STOP_WAIT_MS = 750;                 // Time a stopped gateway gets to exit and release the port
+const CANCEL_GRACE_MS = 3_000;            // Time a cancelled command gets to exit before SIGKILL
+const TRY_POLL_MS = 1_000;                // How often a tried config is checked during its grace window
+const TRY_READY_TIMEOUT_MS = 5_000;       // The gateway must still answer requests when the grace window ends
+
+const GATEWAY_TOKEN_REFERENCE = "${OPENCLAW_GATEWAY_TOKEN}";
 
 const state: GatewayState = {
   proc: null,
@@ -35,18 +53,56 @@ const state: GatewayState = {
   circuitOpen: false,
   circuitOpenedAt: null,
   lastHealthCheck: null,
-  healthCheckTimer: null,
+  stopHealthCheck: null,
+  heldReason: null,
+  lastExit: null,
+  autoRestarts: 0,
 };
 
+let policy: SupervisorPolicy = loadSupervisorPolicy();
+let runtime: SupervisorRuntime = SYSTEM_RUNTIME;
+
+/**
+ * Replace the supervisor policy (merged over the current one) or its clock, spawner or probe, e.g. to drive a fake
+ * gateway through a crash loop. Crash history and failure counters start over.
+ */
+export function configureSupervisor(
+  overrides: Partial<SupervisorRuntime> & { policy?: Partial<SupervisorPolicy> }
+): void {
+  const { policy: policyOverrides, ...runtimeOverrides } = overrides;
+  policy = { ...policy, ...policyOverrides };
+  runtime = { ...runtime, ...runtimeOverrides };
+  stopHealthMonitor();
+  Object.assign(state, {
+    proc: null,
+    starting: null,
+    crashHistory: [],
+    consecutiveFails: 0,
+    circuitOpen: false,
+    circuitOpenedAt: null,
+    lastHealthCheck: null,
+    heldReason: null,
+    lastExit: null,
+    autoRestarts: 0,
+  });
+}
+
+/** The policy the supervisor is running with. */
+export function getSupervisorPolicy(): SupervisorPolicy {
+  return policy;
+}
+
+// Child env with the stored secrets, so config references (${OPENCLAW_SECRET_...}) resolve.
 function mergeEnv(extra?: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
   return {
     ...getChildEnv(),
+    ...secretEnv(),
     ...(extra ?? {}),
   };
 }
 
 /** Return the current gateway child process. */
-export function getGatewayProc(): ChildProcess | null {
+export function getGatewayProc(): GatewayChild | null {
   return state.proc;
 }
 
@@ -57,26 +113,27 @@ export function clearGatewayProc(): void {
 
 /** Calculate exponential backoff delay with jitter. */
 function calculateBackoff(attempt: number): number {
-  const exponential = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt), MAX_BACKOFF_MS);
+  const exponential = Math.min(policy.backoffBaseMs * Math.pow(2, attempt), policy.backoffMaxMs);
   const jitter = Math.random() * 0.3 * exponential; // Add up to 30% jitter
   return Math.floor(exponential + jitter);
 }
 
 /** Record a crash and check if circuit should open. */
 function recordCrash(): void {
-  const now = Date.now();
+  const now = runtime.clock.now();
   state.crashHistory.push(now);
   
   // Prune old crashes outside the window
-  state.crashHistory = state.crashHistory.filter(t => now - t < CRASH_WINDOW_MS);
+  state.crashHistory = state.crashHistory.filter(t => now - t < policy.crashWindowMs);
   
-  console.error(`[gateway] crash recorded (${state.crashHistory.length} in last ${CRASH_WINDOW_MS / 1000}s)`);
+  const window = policy.crashWindowMs / 1000;
+  console.error(`[gateway] crash recorded (${state.crashHistory.length} in last ${window}s)`);
   
   // Open circuit if too many crashes
-  if (state.crashHistory.length >= MAX_CRASHES_IN_WINDOW) {
+  if (state.crashHistory.length >= policy.maxCrashesInWindow) {
     state.circuitOpen = true;
     state.circuitOpenedAt = now;
-    console.error(`[gateway] CIRCUIT BREAKER OPEN: ${state.crashHistory.length} crashes in ${CRASH_WINDOW_MS / 1000}s. Will retry after ${CIRCUIT_RESET_MS / 1000}s`);
+    console.error(`[gateway] CIRCUIT BREAKER OPEN: ${state.crashHistory.length} crashes in ${window}s. Will retry after ${policy.circuitResetMs / 1000}s`);
   }
 }
 
@@ -86,10 +143,10 @@ function checkCircuitBreaker(): { allowed: boolean; reason?: string } {
     return { allowed: true };
   }
   
-  const now = Date.now();
+  const now = runtime.clock.now();
   const elapsed = now - (state.circuitOpenedAt ?? 0);
   
-  if (elapsed >= CIRCUIT_RESET_MS) {
+  if (elapsed >= policy.circuitResetMs) {
     // Reset circuit breaker (half-open state)
     console.log(`[gateway] circuit breaker reset after ${elapsed / 1000}s cooldown`);
     state.circuitOpen = false;
@@ -99,7 +156,7 @@ function checkCircuitBreaker(): { allowed: boolean; reason?: string } {
     return { allowed: true };
   }
   
-  const remaining = Math.ceil((CIRCUIT_RESET_MS - elapsed) / 1000);
+  const remaining = Math.ceil((policy.circuitResetMs - elapsed) / 1000);
   return {
     allowed: false,
     reason: `Circuit breaker open due to repeated failures. Retry in ${remaining}s`,
@@ -110,63 +167,58 @@ function checkCircuitBreaker(): { allowed: boolean; reason?: string } {
 function startHealthMonitor(): void {
   stopHealthMonitor();
   
-  state.healthCheckTimer = setInterval(async () => {
+  state.stopHealthCheck = runtime.clock.every(policy.healthCheckIntervalMs, async () => {
     if (!state.proc) return;
     
-    try {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
-      
-      const res = await fetch(`${GATEWAY_TARGET}/`, {
-        method: "GET",
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timer);
-      
-      if (res.ok || res.status < 500) {
-        state.lastHealthCheck = Date.now();
-        state.consecutiveFails = 0; // Reset on healthy response
-      }
-    } catch {
+    const res = await runtime.probe("/", policy.healthCheckTimeoutMs);
+    if (res && (res.ok || res.status < 500)) {
+      state.lastHealthCheck = runtime.clock.now();
+      state.consecutiveFails = 0; // Reset on healthy response
+    } else {
       console.warn(`[gateway] health check failed`);
     }
-  }, HEALTH_CHECK_INTERVAL_MS);
+  });
 }
 
 /** Stop health check monitoring. */
 function stopHealthMonitor(): void {
-  if (state.healthCheckTimer) {
-    clearInterval(state.healthCheckTimer);
-    state.healthCheckTimer = null;
-  }
+  state.stopHealthCheck?.();
+  state.stopHealthCheck = null;
 }
 
-/** Get current gateway health status. */
-export function getGatewayHealth(): {
-  running: boolean;
-  circuitOpen: boolean;
-  crashCount: number;
-  consecutiveFails: number;
-  lastHealthCheck: number | null;
-} {
+/** Get current gateway health status, with the policy the supervisor applies. */
+export function getGatewayHealth(): GatewayHealth {
   return {
     running: state.proc !== null,
     circuitOpen: state.circuitOpen,
+    circuitOpenedAt: state.circuitOpenedAt,
     crashCount: state.crashHistory.length,
     consecutiveFails: state.consecutiveFails,
     lastHealthCheck: state.lastHealthCheck,
+    lastExit: state.lastExit,
+    autoRestarts: state.autoRestarts,
+    heldReason: state.heldReason,
+    policy,
   };
 }
 
 export interface RunCmdOptions extends SpawnOptions {
   timeoutMs?: number;
+  // Written to the command's stdin, which is then closed. Secrets go here rather than in argv.
+  input?: string;
 }
 
 /** Run a command and capture stdout/stderr into a single buffer. */
 export function runCmd(cmd: string, args: string[], opts: RunCmdOptions = {}): Promise<CommandResult> {
   return new Promise((resolve) => {
-    const { env: extraEnv, timeoutMs, ...spawnOpts } = opts;
+    // Commands started after their job was cancelled do not run at all.
+    const signal = jobSignal();
+    if (signal?.aborted) {
+      resolve({ code: 130, output: "[cancelled] Job was cancelled\n" });
+      return;
+    }
+
+    const { env: extraEnv, timeoutMs, input, ...spawnOpts } = opts;
     const proc = childProcess.spawn(cmd, args, {
       ...spawnOpts,
       env: mergeEnv(extraEnv),
@@ -188,18 +240,52 @@ export function runCmd(cmd: string, args: string[], opts: RunCmdOptions = {}): P
       }, timeoutMs);
     }
 
-    proc.stdout?.on("data", (d: Buffer) => (out += d.toString("utf8")));
-    proc.stderr?.on("data", (d: Buffer) => (out += d.toString("utf8")));
+    // Output also streams to the job this command runs under, if any.
+    const append = (d: Buffer): void => {
+      const chunk = d.toString("utf8");
+      out += chunk;
+      jobOutput(chunk);
+    };
+    proc.stdout?.on("data", append);
+    proc.stderr?.on("data", append);
+    if (input !== undefined) {
+      // A command that exits without reading its input closes the pipe; that is not an error here.
+      proc.stdin?.on("error", () => {});
+      proc.stdin?.end(input);
+    }
+
+    // On cancel: SIGTERM, then SIGKILL if the command ignores it. Resolve on exit, since
+    // grandchildren may keep the output pipes (and so "close") open.
+    let cancelled = false;
+    const onAbort = (): void => {
+      cancelled = true;
+      out += "\n[cancelled] Command killed because its job was cancelled\n";
+      try {
+        proc.kill("SIGTERM");
+        setTimeout(() => proc.exitCode === null && proc.kill("SIGKILL"), CANCEL_GRACE_MS).unref();
+      } catch {
+        // ignore
+      }
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    proc.on("exit", () => {
+      if (cancelled) {
+        if (timer) clearTimeout(timer);
+        resolve({ code: 130, output: out });
+      }
+    });
 
     proc.on("error", (err: Error) => {
       if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
       out += `\n[spawn error] ${String(err)}\n`;
       resolve({ code: 127, output: out });
     });
 
-    proc.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+    proc.on("close", (code: number | null, exitSignal: NodeJS.Signals | null) => {
       if (timer) clearTimeout(timer);
-      const exitCode = killed ? 124 : (code ?? (signal ? 1 : 0));
+      signal?.removeEventListener("abort", onAbort);
+      const exitCode = killed ? 124 : (code ?? (exitSignal ? 1 : 0));
       resolve({ code: exitCode, output: out });
     });
   });
@@ -207,32 +293,77 @@ export function runCmd(cmd: string, args: string[], opts: RunCmdOptions = {}): P
 
 /** Wait for the gateway to become reachable by polling known endpoints. */
 async function waitForGatewayReady(opts: WaitForGatewayOptions = {}): Promise<boolean> {
-  const timeoutMs = opts.timeoutMs ?? 20_000;
+  const timeoutMs = opts.timeoutMs ?? policy.readyTimeoutMs;
   const requestTimeoutMs = opts.requestTimeoutMs ?? 2_000;
-  const start = Date.now();
+  const start = runtime.clock.now();
   
-  while (Date.now() - start < timeoutMs) {
+  while (runtime.clock.now() - start < timeoutMs) {
     const paths = ["/openclaw", "/clawdbot", "/"];
     
     for (const p of paths) {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), requestTimeoutMs);
-      try {
-        const res = await fetch(`${GATEWAY_TARGET}${p}`, { method: "GET", signal: controller.signal });
-        if (res) return true;
-      } catch {
-        // Try the next path.
-      } finally {
-        clearTimeout(timer);
-      }
+      if (await runtime.probe(p, requestTimeoutMs)) return true;
     }
     
-    await sleep(250);
+    await runtime.clock.sleep(250);
   }
   
   return false;
 }
 
+// Gateways the wrapper asked to exit; their exits are not crashes and are never restarted.
+const stopRequested = new WeakSet<GatewayChild>();
+
+// Ask the current gateway to exit and give it a moment to release the port.
+async function stopCurrentGateway(): Promise<void> {
+  stopHealthMonitor();
+  if (!state.proc) return;
+  stopRequested.add(state.proc);
+  try {
+    state.proc.kill("SIGTERM");
+  } catch {
+    // ignore
+  }
+  await runtime.clock.sleep(STOP_WAIT_MS);
+  state.proc = null;
+}
+
+/**
+ * Account for a gateway exit and apply the restart strategy. Failures (a non-zero code, a crash signal or an exit
+ * within minUptimeMs) count towards the crash limits. Exits the wrapper asked for, and SIGTERM/SIGINT from
+ * elsewhere, are left alone.
+ */
+function handleGatewayExit(child: GatewayChild, exit: GatewayExit): void {
+  if (state.proc !== child) return; // Already replaced, or the exit was reported twice
+  state.proc = null;
+  state.lastExit = exit;
+  stopHealthMonitor();
+  if (stopRequested.has(child) || exit.signal === "SIGTERM" || exit.signal === "SIGINT") return;
+
+  if (exit.failure) {
+    state.consecutiveFails++;
+    recordCrash();
+  } else {
+    // Ran for a while before exiting - reset failure counter
+    state.consecutiveFails = 0;
+  }
+
+  if (policy.restart === "on-demand") {
+    console.log("[gateway] not restarting until the next request (restart policy on-demand)");
+    return;
+  }
+  if (policy.restart === "never" || (policy.restart === "on-failure" && !exit.failure)) {
+    state.heldReason = `Gateway exited (code=${exit.code} signal=${exit.signal}) and the restart policy is ` +
+      `${policy.restart}. Use gateway.start or gateway.restart to start it again.`;
+    console.error(`[gateway] not restarting: restart policy is ${policy.restart}`);
+    return;
+  }
+  state.autoRestarts++;
+  console.log(`[gateway] restarting (restart policy ${policy.restart})`);
+  void ensureGatewayRunning().then((result) => {
+    if (!result.ok) console.error(`[gateway] restart failed: ${result.reason}`);
+  });
+}
+
 /** Start the gateway process if it is not already running. */
 async function startGateway(): Promise<void> {
   if (state.proc) return;
@@ -248,7 +379,7 @@ async function startGateway(): Promise<void> {
   if (state.consecutiveFails > 0) {
     const backoff = calculateBackoff(state.consecutiveFails);
     console.log(`[gateway] applying ${backoff}ms backoff (attempt ${state.consecutiveFails + 1})`);
-    await sleep(backoff);
+    await runtime.clock.sleep(backoff);
   }
 
   ensureDirectories();
@@ -262,54 +393,45 @@ async function startGateway(): Promise<void> {
     String(INTERNAL_GATEWAY_PORT),
     "--auth",
     "token",
-    "--token",
-    OPENCLAW_GATEWAY_TOKEN,
   ];
 
-  const startTime = Date.now();
+  const startTime = runtime.clock.now();
 
-  state.proc = childProcess.spawn(OPENCLAW_NODE, clawArgs(args), {
+  // The token reaches the gateway as OPENCLAW_GATEWAY_TOKEN rather than on the command line, where `ps` shows it.
+  const child = runtime.spawn(OPENCLAW_NODE, clawArgs(args), {
     stdio: "inherit",
-    env: getChildEnv(),
+    env: mergeEnv(),
   });
+  state.proc = child;
+  state.heldReason = null;
 
-  state.proc.on("error", (err: Error) => {
+  child.on("error", (err: Error) => {
     console.error(`[gateway] spawn error: ${String(err)}`);
-    stopHealthMonitor();
-    state.consecutiveFails++;
-    recordCrash();
-    state.proc = null;
+    const runtimeMs = runtime.clock.now() - startTime;
+    handleGatewayExit(child, { at: runtime.clock.now(), code: null, signal: null, runtimeMs, failure: true });
   });
 
-  state.proc.on("exit", (code: number | null, signal: NodeJS.Signals | null) => {
-    const runtime = Date.now() - startTime;
-    console.error(`[gateway] exited code=${code} signal=${signal} after ${runtime}ms`);
-    stopHealthMonitor();
-    
-    // Only count as crash if it exited quickly with an error
-    // (not a clean shutdown from SIGTERM)
-    if (signal !== "SIGTERM" && signal !== "SIGINT") {
-      if (code !== 0 || runtime < 10_000) {
-        // Crashed or exited too quickly (likely startup failure)
-        state.consecutiveFails++;
-        recordCrash();
-      } else {
-        // Ran for a while before exiting - reset failure counter
-        state.consecutiveFails = 0;
-      }
-    }
-    
-    state.proc = null;
+  child.on("exit", (code: number | null, signal: NodeJS.Signals | null) => {
+    const runtimeMs = runtime.clock.now() - startTime;
+    console.error(`[gateway] exited code=${code} signal=${signal} after ${runtimeMs}ms`);
+    // Exiting quickly counts as a failed start even with code 0.
+    const failure = code !== 0 || signal !== null || runtimeMs < policy.minUptimeMs;
+    handleGatewayExit(child, { at: runtime.clock.now(), code, signal, runtimeMs, failure });
   });
 
   // Start health monitoring after spawn
   startHealthMonitor();
 }
 
-/** Ensure the gateway is running, starting it when needed. */
-export async function ensureGatewayRunning(): Promise<GatewayResult> {
+/**
+ * Ensure the gateway is running, starting it when needed. Only a `manual` start (gateway.start, running setup)
+ * overrides a restart policy that left the gateway down.
+ */
+export async function ensureGatewayRunning(opts: { manual?: boolean } = {}): Promise<GatewayResult> {
   if (!isConfigured()) return { ok: false, reason: "not configured" };
   if (state.proc) return { ok: true };
+  if (opts.manual) state.heldReason = null;
+  if (state.heldReason) return { ok: false, reason: state.heldReason };
   
   // Check circuit breaker first
   const circuit = checkCircuitBreaker();
@@ -318,7 +440,7 @@ export async function ensureGatewayRunning(): Promise<GatewayResult> {
   }
   
   // Check consecutive failures
-  if (state.consecutiveFails >= MAX_CONSECUTIVE_FAILS) {
+  if (state.consecutiveFails >= policy.maxConsecutiveFails) {
     const msg = `Too many consecutive startup failures (${state.consecutiveFails}). Use gateway.restart to force retry.`;
     console.error(`[gateway] ${msg}`);
     return { ok: false, reason: msg };
@@ -326,8 +448,10 @@ export async function ensureGatewayRunning(): Promise<GatewayResult> {
   
   if (!state.starting) {
     state.starting = (async () => {
+      jobPhase("starting gateway");
       await startGateway();
-      const ready = await waitForGatewayReady({ timeoutMs: 20_000 });
+      jobPhase("waiting for gateway");
+      const ready = await waitForGatewayReady();
       if (!ready) {
         state.consecutiveFails++;
         recordCrash();
@@ -335,7 +459,7 @@ export async function ensureGatewayRunning(): Promise<GatewayResult> {
       }
       // Success - reset failure counter
       state.consecutiveFails = 0;
-      state.lastHealthCheck = Date.now();
+      state.lastHealthCheck = runtime.clock.now();
       console.log(`[gateway] started successfully`);
     })().finally(() => {
       state.starting = null;
@@ -357,34 +481,19 @@ export async function restartGateway(): Promise<GatewayResult> {
   state.circuitOpenedAt = null;
   state.consecutiveFails = 0;
   state.crashHistory = [];
+  state.heldReason = null;
   console.log(`[gateway] restart requested - resetting circuit breaker`);
   
   if (state.proc) {
-    stopHealthMonitor();
-    try {
-      state.proc.kill("SIGTERM");
-    } catch {
-      // ignore
-    }
-    // Give it a moment to exit and release the port.
-    await sleep(750);
-    state.proc = null;
+    jobPhase("stopping gateway");
+    await stopCurrentGateway();
   }
   return ensureGatewayRunning();
 }
 
 /** Stop the gateway if running. */
 export async function stopGateway(): Promise<void> {
-  stopHealthMonitor();
-  if (state.proc) {
-    try {
-      state.proc.kill("SIGTERM");
-    } catch {
-      // ignore
-    }
-    await sleep(750);
-    state.proc = null;
-  }
+  await stopCurrentGateway();
 }
 
 /** Best-effort shutdown used during wrapper process exit. */
@@ -392,6 +501,7 @@ export function shutdownGateway(): void {
   stopHealthMonitor();
   try {
     if (state.proc) {
+      stopRequested.add(state.proc);
       state.proc.kill("SIGTERM");
     }
   } catch {
@@ -405,6 +515,7 @@ export function resetCircuitBreaker(): void {
   state.circuitOpenedAt = null;
   state.consecutiveFails = 0;
   state.crashHistory = [];
+  state.heldReason = null;
   console.log(`[gateway] circuit breaker manually reset`);
 }
 
@@ -415,17 +526,18 @@ export function readConfigFile(configFilePath: string): { exists: boolean; conte
   return { exists, content };
 }
 
-/** Write a config file and save a timestamped backup when overwriting. */
-export function writeConfigFile(configFilePath: string, content: string): void {
+/** Write the config file and record the change in config history. */
+export function writeConfigFile(
+  configFilePath: string,
+  content: string,
+  revision: { author: string; message: string }
+): ConfigRevisionSummary | null {
   fs.mkdirSync(path.dirname(configFilePath), { recursive: true });
-  
-  // Preserve the last config in case the new write is invalid.
-  if (fs.existsSync(configFilePath)) {
-    const backupPath = `${configFilePath}.bak-${new Date().toISOString().replace(/[:.]/g, "-")}`;
-    fs.copyFileSync(configFilePath, backupPath);
-  }
-  
+
+  // Keep whatever is there now (even if it was edited by hand) so the write can be undone.
+  captureExternalConfigChange();
   fs.writeFileSync(configFilePath, content, { encoding: "utf8", mode: 0o600 });
+  return recordConfigRevision(revision.author, revision.message);
 }
 
 /** Delete the config file during reset. */
@@ -433,14 +545,131 @@ export function deleteConfigFile(configFilePath: string): void {
   fs.rmSync(configFilePath, { force: true });
 }
 
+// Watch the gateway after a restart on a tried config. Returns why it is unhealthy, or null when it stayed up.
+async function watchGateway(graceMs: number): Promise<string | null> {
+  const deadline = runtime.clock.now() + graceMs;
+  while (runtime.clock.now() < deadline) {
+    // restartGateway cleared the crash history, so any crash since then is the new config's.
+    if (state.crashHistory.length > 0 || state.consecutiveFails > 0) {
+      return `Gateway crashed ${state.crashHistory.length || 1} time(s) within ${graceMs / 1000}s of the change`;
+    }
+    if (!state.proc && !state.starting) return `Gateway stopped within ${graceMs / 1000}s of the change`;
+    await runtime.clock.sleep(Math.min(TRY_POLL_MS, deadline - runtime.clock.now()));
+  }
+  const ready = await waitForGatewayReady({ timeoutMs: TRY_READY_TIMEOUT_MS });
+  return ready ? null : "Gateway stopped answering requests";
+}
+
+/**
+ * Apply a config change, restart the gateway on it and keep it only if the gateway comes up and stays healthy
+ * for the grace window. Otherwise the previous config is written back and the gateway restarted on it.
+ */
+export async function tryConfigChange(
+  apply: () => Promise<{ ok: boolean; output: string; revision: ConfigRevisionSummary | null }>,
+  opts: { label: string; graceMs?: number }
+): Promise<ConfigTrialResult> {
+  const graceMs = opts.graceMs ?? CONFIG_TRY_GRACE_MS;
+  const p = configPath();
+  let output = "";
+  const log = (line: string): void => {
+    output += `${line}\n`;
+    jobOutput(`${line}\n`);
+  };
+
+  captureExternalConfigChange();
+  const previous = readConfigFile(p);
+
+  jobPhase("applying config");
+  const applied = await apply();
+  if (applied.output.trim()) log(applied.output.trimEnd());
+  if (!applied.ok) {
+    const error = "The config change failed; nothing was changed";
+    return { ok: false, error, reverted: false, output, revision: null };
+  }
+
+  log(`Restarting the gateway; it has to stay healthy for ${graceMs / 1000}s.`);
+  const restart = await restartGateway();
+  let reason = restart.ok ? null : `Gateway did not start: ${restart.reason}`;
+  if (!reason) {
+    jobPhase("watching gateway");
+    reason = await watchGateway(graceMs);
+  }
+  if (!reason) {
+    log("Gateway is healthy; keeping the change.");
+    return { ok: true, reverted: false, output, revision: applied.revision };
+  }
+
+  log(`${reason}. Restoring the previous config.`);
+  jobPhase("reverting config");
+  const message = `Reverted "${opts.label}": ${reason}`;
+  let revision: ConfigRevisionSummary | null;
+  if (previous.exists) {
+    revision = writeConfigFile(p, previous.content, { author: "wrapper", message });
+  } else {
+    captureExternalConfigChange();
+    deleteConfigFile(p);
+    revision = recordConfigRevision("wrapper", message);
+  }
+  if (isConfigured()) {
+    const again = await restartGateway();
+    log(
+      again.ok
+        ? "Gateway restarted on the previous config."
+        : `Gateway did not restart on the previous config either: ${again.reason}`
+    );
+  }
+  return { ok: false, error: reason, reverted: true, output, revision };
+}
+
+/** Config keys kept in sync with OPENCLAW_GATEWAY_TOKEN. They reference the env var, so the token stays out of
+ *  the config file and off command lines. */
+export function gatewayTokenSettings(): Array<{ key: string; value: string }> {
+  return [
+    { key: "gateway.auth.mode", value: "token" },
+    { key: "gateway.auth.token", value: GATEWAY_TOKEN_REFERENCE },
+    { key: "gateway.remote.token", value: GATEWAY_TOKEN_REFERENCE },
+  ];
+}
+
 /** Re-sync gateway tokens in the config file with the current env var.
  *  Prevents token mismatch errors after Railway variable updates. */
-export async function syncGatewayTokens(): Promise<void> {
-  if (!isConfigured()) return;
+export async function syncGatewayTokens(): Promise<CommandResult> {
+  if (!isConfigured()) return { code: 0, output: "" };
   console.log("[gateway] syncing gateway tokens with current env");
-  await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "gateway.auth.mode", "token"]));
-  await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "gateway.auth.token", OPENCLAW_GATEWAY_TOKEN]));
-  await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "gateway.remote.token", OPENCLAW_GATEWAY_TOKEN]));
+  const results: CommandResult[] = [];
+  for (const { key, value } of gatewayTokenSettings()) {
+    results.push(await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", key, value])));
+  }
+  return {
+    code: results.find((r) => r.code !== 0)?.code ?? 0,
+    output: results.map((r) => r.output).join(""),
+  };
+}
+
+/**
+ * Switch to a freshly generated gateway token: persist it, re-sync the config keys and restart the gateway so it
+ * picks the token up. If the gateway does not come back, the previous token is put back and the gateway restarted
+ * on it.
+ */
+export async function rotateGatewayToken(): Promise<GatewayTokenRotation> {
+  const previous = OPENCLAW_GATEWAY_TOKEN;
+  const token = crypto.randomBytes(32).toString("hex");
+  setGatewayToken(token);
+  if (!isConfigured()) return { ok: true, token, gateway: null };
+
+  jobPhase("updating config");
+  const sync = await syncGatewayTokens();
+  const gateway = sync.code === 0 ? await restartGateway() : null;
+  if (gateway?.ok) return { ok: true, token, gateway };
+
+  const error = gateway
+    ? `Gateway did not start with the new token: ${gateway.reason ?? "unknown error"}`
+    : `Could not update the gateway token in the config: ${sync.output.trim() || `exit code ${sync.code}`}`;
+  console.error(`[gateway] ${error}; keeping the previous token`);
+  setGatewayToken(previous);
+  await syncGatewayTokens();
+  await restartGateway();
+  return { ok: false, error, gateway: null };
 }
 
 /** Configure gateway settings for Railway proxy deployment and clear stale pairing state.
@@ -482,7 +711,13 @@ export async function runBootstrapHook(): Promise<void> {
   const script = path.join(WORKSPACE_DIR, "bootstrap.sh");
   if (!fs.existsSync(script)) return;
   console.log("[wrapper] running bootstrap.sh...");
-  const result = await runCmd("bash", [script], { timeoutMs: 600_000 });
+  // Run as a job so the setup UI can follow the output.
+  const { done } = startJob("bootstrap", async () => {
+    jobPhase("bootstrap.sh");
+    const r = await runCmd("bash", [script], { timeoutMs: 600_000 });
+    return { code: r.code, output: redactSecrets(r.output) };
+  }, { succeeded: (r) => r.code === 0 });
+  const result = await done;
   console.log(`[wrapper] bootstrap.sh exited code=${result.code}`);
   if (result.output) {
     console.log(`[wrapper] bootstrap.sh output:\n${result.output}`);
@@ -0,0 +1,209 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { ConfigRevision, ConfigRevisionSummary } from "./types.js";
+import { CONFIG_HISTORY_MAX_AGE_DAYS, CONFIG_HISTORY_MAX_REVISIONS, configPath, STATE_DIR } from "./config.js";
+
+const HISTORY_DIR_NAME = "config-history";
+export const HISTORY_DIR = path.join(STATE_DIR, HISTORY_DIR_NAME);
+
+const REVISION_FILE = /^(\d+)\.json$/;
+const DIFF_CONTEXT = 3;
+const MAX_DIFF_CELLS = 4_000_000;        // Larger changed regions are shown as one replaced block
+
+type DiffOp = [" " | "-" | "+", string];
+
+function revisionFile(id: number): string {
+  return path.join(HISTORY_DIR, `${id}.json`);
+}
+
+function summarize(revision: ConfigRevision): ConfigRevisionSummary {
+  const { content: _content, ...summary } = revision;
+  return summary;
+}
+
+function revisionIds(): number[] {
+  try {
+    return fs
+      .readdirSync(HISTORY_DIR)
+      .map((name) => name.match(REVISION_FILE))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+function readRevision(id: number): ConfigRevision | null {
+  try {
+    return JSON.parse(fs.readFileSync(revisionFile(id), "utf8")) as ConfigRevision;
+  } catch {
+    return null;
+  }
+}
+
+function readCurrentConfig(): string | null {
+  try {
+    return fs.readFileSync(configPath(), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function hashContent(content: string | null): string | null {
+  return content === null ? null : crypto.createHash("sha256").update(content).digest("hex");
+}
+
+// Drop revisions past the count or age limits. The newest revision is always kept.
+function prune(ids: number[]): void {
+  const cutoff = CONFIG_HISTORY_MAX_AGE_DAYS > 0 ? Date.now() - CONFIG_HISTORY_MAX_AGE_DAYS * 24 * 60 * 60_000 : 0;
+  const keepFrom = ids.length - CONFIG_HISTORY_MAX_REVISIONS;
+  ids.slice(0, -1).forEach((id, index) => {
+    const expired = cutoff > 0 && (readRevision(id)?.createdAt ?? 0) < cutoff;
+    if (index < keepFrom || expired) fs.rmSync(revisionFile(id), { force: true });
+  });
+}
+
+/** Save the current config file as a new revision, unless it matches the latest one. */
+export function recordConfigRevision(author: string, message: string): ConfigRevisionSummary | null {
+  const content = readCurrentConfig();
+  const sha256 = hashContent(content);
+  const ids = revisionIds();
+  const latest = ids.length ? readRevision(ids[ids.length - 1]) : null;
+  if (latest ? latest.sha256 === sha256 : content === null) return null;
+
+  const revision: ConfigRevision = {
+    id: (ids[ids.length - 1] ?? 0) + 1,
+    createdAt: Date.now(),
+    author,
+    message: message.trim().slice(0, 200),
+    size: content === null ? 0 : Buffer.byteLength(content),
+    sha256,
+    content,
+  };
+  try {
+    fs.mkdirSync(HISTORY_DIR, { recursive: true });
+    const tmp = `${revisionFile(revision.id)}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(revision), { encoding: "utf8", mode: 0o600 });
+    fs.renameSync(tmp, revisionFile(revision.id));
+    prune([...ids, revision.id]);
+  } catch (err) {
+    console.error(`[config] failed to record revision: ${String(err)}`);
+    return null;
+  }
+  return summarize(revision);
+}
+
+/** Record edits made outside /setup (the gateway itself, `openclaw config` in a shell) before they are lost. */
+export function captureExternalConfigChange(): ConfigRevisionSummary | null {
+  return recordConfigRevision("external", "Changed outside /setup");
+}
+
+/** All kept revisions, newest first. */
+export function listConfigRevisions(): ConfigRevisionSummary[] {
+  return revisionIds()
+    .reverse()
+    .map(readRevision)
+    .filter((revision): revision is ConfigRevision => revision !== null)
+    .map(summarize);
+}
+
+/** One revision including its content (null content means the config file had been deleted). */
+export function getConfigRevision(id: number): ConfigRevision | null {
+  return Number.isSafeInteger(id) && id > 0 ? readRevision(id) : null;
+}
+
+// Line-level longest common subsequence over the changed middle of the two texts.
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line): DiffOp => [" ", line]);
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ["-", line]));
+    ops.push(...midB.map((line): DiffOp => ["+", line]));
+  } else {
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push([" ", midA[i++]]);
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+        ops.push(["-", midA[i++]]);
+      } else {
+        ops.push(["+", midB[j++]]);
+      }
+    }
+  }
+  ops.push(...a.slice(endA).map((line): DiffOp => [" ", line]));
+  return ops;
+}
+
+function splitLines(content: string | null): string[] {
+  if (!content) return [];
+  return content.replace(/\n$/, "").split("\n");
+}
+
+/** Unified diff between two config texts, with @@ hunk headers and three lines of context. */
+export function diffConfigText(
+  before: string | null,
+  after: string | null,
+  fromLabel: string,
+  toLabel: string
+): string {
+  const ops = diffOps(splitLines(before), splitLines(after));
+  const changed = ops.map(([op]) => op !== " ");
+  if (!changed.includes(true)) return "";
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+  while (index < ops.length) {
+    const first = changed.indexOf(true, index);
+    if (first === -1) break;
+    // Extend the hunk while the next change is within twice the context.
+    let last = first;
+    for (let k = first; k < ops.length && k <= last + 2 * DIFF_CONTEXT; k++) {
+      if (changed[k]) last = k;
+    }
+    const from = Math.max(index, first - DIFF_CONTEXT);
+    const to = Math.min(ops.length, last + DIFF_CONTEXT + 1);
+
+    // Line numbers are 1-based; count the lines each side had before the hunk.
+    let oldLine = 1;
+    let newLine = 1;
+    for (const [op] of ops.slice(0, from)) {
+      if (op !== "+") oldLine++;
+      if (op !== "-") newLine++;
+    }
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter(([op]) => op !== "+").length;
+    const newCount = hunk.filter(([op]) => op !== "-").length;
+    // An empty side is numbered from the line before the hunk, as in `diff -u`.
+    const oldStart = oldCount ? oldLine : oldLine - 1;
+    const newStart = newCount ? newLine : newLine - 1;
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map(([op, line]) => `${op}${line}`));
+    index = to;
+  }
+  return `${lines.join("\n")}\n`;
+}
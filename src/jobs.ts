@@ -0,0 +1,296 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { JobEvent, JobRecord, JobStatus, JobSummary } from "./types.js";
+import { STATE_DIR } from "./config.js";
+import { redactSecrets } from "./redact.js";
+
+export const JOBS_DIR = path.join(STATE_DIR, "jobs");
+
+const MAX_FINISHED_JOBS = 20;             // Finished jobs kept (in memory and on disk)
+const MAX_EVENTS_PER_JOB = 5_000;         // Oldest events are dropped beyond this
+const MAX_OUTPUT_CHARS = 256 * 1024;      // Output tail kept in the job record
+
+type JobListener = (event: JobEvent) => void;
+
+interface JobEntry {
+  record: JobRecord;
+  events: JobEvent[];
+  seq: number;
+  listeners: Set<JobListener>;
+  secrets: string[];
+  partial: string;                        // Output after the last newline, held back until complete
+  abort: AbortController;
+  start: () => void;                      // Runs the job once it reaches the front of the queue
+  rejectDone: (reason: unknown) => void;  // Settles the caller's promise when a queued job is cancelled
+}
+
+export interface StartJobOptions<T> {
+  secrets?: string[];                     // Literal values redacted from streamed output
+  succeeded?: (result: T) => boolean;     // Defaults to "did not throw"
+  cancellable?: boolean;                  // Defaults to true; set false for work that must not stop halfway
+  artifact?: string;                      // File name in JOBS_DIR the job writes for download
+}
+
+const jobs = new Map<string, JobEntry>();
+const queue: JobEntry[] = [];
+let runningJob: JobEntry | null = null;
+
+// The job whose output runCmd should stream, tracked across awaits.
+const currentJob = new AsyncLocalStorage<JobEntry>();
+
+function summarize(record: JobRecord): JobSummary {
+  const { id, kind, status, phase, cancellable, createdAt, startedAt, finishedAt } = record;
+  return { id, kind, status, phase, cancellable, createdAt, startedAt, finishedAt };
+}
+
+/** Write the job record to STATE_DIR/jobs so it survives a restart. */
+function persist(entry: JobEntry): void {
+  try {
+    fs.mkdirSync(JOBS_DIR, { recursive: true });
+    fs.writeFileSync(path.join(JOBS_DIR, `${entry.record.id}.json`), JSON.stringify(entry.record, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  } catch (err) {
+    console.warn(`[jobs] failed to persist job ${entry.record.id}: ${String(err)}`);
+  }
+}
+
+function emit(entry: JobEntry, event: Omit<JobEvent, "seq" | "time">): void {
+  const full: JobEvent = { ...event, seq: entry.seq++, time: Date.now() };
+  entry.events.push(full);
+  if (entry.events.length > MAX_EVENTS_PER_JOB) entry.events.shift();
+  for (const listener of entry.listeners) listener(full);
+}
+
+// Redact and emit buffered output. Output is sent a line at a time so a secret is never split across events.
+function flushOutput(entry: JobEntry, all: boolean): void {
+  const cut = all ? entry.partial.length : entry.partial.lastIndexOf("\n") + 1;
+  if (cut <= 0) return;
+  const text = redactSecrets(entry.partial.slice(0, cut), entry.secrets);
+  entry.partial = entry.partial.slice(cut);
+  entry.record.output = (entry.record.output + text).slice(-MAX_OUTPUT_CHARS);
+  emit(entry, { type: "output", text });
+}
+
+function finish(entry: JobEntry, status: JobStatus, result: unknown): void {
+  flushOutput(entry, true);
+  entry.record.status = status;
+  entry.record.finishedAt = Date.now();
+  entry.record.result = result;
+  persist(entry);
+  emit(entry, { type: "done", status, result });
+  entry.listeners.clear();
+  pruneJobs();
+}
+
+/** Drop the oldest finished jobs (and their files) beyond the retention limit. */
+function pruneJobs(): void {
+  const finished = [...jobs.values()]
+    .filter((entry) => entry.record.finishedAt !== null)
+    .sort((a, b) => a.record.createdAt - b.record.createdAt);
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(entry.record.id);
+    for (const file of [`${entry.record.id}.json`, entry.record.artifact]) {
+      if (file) fs.rmSync(path.join(JOBS_DIR, file), { force: true });
+    }
+  }
+}
+
+/** Start the next queued job when nothing is running. */
+function runNext(): void {
+  if (runningJob) return;
+  const next = queue.shift();
+  if (!next) return;
+  runningJob = next;
+  next.start();
+}
+
+/** Queue an operation as a job. Jobs run one at a time; runCmd output inside `run` streams to subscribers. */
+export function startJob<T>(
+  kind: string,
+  run: () => Promise<T>,
+  opts: StartJobOptions<T> = {}
+): { job: JobSummary; done: Promise<T> } {
+  const id = crypto.randomUUID();
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const done = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  const entry: JobEntry = {
+    record: {
+      id,
+      kind,
+      status: "queued",
+      phase: null,
+      cancellable: opts.cancellable ?? true,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      output: "",
+      artifact: opts.artifact,
+    },
+    events: [],
+    seq: 0,
+    listeners: new Set(),
+    secrets: opts.secrets ?? [],
+    partial: "",
+    abort: new AbortController(),
+    start: () => {
+      entry.record.status = "running";
+      entry.record.startedAt = Date.now();
+      persist(entry);
+      currentJob
+        .run(entry, run)
+        .then(
+          (result) => {
+            const status = entry.abort.signal.aborted
+              ? "cancelled"
+              : opts.succeeded && !opts.succeeded(result) ? "failed" : "succeeded";
+            finish(entry, status, result);
+            resolve(result);
+          },
+          (err: unknown) => {
+            finish(entry, entry.abort.signal.aborted ? "cancelled" : "failed", { ok: false, error: String(err) });
+            reject(err);
+          }
+        )
+        .finally(() => {
+          runningJob = null;
+          runNext();
+        });
+    },
+    rejectDone: reject,
+  };
+
+  jobs.set(id, entry);
+  queue.push(entry);
+  persist(entry);
+  runNext();
+
+  return { job: summarize(entry.record), done };
+}
+
+/** Mark the start of a named phase in the current job (no-op outside a job). */
+export function jobPhase(name: string): void {
+  const entry = currentJob.getStore();
+  if (!entry || entry.record.status !== "running") return;
+  flushOutput(entry, true);
+  entry.record.phase = name;
+  emit(entry, { type: "phase", text: name });
+}
+
+/** Stream command output to the current job (no-op outside a job). */
+export function jobOutput(chunk: string): void {
+  const entry = currentJob.getStore();
+  if (!entry || entry.record.status !== "running") return;
+  entry.partial += chunk;
+  flushOutput(entry, false);
+}
+
+/** Abort signal of the current job, so commands can stop when it is cancelled. */
+export function jobSignal(): AbortSignal | undefined {
+  return currentJob.getStore()?.abort.signal;
+}
+
+/** Return true when the current job has been cancelled. */
+export function jobCancelled(): boolean {
+  return jobSignal()?.aborted ?? false;
+}
+
+/** Cancel a queued or running job. Running jobs stop at their next command. */
+export function cancelJob(id: string): { ok: boolean; error?: string; job?: JobSummary } {
+  const entry = jobs.get(id);
+  if (!entry) return { ok: false, error: "Job not found" };
+  if (entry.record.finishedAt !== null) return { ok: false, error: `Job already ${entry.record.status}` };
+  if (!entry.record.cancellable) return { ok: false, error: `${entry.record.kind} jobs cannot be cancelled` };
+
+  entry.abort.abort();
+  const queued = queue.indexOf(entry);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+    finish(entry, "cancelled", { ok: false, error: "Cancelled before it started" });
+    entry.rejectDone(new Error("Job cancelled"));
+  }
+  return { ok: true, job: summarize(entry.record) };
+}
+
+/** Look up a job record by ID. */
+export function getJob(id: string): JobRecord | undefined {
+  const entry = jobs.get(id);
+  return entry ? { ...entry.record } : undefined;
+}
+
+/** All known jobs, newest first. */
+export function listJobs(): JobSummary[] {
+  return [...jobs.values()]
+    .map((entry) => summarize(entry.record))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Jobs that are queued or still running. */
+export function activeJobs(): JobSummary[] {
+  return listJobs().filter((job) => job.finishedAt === null);
+}
+
+/** Replay events after `afterSeq`, then deliver new ones until the job finishes. Returns an unsubscribe function. */
+export function subscribeJob(id: string, afterSeq: number, listener: JobListener): () => void {
+  const entry = jobs.get(id);
+  if (!entry) return () => {};
+  for (const event of entry.events) {
+    if (event.seq > afterSeq) listener(event);
+  }
+  if (entry.record.finishedAt !== null) return () => {};
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+/** Load job records from a previous run. Jobs that were still queued or running are marked failed. */
+export function loadJobs(): void {
+  let files: string[];
+  try {
+    files = fs.readdirSync(JOBS_DIR).filter((f) => f.endsWith(".json"));
+  } catch {
+    return; // No jobs yet.
+  }
+
+  for (const file of files) {
+    let record: JobRecord;
+    try {
+      record = JSON.parse(fs.readFileSync(path.join(JOBS_DIR, file), "utf8")) as JobRecord;
+    } catch {
+      console.warn(`[jobs] skipping unreadable job record ${file}`);
+      continue;
+    }
+    if (!record.id || jobs.has(record.id)) continue;
+
+    const entry: JobEntry = {
+      record,
+      events: [],
+      seq: 0,
+      listeners: new Set(),
+      secrets: [],
+      partial: "",
+      abort: new AbortController(),
+      start: () => {},
+      rejectDone: () => {},
+    };
+    if (record.finishedAt === null) {
+      record.status = "failed";
+      record.finishedAt = Date.now();
+      record.result = { ok: false, error: "Interrupted by a wrapper restart" };
+      persist(entry);
+    }
+    // Rebuild a minimal event log so reattached clients still get the output and result.
+    if (record.output) emit(entry, { type: "output", text: record.output });
+    emit(entry, { type: "done", status: record.status, result: record.result });
+    jobs.set(record.id, entry);
+  }
+  pruneJobs();
+}
@@ -0,0 +1,183 @@
+import type { Json5Result, SourcePosition, StringSpan } from "./types.js";
+
+// JSON5 reader for the OpenClaw config file. Besides the value it reports where each key was found, so
+// validation errors can point at a line and column, and where each string value is, so secrets can be masked
+// and put back without reformatting the file. Paths are dotted ("channels.telegram.botToken"),
+// with array indexes as segments ("gateway.trustedProxies.0").
+const IDENTIFIER_START = /[A-Za-z_$À-￿]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$À-￿]/;
+const SIMPLE_ESCAPES: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v", 0: "\0" };
+const NUMBER = /^[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/;
+
+// Thrown inside the reader and turned into an { ok: false } result by parseJson5.
+interface ParseFailure {
+  message: string;
+  at: number;
+}
+
+/** Line and column (both 1-based) of an offset into `text`. */
+export function sourcePosition(text: string, offset: number): SourcePosition {
+  const before = text.slice(0, offset);
+  return { line: before.split("\n").length, column: offset - (before.lastIndexOf("\n") + 1) + 1 };
+}
+
+/** Parse JSON5 text. Failures carry the line and column of the first problem. */
+export function parseJson5(text: string): Json5Result {
+  let index = 0;
+  const positions = new Map<string, SourcePosition>();
+  const strings = new Map<string, StringSpan>();
+
+  const fail = (message: string, at = index): never => {
+    throw { message, at } satisfies ParseFailure;
+  };
+  const describe = (): string => (index < text.length ? `"${text[index]}"` : "end of input");
+
+  function skipBlank(): void {
+    while (index < text.length) {
+      if (/\s|﻿/.test(text[index])) {
+        index++;
+      } else if (text.startsWith("//", index)) {
+        const end = text.indexOf("\n", index);
+        index = end === -1 ? text.length : end;
+      } else if (text.startsWith("/*", index)) {
+        const end = text.indexOf("*/", index + 2);
+        if (end === -1) fail("Unterminated /* comment");
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function string(): string {
+    const quote = text[index];
+    const start = index++;
+    let result = "";
+    while (index < text.length) {
+      const ch = text[index++];
+      if (ch === quote) return result;
+      if (ch === "\n") break;
+      if (ch !== "\\") {
+        result += ch;
+        continue;
+      }
+      const esc = text[index++];
+      if (esc === "\n") continue;                         // Line continuation
+      if (esc === "\r") {
+        if (text[index] === "\n") index++;
+        continue;
+      }
+      if (esc in SIMPLE_ESCAPES) {
+        result += SIMPLE_ESCAPES[esc];
+      } else if (esc === "x" || esc === "u") {
+        const digits = text.slice(index, index + (esc === "x" ? 2 : 4));
+        if (!/^[0-9a-fA-F]+$/.test(digits) || digits.length !== (esc === "x" ? 2 : 4)) {
+          fail(`Invalid \\${esc} escape`, index - 2);
+        }
+        result += String.fromCharCode(parseInt(digits, 16));
+        index += digits.length;
+      } else if (esc !== undefined) {
+        result += esc;
+      }
+    }
+    return fail("Unterminated string", start);
+  }
+
+  function key(): string {
+    const ch = text[index];
+    if (ch === '"' || ch === "'") return string();
+    if (!ch || !IDENTIFIER_START.test(ch)) fail(`Expected a key but found ${describe()}`);
+    const start = index;
+    while (index < text.length && IDENTIFIER_PART.test(text[index])) index++;
+    return text.slice(start, index);
+  }
+
+  function object(path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    index++;
+    for (;;) {
+      skipBlank();
+      if (text[index] === "}") {
+        index++;
+        return result;
+      }
+      const keyAt = index;
+      const name = key();
+      if (Object.prototype.hasOwnProperty.call(result, name)) fail(`Duplicate key "${name}"`, keyAt);
+      const keyPath = path ? `${path}.${name}` : name;
+      positions.set(keyPath, sourcePosition(text, keyAt));
+      skipBlank();
+      if (text[index] !== ":") fail(`Expected ":" after "${name}" but found ${describe()}`);
+      index++;
+      skipBlank();
+      result[name] = value(keyPath);
+      skipBlank();
+      if (text[index] === ",") {
+        index++;
+      } else if (text[index] !== "}") {
+        fail(`Expected "," or "}" but found ${describe()}`);
+      }
+    }
+  }
+
+  function array(path: string): unknown[] {
+    const result: unknown[] = [];
+    index++;
+    for (;;) {
+      skipBlank();
+      if (text[index] === "]") {
+        index++;
+        return result;
+      }
+      const itemPath = `${path}.${result.length}`;
+      positions.set(itemPath, sourcePosition(text, index));
+      result.push(value(itemPath));
+      skipBlank();
+      if (text[index] === ",") {
+        index++;
+      } else if (text[index] !== "]") {
+        fail(`Expected "," or "]" but found ${describe()}`);
+      }
+    }
+  }
+
+  function value(path: string): unknown {
+    const ch = text[index];
+    if (ch === "{") return object(path);
+    if (ch === "[") return array(path);
+    if (ch === '"' || ch === "'") {
+      const start = index;
+      const result = string();
+      strings.set(path, { start, end: index, value: result });
+      return result;
+    }
+    for (const [word, literal] of [["true", true], ["false", false], ["null", null]] as const) {
+      if (text.startsWith(word, index) && !IDENTIFIER_PART.test(text[index + word.length] ?? "")) {
+        index += word.length;
+        return literal;
+      }
+    }
+    const number = text.slice(index, index + 400).match(NUMBER);
+    if (number && !IDENTIFIER_PART.test(text[index + number[0].length] ?? "")) {
+      index += number[0].length;
+      const sign = number[0].startsWith("-") ? -1 : 1;
+      const unsigned = number[0].replace(/^[+-]/, "");
+      return sign * (/^0[xX]/.test(unsigned) ? parseInt(unsigned, 16) : Number(unsigned));
+    }
+    return fail(`Unexpected ${describe()}; expected a value`);
+  }
+
+  try {
+    skipBlank();
+    if (index >= text.length) fail("Config is empty");
+    const result = value("");
+    skipBlank();
+    if (index < text.length) fail(`Unexpected ${describe()} after the end of the config`);
+    return { ok: true, value: result, positions, strings };
+  } catch (err) {
+    if (err instanceof Error) throw err;
+    const failure = err as ParseFailure;
+    const { line, column } = sourcePosition(text, failure.at);
+    return { ok: false, error: `${failure.message} at line ${line}, column ${column}`, line, column };
+  }
+}
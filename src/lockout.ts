@@ -0,0 +1,101 @@
+import type { AuthFailureStats } from "./types.js";
+
+// Failed password attempts are tracked per client IP and across all clients. Reaching a threshold locks
+// password sign-in for a while; each further lockout doubles the wait. Session cookies keep working.
+const IP_THRESHOLD = 5;
+const GLOBAL_THRESHOLD = 50;
+const BASE_LOCKOUT_MS = 30_000;
+const MAX_LOCKOUT_MS = 60 * 60_000;
+const FORGET_AFTER_MS = 15 * 60_000;     // Quiet this long after a failure or lockout, a counter starts over
+const MAX_TRACKED_IPS = 10_000;
+const GLOBAL_KEY = "*";
+
+interface FailureCounter {
+  failures: number;                      // Failures since the last lockout
+  lockouts: number;                      // Lockouts so far; sets the next lockout's length
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+const counters = new Map<string, FailureCounter>();
+let totalFailures = 0;
+let totalLockouts = 0;
+
+function stale(counter: FailureCounter, now: number): boolean {
+  return now - Math.max(counter.lastFailureAt, counter.lockedUntil) >= FORGET_AFTER_MS;
+}
+
+function counterFor(key: string, now: number): FailureCounter {
+  const existing = counters.get(key);
+  if (existing && !stale(existing, now)) return existing;
+  const fresh: FailureCounter = { failures: 0, lockouts: 0, lockedUntil: 0, lastFailureAt: now };
+  counters.set(key, fresh);
+  return fresh;
+}
+
+// Drop counters that no longer matter so a spray of addresses cannot grow the map without bound.
+function prune(now: number): void {
+  for (const [key, counter] of counters) {
+    if (stale(counter, now)) counters.delete(key);
+  }
+  if (counters.size <= MAX_TRACKED_IPS) return;
+  for (const key of counters.keys()) {
+    if (key !== GLOBAL_KEY) counters.delete(key);
+    if (counters.size <= MAX_TRACKED_IPS) break;
+  }
+}
+
+function lockOut(counter: FailureCounter, now: number): number {
+  counter.lockouts++;
+  counter.failures = 0;
+  const duration = Math.min(BASE_LOCKOUT_MS * 2 ** (counter.lockouts - 1), MAX_LOCKOUT_MS);
+  counter.lockedUntil = now + duration;
+  totalLockouts++;
+  return duration;
+}
+
+/** Milliseconds until `ip` may try a password again (0 when not locked out). Global lockouts apply to every IP. */
+export function authRetryAfterMs(ip: string): number {
+  const now = Date.now();
+  const lockedUntil = Math.max(counters.get(ip)?.lockedUntil ?? 0, counters.get(GLOBAL_KEY)?.lockedUntil ?? 0);
+  return Math.max(0, lockedUntil - now);
+}
+
+/** Count a failed password attempt from `ip`, locking out the IP (or everyone) past the thresholds. */
+export function recordAuthFailure(ip: string, username: string): void {
+  const now = Date.now();
+  prune(now);
+  totalFailures++;
+
+  for (const [key, threshold] of [[ip, IP_THRESHOLD], [GLOBAL_KEY, GLOBAL_THRESHOLD]] as const) {
+    const counter = counterFor(key, now);
+    counter.failures++;
+    counter.lastFailureAt = now;
+    if (counter.failures < threshold) continue;
+    const seconds = Math.round(lockOut(counter, now) / 1000);
+    const who = key === GLOBAL_KEY ? "password sign-in for everyone" : ip;
+    console.warn(`[auth] locked out ${who} for ${seconds}s after ${threshold} failed attempts (last as "${username}")`);
+  }
+}
+
+/** Forget `ip`'s failed attempts after it signs in successfully. */
+export function recordAuthSuccess(ip: string): void {
+  const counter = counters.get(ip);
+  if (counter && counter.lockedUntil <= Date.now()) counters.delete(ip);
+}
+
+/** Counters reported by /setup/api/debug. */
+export function authFailureStats(): AuthFailureStats {
+  const now = Date.now();
+  let lockedIps = 0;
+  for (const [key, counter] of counters) {
+    if (key !== GLOBAL_KEY && counter.lockedUntil > now) lockedIps++;
+  }
+  const globalUntil = counters.get(GLOBAL_KEY)?.lockedUntil ?? 0;
+  return {
+    total: totalFailures,
+    lockouts: totalLockouts,
+    lockedIps,
+    globalLockedUntil: globalUntil > now ? globalUntil : null,
+  };
+}
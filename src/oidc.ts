@@ -0,0 +1,297 @@
+import crypto from "node:crypto";
+
+import type { OidcIdentity } from "./types.js";
+import {
+  OIDC_ALLOWED_DOMAINS,
+  OIDC_ALLOWED_EMAILS,
+  OIDC_ALLOWED_GROUPS,
+  OIDC_CLIENT_ID,
+  OIDC_CLIENT_SECRET,
+  OIDC_EMAIL_ALWAYS_VERIFIED,
+  OIDC_GROUPS_CLAIM,
+  OIDC_ISSUER,
+  OIDC_SCOPES,
+} from "./config.js";
+
+export const OIDC_CALLBACK_PATH = "/setup/auth/oidc/callback";
+export const OIDC_STATE_COOKIE = "openclaw_oidc_state";
+
+const LOGIN_TTL_MS = 10 * 60_000;        // Time allowed between leaving for the provider and the callback
+const METADATA_TTL_MS = 60 * 60_000;     // Discovery document and signing keys are refetched this often
+const KEY_REFRESH_MIN_MS = 60_000;       // An unknown key ID refetches the key set at most this often
+const REQUEST_TIMEOUT_MS = 10_000;
+const CLOCK_SKEW_S = 60;
+const MAX_PENDING_LOGINS = 1000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// A login that has been sent to the provider and not yet come back.
+interface PendingLogin {
+  verifier: string;                      // PKCE code verifier
+  nonce: string;
+  redirectUri: string;
+  next: string;
+  createdAt: number;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; kty?: string; use?: string };
+type Claims = Record<string, unknown>;
+
+// ID token signature algorithms we accept, with the key type and verify options each needs.
+const ALGORITHMS: Record<string, { hash: string; kty: string; pss?: boolean; ecdsa?: boolean }> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  RS384: { hash: "sha384", kty: "RSA" },
+  RS512: { hash: "sha512", kty: "RSA" },
+  PS256: { hash: "sha256", kty: "RSA", pss: true },
+  PS384: { hash: "sha384", kty: "RSA", pss: true },
+  PS512: { hash: "sha512", kty: "RSA", pss: true },
+  ES256: { hash: "sha256", kty: "EC", ecdsa: true },
+  ES384: { hash: "sha384", kty: "EC", ecdsa: true },
+  ES512: { hash: "sha512", kty: "EC", ecdsa: true },
+};
+
+let metadata: { value: ProviderMetadata; fetchedAt: number } | null = null;
+let keySet: { keys: Jwk[]; fetchedAt: number } | null = null;
+const pendingLogins = new Map<string, PendingLogin>();
+
+function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+function decodeSegment(segment: string): Claims {
+  const parsed: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  if (!parsed || typeof parsed !== "object") throw new Error("malformed ID token");
+  return parsed as Claims;
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<Claims> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await res.text();
+  if (!res.ok) throw new Error(`${url} returned HTTP ${res.status}: ${body.slice(0, 200)}`);
+  return JSON.parse(body) as Claims;
+}
+
+/** Fetch (and cache) the provider's discovery document. */
+async function providerMetadata(): Promise<ProviderMetadata> {
+  if (metadata && Date.now() - metadata.fetchedAt < METADATA_TTL_MS) return metadata.value;
+  const doc = await fetchJson(`${OIDC_ISSUER}/.well-known/openid-configuration`);
+  for (const key of ["issuer", "authorization_endpoint", "token_endpoint", "jwks_uri"]) {
+    if (typeof doc[key] !== "string") throw new Error(`discovery document is missing ${key}`);
+  }
+  const value = doc as unknown as ProviderMetadata;
+  if (value.issuer.replace(/\/+$/, "") !== OIDC_ISSUER) {
+    throw new Error(`discovery document names issuer ${value.issuer}, expected ${OIDC_ISSUER}`);
+  }
+  metadata = { value, fetchedAt: Date.now() };
+  return value;
+}
+
+// Find the key that signed a token, refetching the key set once if the provider rotated keys.
+async function signingKey(meta: ProviderMetadata, kid: string | undefined, kty: string): Promise<crypto.KeyObject> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const age = keySet ? Date.now() - keySet.fetchedAt : Infinity;
+    if (age > METADATA_TTL_MS || (attempt > 0 && age > KEY_REFRESH_MIN_MS)) {
+      const doc = await fetchJson(meta.jwks_uri);
+      keySet = { keys: Array.isArray(doc.keys) ? (doc.keys as Jwk[]) : [], fetchedAt: Date.now() };
+    }
+    const candidates = (keySet?.keys ?? []).filter(
+      (key) => key.kty === kty && key.use !== "enc" && (kid === undefined || key.kid === kid)
+    );
+    // Without a key ID the choice has to be unambiguous.
+    if (candidates.length === 1 || (kid !== undefined && candidates.length > 0)) {
+      return crypto.createPublicKey({ key: candidates[0], format: "jwk" });
+    }
+  }
+  throw new Error(`no ${kty} signing key${kid ? ` with kid "${kid}"` : ""} in ${meta.jwks_uri}`);
+}
+
+/** Check an ID token's signature and standard claims, returning its claims. */
+async function verifyIdToken(token: string, meta: ProviderMetadata, nonce: string): Promise<Claims> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new Error("malformed ID token");
+  const header = decodeSegment(parts[0]);
+  const alg = ALGORITHMS[String(header.alg)];
+  if (!alg) throw new Error(`unsupported ID token algorithm ${String(header.alg)}`);
+
+  const key = await signingKey(meta, typeof header.kid === "string" ? header.kid : undefined, alg.kty);
+  const verified = crypto.verify(
+    alg.hash,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    {
+      key,
+      ...(alg.pss
+        ? { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST }
+        : {}),
+      ...(alg.ecdsa ? { dsaEncoding: "ieee-p1363" as const } : {}),
+    },
+    Buffer.from(parts[2], "base64url")
+  );
+  if (!verified) throw new Error("ID token signature is invalid");
+
+  const claims = decodeSegment(parts[1]);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== meta.issuer) throw new Error(`ID token issuer ${String(claims.iss)} is not ${meta.issuer}`);
+  if (!audiences.includes(OIDC_CLIENT_ID)) throw new Error("ID token was not issued for this client");
+  if (audiences.length > 1 && claims.azp !== undefined && claims.azp !== OIDC_CLIENT_ID) {
+    throw new Error("ID token was issued to another party");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S < now) throw new Error("ID token has expired");
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_S > now) {
+    throw new Error("ID token is issued in the future");
+  }
+  if (claims.nonce !== nonce) throw new Error("ID token nonce does not match the login");
+  if (typeof claims.sub !== "string" || !claims.sub) throw new Error("ID token has no subject");
+  return claims;
+}
+
+// Claim names may contain dots (e.g. "https://example.com/groups"), so try the literal name first.
+function claimAt(claims: Claims, name: string): unknown {
+  if (name in claims) return claims[name];
+  let value: unknown = claims;
+  for (const part of name.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Claims)[part];
+  }
+  return value;
+}
+
+function toIdentity(claims: Claims): OidcIdentity {
+  // An address the provider does not vouch for could belong to anyone, so a missing claim counts as unverified.
+  const verified =
+    typeof claims.email === "string" && (claims.email_verified === true || OIDC_EMAIL_ALWAYS_VERIFIED);
+  const email = verified ? String(claims.email).toLowerCase() : null;
+  const rawGroups = claimAt(claims, OIDC_GROUPS_CLAIM);
+  const groups = Array.isArray(rawGroups) ? rawGroups.map(String) : typeof rawGroups === "string" ? [rawGroups] : [];
+  return { subject: String(claims.sub), email, groups };
+}
+
+function prunePendingLogins(): void {
+  const cutoff = Date.now() - LOGIN_TTL_MS;
+  for (const [state, login] of pendingLogins) {
+    if (login.createdAt < cutoff || pendingLogins.size > MAX_PENDING_LOGINS) pendingLogins.delete(state);
+  }
+}
+
+/** Start a sign-in: remember a PKCE verifier and nonce under a fresh state and return the provider's login URL. */
+export async function beginOidcLogin(redirectUri: string, next: string): Promise<{ url: string; state: string }> {
+  const meta = await providerMetadata();
+  prunePendingLogins();
+
+  const state = randomToken();
+  const login: PendingLogin = {
+    verifier: randomToken(),
+    nonce: randomToken(),
+    redirectUri,
+    next,
+    createdAt: Date.now(),
+  };
+  pendingLogins.set(state, login);
+
+  const url = new URL(meta.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", OIDC_CLIENT_ID);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", OIDC_SCOPES);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", login.nonce);
+  url.searchParams.set("code_challenge", crypto.createHash("sha256").update(login.verifier).digest("base64url"));
+  url.searchParams.set("code_challenge_method", "S256");
+  return { url: url.toString(), state };
+}
+
+/** Finish a sign-in from the provider's callback: check the state, redeem the code and verify the ID token. */
+export async function completeOidcLogin(
+  params: URLSearchParams,
+  stateCookie: string | undefined
+): Promise<{ identity: OidcIdentity; next: string }> {
+  const error = params.get("error");
+  if (error) {
+    const description = params.get("error_description");
+    throw new Error(`provider returned ${error}${description ? `: ${description}` : ""}`);
+  }
+
+  // The state must match the cookie set when this browser started the sign-in.
+  const state = params.get("state") ?? "";
+  const bound = Boolean(state && stateCookie) && Buffer.from(state).equals(Buffer.from(stateCookie ?? ""));
+  const login = bound ? pendingLogins.get(state) : undefined;
+  pendingLogins.delete(state);
+  if (!login || Date.now() - login.createdAt > LOGIN_TTL_MS) {
+    throw new Error("sign-in expired or was started in another browser");
+  }
+  const code = params.get("code");
+  if (!code) throw new Error("provider did not return an authorization code");
+
+  const meta = await providerMetadata();
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: login.redirectUri,
+    code_verifier: login.verifier,
+    client_id: OIDC_CLIENT_ID,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (OIDC_CLIENT_SECRET) {
+    // client_secret_basic is the default; use client_secret_post only when the provider asks for it.
+    const methods = meta.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+    if (methods.includes("client_secret_basic")) {
+      const credentials = `${encodeURIComponent(OIDC_CLIENT_ID)}:${encodeURIComponent(OIDC_CLIENT_SECRET)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      body.set("client_secret", OIDC_CLIENT_SECRET);
+    }
+  }
+  const tokens = await fetchJson(meta.token_endpoint, { method: "POST", headers, body });
+  if (typeof tokens.id_token !== "string") throw new Error("token response has no ID token");
+
+  let claims = await verifyIdToken(tokens.id_token, meta, login.nonce);
+  // Some providers only put email, its verification or groups in the userinfo response.
+  const incomplete =
+    claims.email === undefined ||
+    claims.email_verified === undefined ||
+    claimAt(claims, OIDC_GROUPS_CLAIM) === undefined;
+  if (incomplete && meta.userinfo_endpoint && typeof tokens.access_token === "string") {
+    try {
+      const info = await fetchJson(meta.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (info.sub === claims.sub) claims = { ...info, ...claims };
+    } catch (err) {
+      console.warn(`[auth] userinfo request failed: ${String(err)}`);
+    }
+  }
+  return { identity: toIdentity(claims), next: login.next };
+}
+
+/** Return true when the identity matches the email, domain or group allowlist. An empty allowlist admits nobody. */
+export function oidcAllowed(identity: OidcIdentity): boolean {
+  const { email } = identity;
+  if (email && OIDC_ALLOWED_EMAILS.includes(email)) return true;
+  if (email && OIDC_ALLOWED_DOMAINS.includes(email.slice(email.lastIndexOf("@") + 1))) return true;
+  return identity.groups.some((group) => OIDC_ALLOWED_GROUPS.includes(group));
+}
+
+// Lax lets the cookie ride along on the provider's top-level redirect back to the callback.
+function stateCookieFlags(maxAge: number, secure: boolean): string {
+  return `HttpOnly; Path=/setup/auth/oidc; SameSite=Lax; Max-Age=${maxAge}${secure ? "; Secure" : ""}`;
+}
+
+/** Set-Cookie value binding a sign-in to the browser that started it. */
+export function oidcStateCookie(state: string, secure: boolean): string {
+  return `${OIDC_STATE_COOKIE}=${state}; ${stateCookieFlags(Math.floor(LOGIN_TTL_MS / 1000), secure)}`;
+}
+
+/** Set-Cookie value that removes the sign-in state cookie. */
+export function clearedOidcStateCookie(secure: boolean): string {
+  return `${OIDC_STATE_COOKIE}=; ${stateCookieFlags(0, secure)}`;
+}
@@ -0,0 +1,292 @@
+import type {
+  CommandResult,
+  OnboardOptions,
+  OnboardPayload,
+  OnboardPlan,
+  OnboardResult,
+  PlannedConfigSet,
+  PlannedStep,
+  StateSnapshot,
+  StepResult,
+  StepStatus,
+} from "./types.js";
+import {
+  buildOnboardArgs,
+  buildOnboardEnv,
+  clawArgs,
+  ensureDirectories,
+  INTERNAL_GATEWAY_PORT,
+  isConfigured,
+  OPENCLAW_GATEWAY_TOKEN,
+  OPENCLAW_NODE,
+  setupTokenFor,
+  STATE_DIR,
+} from "./config.js";
+import { gatewayTokenSettings, restartGateway, runCmd, stopGateway, syncGatewayTokens } from "./gateway.js";
+import { redactSecrets } from "./redact.js";
+import { jobCancelled, jobPhase } from "./jobs.js";
+import { discardSnapshot, restoreState, snapshotState } from "./snapshot.js";
+import {
+  channelRequested,
+  CHANNELS,
+  channelPatch,
+  channelSecrets,
+  configureChannel,
+  loadChannelSupport,
+  maskChannelConfig,
+  readChannelConfig,
+} from "./channels.js";
+
+// Gateway settings applied after onboarding so the proxy can reach the gateway.
+const GATEWAY_SETTINGS: Array<{ key: string; value: string; json?: boolean }> = [
+  { key: "gateway.bind", value: "loopback" },
+  { key: "gateway.port", value: String(INTERNAL_GATEWAY_PORT) },
+  { key: "gateway.trustedProxies", value: '["127.0.0.1"]', json: true },
+];
+
+// Stores an Anthropic setup token read from stdin under the `anthropic:manual` auth profile.
+const PASTE_TOKEN_ARGS = ["models", "auth", "paste-token", "--provider", "anthropic"];
+
+interface StepOutcome {
+  status: StepStatus;
+  code: number | null;
+  output: string;
+}
+
+// Map a CLI result onto a step outcome.
+function fromCommand(result: CommandResult): StepOutcome {
+  return { status: result.code === 0 ? "passed" : "failed", code: result.code, output: result.output };
+}
+
+/** Secret values from the payload and env that must never appear in onboarding output. */
+export function onboardingSecrets(payload: OnboardPayload): string[] {
+  return [
+    payload.authSecret?.trim() ?? "",
+    OPENCLAW_GATEWAY_TOKEN,
+    ...CHANNELS.flatMap((channel) => channelSecrets(channel, payload)),
+  ];
+}
+
+/** Join step results into the plain-text log shown by older clients. */
+export function formatSteps(steps: StepResult[]): string {
+  return steps
+    .map((step) => {
+      const exit = step.code === null ? step.status : `exit=${step.code}`;
+      return `[${step.label}] ${exit} (${step.durationMs}ms)\n${step.output || "(no output)"}\n`;
+    })
+    .join("\n");
+}
+
+/** Describe what runOnboarding would do for a payload without changing anything. Secrets are redacted. */
+export async function planOnboarding(payload: OnboardPayload, opts: OnboardOptions = {}): Promise<OnboardPlan> {
+  const secrets = [...onboardingSecrets(payload), ...(opts.secrets ?? [])];
+  const steps: PlannedStep[] = [
+    { id: "snapshot", label: "snapshot state", required: true },
+    { id: "onboard", label: "onboard", required: true },
+  ];
+  if (setupTokenFor(payload)) steps.push({ id: "setup-token", label: "paste setup token", required: true });
+  steps.push({ id: "sync-tokens", label: "sync gateway tokens", required: true });
+  const configSets: PlannedConfigSet[] = gatewayTokenSettings().map(({ key, value }) => ({
+    step: "sync-tokens",
+    key,
+    value: redactSecrets(value, secrets),
+    json: false,
+    patch: false,
+  }));
+
+  for (const { key, value, json } of GATEWAY_SETTINGS) {
+    steps.push({ id: `config:${key}`, label: `config set ${key}`, required: true });
+    configSets.push({ step: `config:${key}`, key, value, json: Boolean(json), patch: false });
+  }
+
+  // Channel support is only known by running the CLI, so every requested channel is listed. Each block is shown as
+  // the patch the run sends and as it would read afterwards, laid over what the config holds now.
+  const channels: Record<string, Record<string, unknown>> = {};
+  for (const channel of CHANNELS) {
+    if (!channelRequested(channel, payload)) continue;
+    const built = channel.build(payload).config as Record<string, unknown>;
+    const { patch, block } = channelPatch(channel, built, await readChannelConfig(channel.name));
+    channels[channel.name] = maskChannelConfig(channel, block);
+    const sent = (patch.channels as Record<string, Record<string, unknown>>)[channel.name];
+    const masked = { channels: { [channel.name]: maskChannelConfig(channel, sent) } };
+    steps.push({ id: `channel:${channel.name}`, label: `${channel.name} channel`, required: true });
+    configSets.push({
+      step: `channel:${channel.name}`,
+      key: `channels.${channel.name}`,
+      value: JSON.stringify(masked),
+      json: false,
+      patch: true,
+    });
+  }
+
+  for (const [key, value] of Object.entries(opts.config ?? {})) {
+    steps.push({ id: `config:${key}`, label: `config set ${key}`, required: true });
+    const planned = redactSecrets(JSON.stringify(value), secrets);
+    configSets.push({ step: `config:${key}`, key, value: planned, json: true, patch: false });
+  }
+
+  steps.push(
+    { id: "doctor", label: "doctor --fix", required: true },
+    { id: "gateway-restart", label: "gateway restart", required: false }
+  );
+
+  return {
+    ok: true,
+    dryRun: true,
+    configured: isConfigured(),
+    onboardArgs: buildOnboardArgs(payload).map((arg) => redactSecrets(arg, secrets)),
+    configSets,
+    channels,
+    steps,
+  };
+}
+
+/** Run onboarding and the post-onboarding config steps, recording a result for each.
+ * The config, credentials and agent state are snapshotted first; if a required step fails or the job is cancelled,
+ * the snapshot is restored. */
+export async function runOnboarding(payload: OnboardPayload, opts: OnboardOptions = {}): Promise<OnboardResult> {
+  const steps: StepResult[] = [];
+  const secrets = [...onboardingSecrets(payload), ...(opts.secrets ?? [])];
+
+  const record = (id: string, label: string, required: boolean, started: number, outcome: StepOutcome): StepResult => {
+    const result: StepResult = {
+      id,
+      label,
+      status: outcome.status,
+      code: outcome.code,
+      durationMs: Date.now() - started,
+      output: redactSecrets(outcome.output, secrets),
+      required,
+    };
+    steps.push(result);
+    return result;
+  };
+
+  const step = async (
+    id: string,
+    label: string,
+    fn: () => Promise<StepOutcome>,
+    required = true
+  ): Promise<StepResult> => {
+    jobPhase(label);
+    const started = Date.now();
+    let outcome: StepOutcome;
+    if (jobCancelled()) {
+      outcome = { status: "skipped", code: null, output: "Cancelled" };
+    } else {
+      try {
+        outcome = await fn();
+      } catch (err) {
+        outcome = { status: "failed", code: null, output: String(err) };
+      }
+    }
+    return record(id, label, required, started, outcome);
+  };
+
+  const finish = async (snapshot: StateSnapshot | null): Promise<OnboardResult> => {
+    const failed = steps.find((s) => s.required && s.status === "failed");
+    let rolledBack = false;
+    // The rollback step ignores cancellation: a cancelled run must be undone too.
+    if (snapshot && (failed || jobCancelled())) {
+      jobPhase("restoring previous state");
+      const started = Date.now();
+      try {
+        // A proxied request may have started the gateway once the config file appeared.
+        await stopGateway();
+        restoreState(snapshot);
+        rolledBack = true;
+        const reason = failed ? `${failed.label} failed` : "onboarding was cancelled";
+        record("rollback", "restore previous state", false, started, {
+          status: "passed",
+          code: null,
+          output: `Restored the config, credentials and agent state from before onboarding (${reason}).`,
+        });
+      } catch (err) {
+        record("rollback", "restore previous state", false, started, {
+          status: "failed",
+          code: null,
+          output: `Could not restore the state from before onboarding: ${String(err)}`,
+        });
+      }
+    }
+    if (snapshot) discardSnapshot(snapshot);
+    const ok = steps.every((s) => s.status !== "failed") && !jobCancelled();
+    return { ok, steps, output: formatSteps(steps), failedStep: failed?.id ?? null, rolledBack };
+  };
+
+  // Stop at the first required failure; later steps would only be undone.
+  const broken = () => steps.some((s) => s.required && s.status === "failed") || jobCancelled();
+
+  ensureDirectories();
+
+  let snapshot: StateSnapshot | null = null;
+  await step("snapshot", "snapshot state", async () => {
+    snapshot = snapshotState();
+    return { status: "passed", code: null, output: `Saved ${snapshot.entries.length} entries from ${STATE_DIR}` };
+  });
+  if (broken()) return finish(snapshot);
+
+  await step("onboard", "onboard", async () => {
+    const r = await runCmd(OPENCLAW_NODE, clawArgs(buildOnboardArgs(payload)), { env: buildOnboardEnv(payload) });
+    if (r.code === 0 && !isConfigured()) {
+      return { status: "failed", code: r.code, output: `${r.output}\nOnboarding exited cleanly but wrote no config file.\n` };
+    }
+    return fromCommand(r);
+  });
+  if (broken()) return finish(snapshot);
+
+  const setupToken = setupTokenFor(payload);
+  if (setupToken) {
+    await step("setup-token", "paste setup token", async () =>
+      fromCommand(await runCmd(OPENCLAW_NODE, clawArgs(PASTE_TOKEN_ARGS), { input: `${setupToken}\n` }))
+    );
+    if (broken()) return finish(snapshot);
+  }
+
+  await step("sync-tokens", "sync gateway tokens", async () => fromCommand(await syncGatewayTokens()));
+  if (broken()) return finish(snapshot);
+
+  for (const { key, value, json } of GATEWAY_SETTINGS) {
+    await step(`config:${key}`, `config set ${key}`, async () =>
+      fromCommand(await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", ...(json ? ["--json"] : []), key, value])))
+    );
+    if (broken()) return finish(snapshot);
+  }
+
+  jobPhase("checking channel support");
+  const supports = await loadChannelSupport();
+  for (const channel of CHANNELS) {
+    if (!channelRequested(channel, payload)) continue;
+    await step(`channel:${channel.name}`, `${channel.name} channel`, async () => {
+      const r = await configureChannel(channel, payload, supports);
+      return { status: r.skipped ? "skipped" : r.ok ? "passed" : "failed", code: r.code, output: r.output.trim() };
+    });
+    if (broken()) return finish(snapshot);
+  }
+
+  for (const [key, value] of Object.entries(opts.config ?? {})) {
+    await step(`config:${key}`, `config set ${key}`, async () =>
+      fromCommand(await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "--json", key, JSON.stringify(value)])))
+    );
+    if (broken()) return finish(snapshot);
+  }
+
+  // Activate plugins and fix any config issues.
+  await step("doctor", "doctor --fix", async () =>
+    fromCommand(await runCmd(OPENCLAW_NODE, clawArgs(["doctor", "--fix"])))
+  );
+  if (broken()) return finish(snapshot);
+
+  // Not required: the config is complete, and a gateway that will not start can be retried from the console.
+  await step(
+    "gateway-restart",
+    "gateway restart",
+    async () => {
+      const r = await restartGateway();
+      return { status: r.ok ? "passed" : "failed", code: null, output: r.ok ? "Gateway is running" : r.reason ?? "" };
+    },
+    false
+  );
+
+  return finish(snapshot);
+}
@@ -0,0 +1,209 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AuditOutcome, OnboardOptions, OnboardPayload, ProvisionManifest } from "./types.js";
+import { AUTH_GROUPS, isConfigured } from "./config.js";
+import { CHANNELS, getChannel, validateOnboardChannels } from "./channels.js";
+import { formatSteps, onboardingSecrets, runOnboarding } from "./onboarding.js";
+import { activeJobs, startJob } from "./jobs.js";
+import { recordAudit } from "./audit.js";
+import { recordConfigRevision } from "./history.js";
+
+const MANIFEST_FILE_ENV = "OPENCLAW_PROVISION_FILE";
+const MANIFEST_ENV = "OPENCLAW_PROVISION";
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const PROVISION_ACTOR = "provision";
+
+interface ProvisionPlan {
+  payload: OnboardPayload;
+  opts: OnboardOptions;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Read the manifest from OPENCLAW_PROVISION_FILE or OPENCLAW_PROVISION; null when neither is set. */
+function readManifest(): { source: string; manifest: unknown } | null {
+  const file = process.env[MANIFEST_FILE_ENV]?.trim();
+  if (file) {
+    const p = path.resolve(file);
+    const text = fs.readFileSync(p, "utf8");
+    const manifest: unknown = p.endsWith(".json") ? JSON.parse(text) : Bun.YAML.parse(text);
+    return { source: p, manifest };
+  }
+  const inline = process.env[MANIFEST_ENV]?.trim();
+  if (inline) {
+    // YAML is a superset of JSON, so one parser covers both.
+    return { source: MANIFEST_ENV, manifest: Bun.YAML.parse(inline) };
+  }
+  return null;
+}
+
+// Replace ${VAR} references with environment values so credentials can stay out of the manifest.
+function interpolate(value: unknown, where: string, secrets: string[], errors: string[]): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REFERENCE, (_, name: string) => {
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        errors.push(`${where}: environment variable ${name} is not set`);
+        return "";
+      }
+      secrets.push(resolved);
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) return value.map((item, i) => interpolate(item, `${where}[${i}]`, secrets, errors));
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const at = where ? `${where}.${key}` : key;
+        return [key, interpolate(item, at, secrets, errors)];
+      })
+    );
+  }
+  return value;
+}
+
+// Form fields take strings; lists become comma-separated like the setup form.
+function fieldValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(String).join(",");
+  return String(value);
+}
+
+/** Translate a manifest into the onboarding payload and options, collecting every problem found. */
+function planFromManifest(raw: unknown): { plan: ProvisionPlan; errors: string[] } {
+  const errors: string[] = [];
+  const secrets: string[] = [];
+  const payload: OnboardPayload = {};
+  const opts: OnboardOptions = { secrets };
+
+  if (!isObject(raw)) {
+    return { plan: { payload, opts }, errors: ["manifest must be an object"] };
+  }
+  // Only auth and channel settings are read from the environment. `config` is written as given, so OpenClaw's own
+  // ${VAR} references in it keep working and no credential lands in openclaw.json in plain text.
+  const manifest = { ...raw } as ProvisionManifest;
+  if (raw.auth !== undefined) {
+    manifest.auth = interpolate(raw.auth, "auth", secrets, errors) as ProvisionManifest["auth"];
+  }
+  if (raw.channels !== undefined) {
+    manifest.channels = interpolate(raw.channels, "channels", secrets, errors) as ProvisionManifest["channels"];
+  }
+
+  if (manifest.flow !== undefined) payload.flow = String(manifest.flow);
+
+  if (manifest.auth !== undefined) {
+    if (!isObject(manifest.auth)) {
+      errors.push("auth must be an object with choice and secret");
+    } else {
+      const choice = manifest.auth.choice === undefined ? "" : String(manifest.auth.choice);
+      const known = AUTH_GROUPS.some((group) => group.options.some((option) => option.value === choice));
+      if (!known) errors.push(`auth.choice: unknown auth choice "${choice}"`);
+      payload.authChoice = choice;
+      if (manifest.auth.secret !== undefined) payload.authSecret = String(manifest.auth.secret);
+    }
+  }
+
+  if (manifest.channels !== undefined) {
+    if (!isObject(manifest.channels)) {
+      errors.push("channels must map channel names to settings");
+    } else {
+      for (const [name, settings] of Object.entries(manifest.channels)) {
+        const channel = getChannel(name);
+        if (!channel) {
+          const known = CHANNELS.map((c) => c.name).join(", ");
+          errors.push(`channels.${name}: unknown channel (expected one of ${known})`);
+          continue;
+        }
+        if (!isObject(settings)) {
+          errors.push(`channels.${name} must be an object`);
+          continue;
+        }
+        const values: Record<string, string> = {};
+        for (const [key, value] of Object.entries(settings)) {
+          // Accept the form field name ("discordToken") or the short name ("token").
+          const field = channel.fields.find((f) => {
+            const short = f.key.startsWith(name) ? f.key.slice(name.length) : f.key;
+            return f.key === key || short.charAt(0).toLowerCase() + short.slice(1) === key;
+          });
+          if (!field) {
+            errors.push(`channels.${name}.${key}: unknown setting`);
+            continue;
+          }
+          values[field.key] = fieldValue(value);
+        }
+        // Listing a channel enables it unless it says otherwise.
+        for (const field of channel.fields) {
+          if (field.trigger && field.type === "checkbox" && values[field.key] === undefined) {
+            values[field.key] = "true";
+          }
+        }
+        Object.assign(payload, values);
+      }
+    }
+  }
+
+  if (manifest.config !== undefined) {
+    if (!isObject(manifest.config)) {
+      errors.push("config must map config keys to values");
+    } else {
+      opts.config = manifest.config;
+    }
+  }
+
+  for (const [field, message] of Object.entries(validateOnboardChannels(payload))) {
+    errors.push(`${field}: ${message}`);
+  }
+
+  return { plan: { payload, opts }, errors };
+}
+
+/** Run onboarding from the provisioning manifest when the wrapper starts unconfigured. */
+export async function provisionFromManifest(): Promise<void> {
+  if (isConfigured()) return;
+
+  let found: ReturnType<typeof readManifest>;
+  try {
+    found = readManifest();
+  } catch (err) {
+    console.error(`[provision] could not read manifest: ${String(err)}`);
+    return;
+  }
+  if (!found) return;
+
+  const { plan, errors } = planFromManifest(found.manifest);
+  if (errors.length > 0) {
+    console.error(`[provision] manifest from ${found.source} is invalid; skipping provisioning:`);
+    for (const error of errors) console.error(`[provision]   ${error}`);
+    return;
+  }
+  if (activeJobs().some((job) => job.kind === "onboard")) {
+    console.warn("[provision] setup is already running; skipping provisioning");
+    return;
+  }
+
+  console.log(`[provision] provisioning from ${found.source}`);
+  const { job, done } = startJob("onboard", () => runOnboarding(plan.payload, plan.opts), {
+    secrets: [...onboardingSecrets(plan.payload), ...(plan.opts.secrets ?? [])],
+    succeeded: (result) => result.ok,
+  });
+  const args = { source: found.source, flow: plan.payload.flow, authChoice: plan.payload.authChoice };
+  const audit = (outcome: AuditOutcome, detail: string) =>
+    recordAudit({ actor: PROVISION_ACTOR, ip: "local", action: "setup.provision", outcome, args, detail });
+  try {
+    const result = await done;
+    if (result.ok) {
+      console.log(`[provision] completed (job ${job.id})`);
+      recordConfigRevision(PROVISION_ACTOR, `Provisioned from ${found.source}`);
+      audit("success", `job ${job.id}`);
+    } else {
+      console.error(`[provision] failed at ${result.failedStep ?? "unknown step"} (job ${job.id})`);
+      console.error(formatSteps(result.steps.filter((step) => step.status === "failed")));
+      audit("failure", `job ${job.id}: failed at ${result.failedStep ?? "unknown step"}`);
+    }
+  } catch (err) {
+    console.error(`[provision] job ${job.id} did not finish: ${String(err)}`);
+    audit("failure", `job ${job.id}: ${String(err)}`);
+  }
+}
@@ -0,0 +1,211 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { RedactionRule } from "./types.js";
+import { isSecretKey } from "./utils.js";
+import { AUTH_GROUPS, configPath, OPENCLAW_GATEWAY_TOKEN, SECRETS_MASTER_KEY, SETUP_PASSWORD } from "./config.js";
+import { parseJson5 } from "./json5.js";
+import { isSecretReference, resolveSecret, SECRETS_PATH, storedSecretValues } from "./secrets.js";
+import { applyRedactionRules, compileRedactionPattern, REDACTION_MASK, REDACTION_RULES } from "./redactrules.js";
+
+// Masking for everything the wrapper sends back or logs: config text, config trees and command output. Secrets
+// are found by where they sit in the config, by their known values and by the token formats in redactrules.ts.
+export const MASK = REDACTION_MASK;
+
+const PATTERNS_FILE_ENV = "OPENCLAW_REDACT_PATTERNS_FILE";
+const PATTERNS_ENV = "OPENCLAW_REDACT_PATTERNS";
+
+// Config paths that hold credentials ("*" is any one key). Other keys that look like credentials are masked too.
+const SECRET_CONFIG_PATHS = [
+  "channels.*.token",
+  "channels.*.botToken",
+  "channels.*.appToken",
+  "gateway.auth.token",
+  "gateway.remote.token",
+].map((pattern) => pattern.split("."));
+
+// Env vars whose values are masked: these names, and names ending in one of the suffixes. Matching any name that
+// mentions a secret would also mask values such as RAILWAY_PRIVATE_DOMAIN.
+const SECRET_ENV_NAMES = new Set(["SETUP_PASSWORD", "OPENCLAW_SECRETS_KEY"]);
+const SECRET_ENV_SUFFIXES = ["_API_KEY", "_TOKEN", "_SECRET"];
+
+function isSecretEnvName(name: string): boolean {
+  const upper = name.toUpperCase();
+  return SECRET_ENV_NAMES.has(upper) || SECRET_ENV_SUFFIXES.some((suffix) => upper.endsWith(suffix));
+}
+
+// Shorter values would mask ordinary words in output.
+const MIN_KNOWN_SECRET_LENGTH = 8;
+
+let knownCache: { stamp: string; values: string[] } | null = null;
+
+// Extra patterns from a YAML/JSON list in OPENCLAW_REDACT_PATTERNS_FILE or OPENCLAW_REDACT_PATTERNS, read once at
+// startup; openclaw.json cannot hold them, since OpenClaw checks it against its own schema. Bad entries are logged
+// and skipped rather than stopping the wrapper.
+function loadCustomRules(): RedactionRule[] {
+  const file = process.env[PATTERNS_FILE_ENV]?.trim();
+  const inline = process.env[PATTERNS_ENV]?.trim();
+  if (!file && !inline) return [];
+  let entries: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both.
+    entries = Bun.YAML.parse(file ? fs.readFileSync(path.resolve(file), "utf8") : inline ?? "");
+  } catch (err) {
+    console.error(`[redact] cannot read ${file ? PATTERNS_FILE_ENV : PATTERNS_ENV}: ${String(err)}`);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.error(`[redact] ${file ? PATTERNS_FILE_ENV : PATTERNS_ENV} must be a list of patterns`);
+    return [];
+  }
+  const rules: RedactionRule[] = [];
+  entries.forEach((entry, i) => {
+    const compiled = compileRedactionPattern(entry, i);
+    if (compiled.ok) rules.push(compiled.rule);
+    else console.error(`[redact] ignoring pattern ${compiled.error}`);
+  });
+  return rules;
+}
+
+const CUSTOM_RULES = loadCustomRules();
+const RULES = [...REDACTION_RULES, ...CUSTOM_RULES];
+
+/** Rule counts for the startup log, plus AUTH_GROUPS providers no built-in rule covers. */
+export function redactionSummary(): { builtin: number; custom: number; uncovered: string[] } {
+  const covered = new Set(REDACTION_RULES.flatMap((rule) => rule.providers ?? []));
+  return {
+    builtin: REDACTION_RULES.length,
+    custom: CUSTOM_RULES.length,
+    uncovered: AUTH_GROUPS.map((group) => group.value).filter((provider) => !covered.has(provider)),
+  };
+}
+
+/** Return true when the config value at `segments` (e.g. ["channels", "slack", "appToken"]) is a credential. */
+export function isSecretConfigPath(segments: string[]): boolean {
+  const known = SECRET_CONFIG_PATHS.some(
+    (pattern) => pattern.length === segments.length && pattern.every((p, i) => p === "*" || p === segments[i])
+  );
+  // List items are judged by the key that holds the list.
+  const key = [...segments].reverse().find((segment) => !/^\d+$/.test(segment));
+  return known || (key !== undefined && isSecretKey(key));
+}
+
+function mtime(file: string): number {
+  try {
+    return fs.statSync(file).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Secret values the wrapper knows about: the gateway token (rotated ones included) and setup password, credential
+ * env vars (OPENAI_API_KEY, ...), the secret store and credentials in the config.
+ */
+export function knownSecretValues(): string[] {
+  const file = configPath();
+  // Rotation changes the token in place, so it is part of the stamp (hashed, not kept as text).
+  const rotated = crypto.createHash("sha256").update(OPENCLAW_GATEWAY_TOKEN).digest("hex");
+  const stamp = `${file}:${mtime(file)}:${mtime(SECRETS_PATH)}:${rotated}`;
+  if (knownCache?.stamp === stamp) return knownCache.values;
+
+  const values = [OPENCLAW_GATEWAY_TOKEN, SETUP_PASSWORD ?? "", SECRETS_MASTER_KEY, ...storedSecretValues()];
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value && isSecretEnvName(name)) values.push(value.trim());
+  }
+  try {
+    const parsed = parseJson5(fs.readFileSync(file, "utf8"));
+    if (parsed.ok) {
+      for (const [keyPath, span] of parsed.strings) {
+        if (isSecretConfigPath(keyPath.split("."))) values.push(resolveSecret(span.value));
+      }
+    }
+  } catch {
+    // No config yet.
+  }
+  // Longest first, so a secret that contains another is masked whole.
+  const unique = [...new Set(values)]
+    .filter((value) => value && value.length >= MIN_KNOWN_SECRET_LENGTH && !isSecretReference(value))
+    .sort((a, b) => b.length - a.length);
+  knownCache = { stamp, values: unique };
+  return unique;
+}
+
+/** Replace known secret values in text, including their JSON-escaped form. */
+export function maskKnownSecrets(text: string): string {
+  let result = text;
+  for (const secret of knownSecretValues()) {
+    const escaped = JSON.stringify(secret).slice(1, -1);
+    for (const form of escaped === secret ? [secret] : [secret, escaped]) {
+      if (result.includes(form)) result = result.split(form).join(MASK);
+    }
+  }
+  return result;
+}
+
+/** Mask credentials in text: `known` and every other known secret value, then every token format. */
+export function redactSecrets(text: string | null | undefined, known: string[] = []): string {
+  if (!text) return text ?? "";
+  let result = String(text);
+  for (const secret of known) {
+    if (secret) result = result.split(secret).join(MASK);
+  }
+  return applyRedactionRules(maskKnownSecrets(result), RULES);
+}
+
+/** Return true when `value` is `original` as masking shows it, i.e. a masked value sent back unedited. */
+export function isMaskedForm(value: string, original: string): boolean {
+  return value.includes(MASK) && (value === MASK || value === redactSecrets(original));
+}
+
+/**
+ * Config text with credential values replaced by the placeholder, keeping the rest of the file (comments,
+ * formatting) as it was. References into the secret store are left visible. Text that does not parse is masked
+ * by value only.
+ */
+export function maskConfigText(content: string): string {
+  const parsed = parseJson5(content);
+  if (!parsed.ok) return redactSecrets(content);
+  const spans = [...parsed.strings]
+    .filter(([, span]) => span.value && !isSecretReference(span.value))
+    .filter(([keyPath]) => isSecretConfigPath(keyPath.split(".")))
+    .map(([, span]) => span)
+    .sort((a, b) => b.start - a.start);
+  let result = content;
+  for (const span of spans) {
+    const quote = content[span.start];
+    result = `${result.slice(0, span.start)}${quote}${MASK}${quote}${result.slice(span.end)}`;
+  }
+  return redactSecrets(result);
+}
+
+/**
+ * Put the original values back wherever edited config text still holds a masked value, copying each one from
+ * the same key in `original`. Fails when a bare placeholder has nothing to stand for (e.g. it was moved to a new
+ * key).
+ */
+export function restoreMaskedConfig(
+  content: string,
+  original: string | null
+): { ok: true; content: string } | { ok: false; error: string } {
+  const parsed = parseJson5(content);
+  // Text that does not parse is left for validation to report.
+  if (!parsed.ok) return { ok: true, content };
+  const masked = [...parsed.strings]
+    .filter(([, span]) => span.value.includes(MASK))
+    .sort((a, b) => b[1].start - a[1].start);
+  if (masked.length === 0) return { ok: true, content };
+
+  const before = original === null ? null : parseJson5(original);
+  let result = content;
+  for (const [keyPath, span] of masked) {
+    const source = before?.ok ? before.strings.get(keyPath) : undefined;
+    if (source && original !== null && isMaskedForm(span.value, source.value)) {
+      result = `${result.slice(0, span.start)}${original.slice(source.start, source.end)}${result.slice(span.end)}`;
+    } else if (span.value === MASK) {
+      return { ok: false, error: `${keyPath || "Config"} holds the ${MASK} placeholder; enter the real value` };
+    }
+  }
+  return { ok: true, content: result };
+}
@@ -0,0 +1,121 @@
+import type { CustomRedactionPattern, RedactionRule } from "./types.js";
+import { REDACTION_NEGATIVE_SAMPLES, REDACTION_POSITIVE_SAMPLES } from "./redactcorpus.js";
+
+// Token formats masked wherever they appear in output, one rule per credential kind. `providers` names the
+// AUTH_GROUPS entries a rule covers, so a new provider without a rule is noticed at startup. Rules that keep a
+// prefix visible (a header name, a URL user) use lookbehind; the whole match is replaced.
+// This module has no side effects, so scripts/check-redaction.ts can load it without a state dir.
+export const REDACTION_MASK = "[REDACTED]";
+
+export const REDACTION_RULES: RedactionRule[] = [
+  // Provider keys. The specific sk- formats come before the generic one so each is reported under its own name.
+  { name: "anthropic-key", pattern: /\bsk-ant-(?:api|admin|oat)\d{2}-[A-Za-z0-9_-]{20,}/g, providers: ["anthropic"] },
+  { name: "openrouter-key", pattern: /\bsk-or-v1-[a-f0-9]{64}\b/g, providers: ["openrouter"] },
+  { name: "kimi-code-key", pattern: /\bsk-kimi-[A-Za-z0-9]{20,}/g, providers: ["moonshot"] },
+  {
+    // OpenAI, Moonshot and OpenCode Zen keys. A digit is required so "sk-learn-style-names" are left alone.
+    name: "sk-key",
+    pattern: /\bsk-(?:proj-|svcacct-|admin-)?(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{20,}/g,
+    providers: ["openai", "moonshot", "opencode-zen"],
+  },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g, providers: ["google"] },
+  { name: "google-oauth-token", pattern: /\bya29\.[0-9A-Za-z_-]{20,}/g, providers: ["google"] },
+  { name: "google-refresh-token", pattern: /(?<![\w/])1\/\/0[0-9A-Za-z_-]{30,}/g, providers: ["google"] },
+  { name: "ai-gateway-key", pattern: /\bvck_[A-Za-z0-9]{40,}/g, providers: ["ai-gateway"] },
+  { name: "zai-key", pattern: /\b[a-f0-9]{32}\.[A-Za-z0-9]{16}\b/g, providers: ["zai"] },
+  { name: "synthetic-key", pattern: /\bsyn_[A-Za-z0-9]{32,}/g, providers: ["synthetic"] },
+  {
+    // MiniMax keys are JWTs, as are many OAuth access tokens.
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    providers: ["minimax", "qwen"],
+  },
+  {
+    name: "github-token",
+    pattern: /\b(?:gh[opsur]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})/g,
+    providers: ["copilot"],
+  },
+  { name: "copilot-token", pattern: /\btid=[0-9a-f]{32};[^\s"']+/g, providers: ["copilot"] },
+  {
+    name: "oauth-token-field",
+    pattern: /(?<="(?:access|refresh|id)_token"\s*:\s*")[^"\s]{16,}(?=")/g,
+    providers: ["openai", "google", "qwen", "copilot"],
+  },
+
+  // Channel tokens.
+  { name: "telegram-bot-token", pattern: /\b\d{8,10}:AA[A-Za-z0-9_-]{33}(?![A-Za-z0-9_-])/g },
+  { name: "discord-bot-token", pattern: /\b[MNO](?=[A-Za-z\d]*\d)[A-Za-z\d]{23,27}\.[\w-]{6}\.[\w-]{27,40}/g },
+  { name: "slack-token", pattern: /\bxox[a-z]-\d+-[A-Za-z0-9-]{10,}/g },
+  { name: "slack-app-token", pattern: /\bxapp-\d-[A-Za-z0-9-]{20,}/g },
+
+  // Credentials in generic places.
+  { name: "bearer-token", pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g },
+  { name: "url-password", pattern: /(?<=:\/\/[^/\s:@]+:)[^/\s@]+(?=@)/g },
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+];
+
+/** Mask every match of `rules` in `text`. */
+export function applyRedactionRules(text: string, rules: RedactionRule[]): string {
+  let result = text;
+  for (const rule of rules) {
+    result = result.replace(rule.pattern, REDACTION_MASK);
+  }
+  return result;
+}
+
+/**
+ * Turn a user-supplied pattern (a regex source, or `{ name, pattern, flags }`) into a rule. Patterns that do not
+ * compile, match empty text or change any ordinary sample in the corpus are refused, since they would mask
+ * output wholesale.
+ */
+export function compileRedactionPattern(
+  entry: unknown,
+  index: number
+): { ok: true; rule: RedactionRule } | { ok: false; error: string } {
+  const spec: CustomRedactionPattern =
+    typeof entry === "string" ? { pattern: entry } : ((entry ?? {}) as CustomRedactionPattern);
+  const name = typeof spec.name === "string" && spec.name.trim() ? spec.name.trim() : `custom-${index + 1}`;
+  if (typeof spec.pattern !== "string" || !spec.pattern) return { ok: false, error: `${name}: pattern is required` };
+  const flags = spec.flags === undefined ? "" : String(spec.flags);
+  if (!/^[imsu]*$/.test(flags)) return { ok: false, error: `${name}: flags may only use i, m, s and u` };
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(spec.pattern, `${flags}g`);
+  } catch (err) {
+    return { ok: false, error: `${name}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (new RegExp(spec.pattern, flags).test("")) return { ok: false, error: `${name}: pattern matches empty text` };
+  const rule = { name, pattern };
+  const hit = REDACTION_NEGATIVE_SAMPLES.find((sample) => applyRedactionRules(sample, [rule]) !== sample);
+  if (hit !== undefined) return { ok: false, error: `${name}: pattern matches ordinary output ("${hit}")` };
+  return { ok: true, rule };
+}
+
+/** Problems found running `rules` over the sample corpus; empty when every sample behaves. */
+export function checkRedactionCorpus(rules: RedactionRule[] = REDACTION_RULES): string[] {
+  const problems: string[] = [];
+  for (const sample of REDACTION_POSITIVE_SAMPLES) {
+    const rule = rules.find((r) => r.name === sample.rule);
+    if (!rule) {
+      problems.push(`sample for unknown rule ${sample.rule}`);
+    } else if (applyRedactionRules(sample.text, [rule]).includes(sample.secret)) {
+      problems.push(`${sample.rule} misses ${JSON.stringify(sample.text)}`);
+    } else if (applyRedactionRules(sample.text, rules).includes(sample.secret)) {
+      problems.push(`${sample.rule} sample leaks once every rule has run: ${JSON.stringify(sample.text)}`);
+    }
+  }
+  for (const rule of rules) {
+    if (!REDACTION_POSITIVE_SAMPLES.some((sample) => sample.rule === rule.name)) {
+      problems.push(`${rule.name} has no positive sample`);
+    }
+  }
+  for (const sample of REDACTION_NEGATIVE_SAMPLES) {
+    const redacted = applyRedactionRules(sample, rules);
+    if (redacted !== sample) problems.push(`ordinary text was masked: ${JSON.stringify(sample)} → ${redacted}`);
+  }
+  return problems;
+}
@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { SecretEntry, SecretStoreFile, SecretSummary } from "./types.js";
+import { SECRETS_MASTER_KEY, STATE_DIR } from "./config.js";
+
+export const SECRETS_PATH = path.join(STATE_DIR, "credentials", "wrapper-secrets.json");
+
+// The config holds "${OPENCLAW_SECRET_<NAME>}" in place of a secret; OpenClaw substitutes env vars in config
+// strings, and the wrapper puts the decrypted value in the env of every child process it starts.
+const ENV_PREFIX = "OPENCLAW_SECRET_";
+const REFERENCE = /^\$\{(OPENCLAW_SECRET_[A-Z0-9_]+)\}$/;
+const MIN_MASTER_KEY_LENGTH = 16;
+
+let store: SecretStoreFile | null = null;
+let loadedMtime = 0;
+let cachedKey: { salt: string; key: Buffer } | null = null;
+const undecryptable = new Set<string>();    // Names already warned about
+
+if (SECRETS_MASTER_KEY && SECRETS_MASTER_KEY.length < MIN_MASTER_KEY_LENGTH) {
+  console.error(`[secrets] OPENCLAW_SECRETS_KEY is shorter than ${MIN_MASTER_KEY_LENGTH} characters; store disabled`);
+}
+
+/** Return true when OPENCLAW_SECRETS_KEY is set, so secrets go to the encrypted store instead of the config. */
+export function secretStoreEnabled(): boolean {
+  return SECRETS_MASTER_KEY.length >= MIN_MASTER_KEY_LENGTH;
+}
+
+/** Env var name a secret reaches child processes under ("channels.telegram.botToken" → OPENCLAW_SECRET_...). */
+export function secretEnvName(name: string): string {
+  return `${ENV_PREFIX}${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+}
+
+/** Return true when a config value is a reference into the secret store rather than a secret. */
+export function isSecretReference(value: unknown): value is string {
+  return typeof value === "string" && REFERENCE.test(value);
+}
+
+function masterKey(salt: string): Buffer {
+  if (cachedKey?.salt !== salt) {
+    cachedKey = { salt, key: crypto.scryptSync(SECRETS_MASTER_KEY, Buffer.from(salt, "base64"), 32) };
+  }
+  return cachedKey.key;
+}
+
+/** Read the store, reloading when the file changed on disk (e.g. after an import or rollback). */
+function loadStore(): SecretStoreFile {
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(SECRETS_PATH).mtimeMs;
+  } catch {
+    // No secrets yet.
+  }
+  if (store && mtime === loadedMtime) return store;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(SECRETS_PATH, "utf8")) as SecretStoreFile;
+    store = parsed?.version === 1 && parsed.salt && parsed.secrets ? parsed : null;
+  } catch {
+    store = null;
+  }
+  store ??= { version: 1, salt: crypto.randomBytes(16).toString("base64"), secrets: {} };
+  loadedMtime = mtime;
+  return store;
+}
+
+function saveStore(next: SecretStoreFile): void {
+  fs.mkdirSync(path.dirname(SECRETS_PATH), { recursive: true });
+  const tmp = `${SECRETS_PATH}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(next, null, 2), { encoding: "utf8", mode: 0o600 });
+  fs.renameSync(tmp, SECRETS_PATH);
+  store = next;
+  loadedMtime = fs.statSync(SECRETS_PATH).mtimeMs;
+}
+
+// The entry name is bound in as associated data, so an entry cannot be swapped onto another name.
+function encrypt(salt: string, name: string, value: string): SecretEntry {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", masterKey(salt), iv);
+  cipher.setAAD(Buffer.from(name));
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+    updatedAt: Date.now(),
+  };
+}
+
+function decrypt(salt: string, name: string, entry: SecretEntry): string | null {
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", masterKey(salt), Buffer.from(entry.iv, "base64"));
+    decipher.setAAD(Buffer.from(name));
+    decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    // Wrong master key or a tampered entry.
+    return null;
+  }
+}
+
+/**
+ * Keep a secret for a config path and return what the config should hold instead: a reference when the store
+ * is enabled, otherwise the value itself.
+ */
+export function storeSecret(name: string, value: string): string {
+  if (!secretStoreEnabled() || !value || isSecretReference(value)) return value;
+  const current = loadStore();
+  saveStore({ ...current, secrets: { ...current.secrets, [name]: encrypt(current.salt, name, value) } });
+  return `\${${secretEnvName(name)}}`;
+}
+
+/** The value behind a config value: the stored secret for a reference, anything else unchanged. */
+export function resolveSecret(value: string): string {
+  const match = value.match(REFERENCE);
+  if (!match || !secretStoreEnabled()) return value;
+  const current = loadStore();
+  const name = Object.keys(current.secrets).find((n) => secretEnvName(n) === match[1]);
+  return (name && decrypt(current.salt, name, current.secrets[name])) || value;
+}
+
+/** Drop stored secrets whose names start with `prefix` (e.g. "channels.telegram."). */
+export function removeSecrets(prefix: string): void {
+  if (!secretStoreEnabled()) return;
+  const current = loadStore();
+  const kept = Object.entries(current.secrets).filter(([name]) => !name.startsWith(prefix));
+  if (kept.length !== Object.keys(current.secrets).length) {
+    saveStore({ ...current, secrets: Object.fromEntries(kept) });
+  }
+}
+
+/** Names of stored secrets, without their values. */
+export function listSecrets(): SecretSummary[] {
+  if (!secretStoreEnabled()) return [];
+  return Object.entries(loadStore().secrets).map(([name, entry]) => ({
+    name,
+    env: secretEnvName(name),
+    updatedAt: entry.updatedAt,
+  }));
+}
+
+/** Decrypted secrets as env vars for child processes. Entries that fail to decrypt are skipped with a warning. */
+export function secretEnv(): Record<string, string> {
+  if (!secretStoreEnabled()) return {};
+  const current = loadStore();
+  const env: Record<string, string> = {};
+  for (const [name, entry] of Object.entries(current.secrets)) {
+    const value = decrypt(current.salt, name, entry);
+    if (value === null) {
+      if (!undecryptable.has(name)) console.warn(`[secrets] cannot decrypt ${name}; was OPENCLAW_SECRETS_KEY changed?`);
+      undecryptable.add(name);
+      continue;
+    }
+    env[secretEnvName(name)] = value;
+  }
+  return env;
+}
+
+/** Every stored secret value, for redacting output. */
+export function storedSecretValues(): string[] {
+  return Object.values(secretEnv());
+}
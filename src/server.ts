@@ -6,38 +6,61 @@ import path from "node:path";
 import * as tar from "tar";
 
 import type {
+  ApiTokenPayload,
+  ApiTokenSummary,
+  AuditOutcome,
+  AuditQuery,
+  AuthUser,
   ChannelResult,
+  JobSummary,
+  ChannelSummary,
+  ConfigPatchOp,
   ConfigRawPayload,
+  ConfigRevisionSummary,
+  ConfigTreePayload,
+  ConfigValidation,
   ConsolePayload,
-  DiscordConfig,
   OnboardPayload,
   PairingApprovePayload,
   PairingEntry,
-  SlackConfig,
-  TelegramConfig,
+  LoginPayload,
+  RotatableSecret,
+  SecretRotatePayload,
+  SessionRecord,
+  UserPayload,
+  UserRole,
 } from "./types.js";
 
-import { isUnderDir, looksSafeTarPath, parseCommaSeparated, redactSecrets } from "./utils.js";
+import { isUnderDir, looksSafeTarPath, parseCommaSeparated, parseCookies } from "./utils.js";
 
 import {
   ALLOWED_CONSOLE_COMMANDS,
   AUTH_GROUPS,
-  buildOnboardArgs,
+  BASIC_AUTH_ENABLED,
+  checkSetupPassword,
   clawArgs,
   configPath,
+  CONSOLE_COMMAND_ROLES,
   DEV_MODE,
   ensureDirectories,
   GATEWAY_TARGET,
+  GATEWAY_TOKEN_FROM_ENV,
   INTERNAL_GATEWAY_HOST,
   INTERNAL_GATEWAY_PORT,
   isConfigured,
+  OIDC_ENABLED,
+  OIDC_REDIRECT_URL,
+  OIDC_ROLE,
   OPENCLAW_ENTRY,
   OPENCLAW_GATEWAY_TOKEN,
   OPENCLAW_NODE,
   PORT,
   PROXY_DEBUG,
   SETUP_PASSWORD,
+  SETUP_PASSWORD_FILE,
+  setSetupPassword,
   STATE_DIR,
+  TRUST_PROXY,
   UI_DIR,
   WORKSPACE_DIR,
 } from "./config.js";
@@ -46,18 +69,117 @@ import {
   deleteConfigFile,
   ensureGatewayRunning,
   getGatewayHealth,
+  getSupervisorPolicy,
   readConfigFile,
   resetCircuitBreaker,
   restartGateway,
+  rotateGatewayToken,
   runBootstrapHook,
   runCmd,
   shutdownGateway,
   stopGateway,
   syncGatewayConfig,
   syncGatewayTokens,
+  tryConfigChange,
   writeConfigFile,
 } from "./gateway.js";
 
+import {
+  channelDescriptors,
+  CHANNELS,
+  configureChannel,
+  getChannel,
+  loadChannelSupport,
+  maskChannelConfig,
+  migrateChannelSecrets,
+  pairingChannelNames,
+  readChannelConfig,
+  redactChannelOutput,
+  storedSecretFields,
+  validateOnboardChannels,
+  withStoredSecrets,
+} from "./channels.js";
+
+import { onboardingSecrets, planOnboarding, runOnboarding } from "./onboarding.js";
+import { provisionFromManifest } from "./provision.js";
+import { validateConfig } from "./validate.js";
+import { parseJson5 } from "./json5.js";
+import { applyConfigPatch, maskConfigTree } from "./configtree.js";
+import { removeSecrets, secretStoreEnabled } from "./secrets.js";
+import { maskConfigText, maskKnownSecrets, redactionSummary, redactSecrets, restoreMaskedConfig } from "./redact.js";
+
+import {
+  activeJobs,
+  cancelJob,
+  getJob,
+  jobPhase,
+  JOBS_DIR,
+  listJobs,
+  loadJobs,
+  startJob,
+  subscribeJob,
+} from "./jobs.js";
+import type { StartJobOptions } from "./jobs.js";
+
+import { AUDIT_PATH, queryAudit, recordAudit } from "./audit.js";
+import { authFailureStats, authRetryAfterMs, recordAuthFailure, recordAuthSuccess } from "./lockout.js";
+import {
+  captureExternalConfigChange,
+  diffConfigText,
+  getConfigRevision,
+  HISTORY_DIR,
+  listConfigRevisions,
+  recordConfigRevision,
+} from "./history.js";
+
+import {
+  beginOidcLogin,
+  clearedOidcStateCookie,
+  completeOidcLogin,
+  OIDC_CALLBACK_PATH,
+  OIDC_STATE_COOKIE,
+  oidcAllowed,
+  oidcStateCookie,
+} from "./oidc.js";
+
+import {
+  clearedSessionCookies,
+  createSession,
+  CSRF_COOKIE,
+  csrfValid,
+  destroySession,
+  destroySetupPasswordSessions,
+  destroyUserSessions,
+  readSession,
+  SESSION_COOKIE,
+  sessionCookies,
+  SESSION_KEY_FILE,
+  SESSIONS_FILE,
+} from "./sessions.js";
+
+import {
+  bearerApiToken,
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  tokenAllowsCommand,
+  tokenAllowsRequest,
+  verifyApiToken,
+} from "./tokens.js";
+
+import {
+  createUser,
+  deleteUser,
+  getUser,
+  hasRole,
+  hasUsers,
+  listUsers,
+  SETUP_PASSWORD_USER,
+  updateUser,
+  usersRevision,
+  verifyUser,
+} from "./users.js";
+
 const MAX_IMPORT_BYTES = 250 * 1024 * 1024;
 const MAX_JSON_BYTES = 1024 * 1024; // 1MB
 
@@ -71,71 +193,288 @@ const CONTENT_TYPES: Record<string, string> = {
 
 // --- Authentication helpers ---
 
-function decodeBasicPassword(header: string): string | null {
+function decodeBasicAuth(header: string): { username: string; password: string } | null {
   const [scheme, encoded] = header.trim().split(/\s+/, 2);
   if (!scheme || scheme.toLowerCase() !== "basic" || !encoded) return null;
   try {
     const decoded = Buffer.from(encoded, "base64").toString("utf8");
     const idx = decoded.indexOf(":");
-    return idx >= 0 ? decoded.slice(idx + 1) : "";
+    return idx >= 0
+      ? { username: decoded.slice(0, idx), password: decoded.slice(idx + 1) }
+      : { username: "", password: "" };
   } catch {
     return null;
   }
 }
 
-function safeEqual(a: string, b: string): boolean {
-  if (!a || !b) return false;
-  const aBuf = Buffer.from(a);
-  const bBuf = Buffer.from(b);
-  if (aBuf.length !== bBuf.length) return false;
-  return crypto.timingSafeEqual(aBuf, bBuf);
+// Verified Basic credentials, keyed by a hash of the header, so a polling client does not re-run argon2 every request.
+const LOGIN_CACHE_MS = 60_000;
+const verifiedLogins = new Map<string, { user: AuthUser; expires: number; revision: number }>();
+
+// The user (and session, for cookie logins) each authenticated request belongs to.
+const requestUsers = new WeakMap<Request, AuthUser>();
+const requestSessions = new WeakMap<Request, SessionRecord>();
+const requestTokens = new WeakMap<Request, ApiTokenSummary>();
+
+// Client IP of each request, recorded in fetch() where the server handle is available.
+const requestIps = new WeakMap<Request, string>();
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/** Check a username and password: SETUP_PASSWORD signs in as the built-in admin, anything else is a stored user. */
+function authenticateCredentials(username: string, password: string): AuthUser | null {
+  if (checkSetupPassword(password)) {
+    return { username: SETUP_PASSWORD_USER, role: "admin", builtin: true };
+  }
+  return verifyUser(username, password);
+}
+
+/** The client's IP: the TCP peer, or the address Railway's edge appended to X-Forwarded-For when behind it. */
+function clientIp(req: Request, server: { requestIP: (req: Request) => { address: string } | null }): string {
+  const peer = server.requestIP(req)?.address || "unknown";
+  if (!TRUST_PROXY) return peer;
+  // Only the last hop is added by the proxy; earlier entries come from the client and can be forged.
+  const forwarded = parseCommaSeparated(req.headers.get("x-forwarded-for") ?? undefined);
+  return forwarded[forwarded.length - 1] || peer;
+}
+
+function requestIp(req: Request): string {
+  return requestIps.get(req) ?? "unknown";
+}
+
+function tooManyAttempts(retryAfterMs: number): Response {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  return new Response(`Too many failed sign-in attempts; try again in ${seconds}s`, {
+    status: 429,
+    headers: { "Content-Type": "text/plain", "Retry-After": String(seconds) },
+  });
+}
+
+function authenticateBasic(header: string): AuthUser | null {
+  const creds = decodeBasicAuth(header);
+  if (!creds) return null;
+  const key = crypto.createHash("sha256").update(header).digest("hex");
+  const revision = usersRevision();
+  const cached = verifiedLogins.get(key);
+  if (cached && cached.expires > Date.now() && cached.revision === revision) return cached.user;
+  verifiedLogins.delete(key);
+
+  const user = authenticateCredentials(creds.username, creds.password);
+  if (user) verifiedLogins.set(key, { user, expires: Date.now() + LOGIN_CACHE_MS, revision });
+  return user;
+}
+
+/** Resolve a session to its user as they are now: deleted users, a removed SETUP_PASSWORD
+ *  and single sign-on identities no longer on the allowlist end the session. */
+function sessionUser(session: SessionRecord): AuthUser | null {
+  if (session.oidc) {
+    return OIDC_ENABLED && oidcAllowed(session.oidc)
+      ? { username: session.username, role: OIDC_ROLE, builtin: true }
+      : null;
+  }
+  if (session.builtin) {
+    return SETUP_PASSWORD ? { username: SETUP_PASSWORD_USER, role: "admin", builtin: true } : null;
+  }
+  const user = getUser(session.username);
+  return user ? { username: user.username, role: user.role, builtin: false } : null;
+}
+
+/** Return false when a browser says the request came from another site. Non-browser clients send neither header. */
+function sameOrigin(req: Request): boolean {
+  const origin = req.headers.get("origin");
+  if (origin) {
+    const host = req.headers.get("x-forwarded-host") || req.headers.get("host") || "";
+    try {
+      return new URL(origin).host === host;
+    } catch {
+      return false;
+    }
+  }
+  const site = req.headers.get("sec-fetch-site");
+  return !site || site === "same-origin" || site === "none";
 }
 
-function checkSetupAuth(req: Request): Response | null {
-  if (DEV_MODE) return null;
+/** True when the client reached us over HTTPS (Railway terminates TLS and forwards the scheme). */
+function isSecureRequest(req: Request): boolean {
+  return req.headers.get("x-forwarded-proto") === "https" || new URL(req.url).protocol === "https:";
+}
 
-  if (!SETUP_PASSWORD) {
+function unauthorized(req: Request, message: string): Response {
+  // Browsers navigating to a page are sent to the login form instead.
+  const url = new URL(req.url);
+  if (req.method === "GET" && (req.headers.get("accept") || "").includes("text/html")) {
+    return redirect(`/setup/login?next=${encodeURIComponent(url.pathname + url.search)}`);
+  }
+  const headers: Record<string, string> = { "Content-Type": "text/plain" };
+  if (BASIC_AUTH_ENABLED) headers["WWW-Authenticate"] = 'Basic realm="OpenClaw Setup"';
+  return new Response(message, { status: 401, headers });
+}
+
+/** Authenticate a /setup or proxied request and check its role.
+ *  `csrf` picks how mutating requests are protected: the session's token for wrapper routes,
+ *  an origin check for the proxied Control UI (which cannot send our token). */
+function checkSetupAuth(req: Request, role: UserRole = "viewer", csrf: "token" | "origin" = "token"): Response | null {
+  if (DEV_MODE) {
+    requestUsers.set(req, { username: "dev", role: "admin", builtin: true });
+    return null;
+  }
+
+  if (!SETUP_PASSWORD && !hasUsers() && !OIDC_ENABLED) {
     return new Response(
       "SETUP_PASSWORD is not set. Set it in Railway Variables before using /setup.",
       { status: 500, headers: { "Content-Type": "text/plain" } }
     );
   }
 
+  const mutating = MUTATING_METHODS.has(req.method);
   const header = req.headers.get("authorization") || "";
-  const password = decodeBasicPassword(header);
-  if (password === null) {
-    return new Response("Auth required", {
-      status: 401,
-      headers: {
-        "WWW-Authenticate": 'Basic realm="OpenClaw Setup"',
-        "Content-Type": "text/plain",
-      },
-    });
-  }
-  if (!safeEqual(password, SETUP_PASSWORD)) {
-    return new Response("Invalid password", {
-      status: 401,
-      headers: {
-        "WWW-Authenticate": 'Basic realm="OpenClaw Setup"',
-        "Content-Type": "text/plain",
-      },
-    });
+  const apiToken = bearerApiToken(header);
+  let user: AuthUser | null = null;
+
+  const session = readSession(req);
+  if (session) {
+    user = sessionUser(session);
+    if (!user) {
+      destroySession(session.id);
+      return unauthorized(req, "Session ended");
+    }
+    if (mutating && !(csrf === "token" ? csrfValid(req, session) : sameOrigin(req))) {
+      return text("Forbidden: missing or invalid CSRF token", 403);
+    }
+    requestSessions.set(req, session);
+  } else if (apiToken) {
+    // API tokens are for /setup/api scripts; the proxy would forward them to the gateway.
+    if (csrf === "origin") return text("Forbidden: API tokens only work on /setup routes", 403);
+    const ip = requestIp(req);
+    const retryAfterMs = authRetryAfterMs(ip);
+    if (retryAfterMs > 0) return tooManyAttempts(retryAfterMs);
+    const token = verifyApiToken(apiToken);
+    if (!token) {
+      recordAuthFailure(ip, "API token");
+      return unauthorized(req, "Invalid, expired or revoked API token");
+    }
+    recordAuthSuccess(ip);
+    const { pathname } = new URL(req.url);
+    if (!tokenAllowsRequest(token, req.method, pathname)) {
+      return text(`Forbidden: token "${token.name}" is not scoped for ${req.method} ${pathname}`, 403);
+    }
+    user = { username: `token:${token.name}`, role: token.role, builtin: true };
+    requestTokens.set(req, token);
+  } else {
+    if (!BASIC_AUTH_ENABLED || decodeBasicAuth(header) === null) {
+      return unauthorized(req, "Auth required: sign in at /setup/login");
+    }
+    const ip = requestIp(req);
+    const retryAfterMs = authRetryAfterMs(ip);
+    if (retryAfterMs > 0) return tooManyAttempts(retryAfterMs);
+    user = authenticateBasic(header);
+    if (!user) {
+      recordAuthFailure(ip, decodeBasicAuth(header)?.username ?? "");
+      return unauthorized(req, "Invalid password");
+    }
+    recordAuthSuccess(ip);
+    // Browsers replay cached Basic credentials, so refuse cross-site writes.
+    if (mutating && !sameOrigin(req)) return text("Forbidden: cross-origin request", 403);
   }
 
+  if (!hasRole(user.role, role)) return forbidden(user, role);
+
+  requestUsers.set(req, user);
   return null;
 }
 
+function forbidden(user: AuthUser, role: UserRole): Response {
+  return new Response(`Forbidden: requires the ${role} role (signed in as ${user.username}, ${user.role})`, {
+    status: 403,
+    headers: { "Content-Type": "text/plain" },
+  });
+}
+
+/** The user checkSetupAuth authenticated for this request. */
+function requestUser(req: Request): AuthUser {
+  return requestUsers.get(req) ?? { username: "unknown", role: "viewer", builtin: false };
+}
+
+// --- Audit helpers ---
+
+function audit(
+  req: Request,
+  action: string,
+  outcome: AuditOutcome,
+  args: Record<string, unknown> = {},
+  detail?: string,
+  actor = requestUser(req).username
+): void {
+  recordAudit({ actor, ip: requestIp(req), action, outcome, args, detail });
+}
+
+/** Run a handler body and audit the response it produced: 2xx is a success, anything else (or a throw) a failure. */
+async function audited(
+  req: Request,
+  action: string,
+  args: Record<string, unknown>,
+  run: () => Promise<Response>
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await run();
+  } catch (err) {
+    audit(req, action, "failure", args, String(err));
+    throw err;
+  }
+  let detail: string | undefined;
+  if (!res.ok) {
+    const body = await res.clone().text();
+    try {
+      const parsed = JSON.parse(body) as { error?: string; output?: string };
+      detail = parsed.error ?? parsed.output;
+    } catch {
+      detail = body;
+    }
+  }
+  audit(req, action, res.ok ? "success" : "failure", args, detail);
+  return res;
+}
+
+interface JobAudit {
+  action: string;
+  args?: Record<string, unknown>;
+}
+
+/** Audit a job-backed action once the job finishes. */
+function auditJob(
+  req: Request,
+  jobAudit: JobAudit,
+  jobId: string,
+  done: Promise<{ ok: boolean; error?: string }>
+): void {
+  done.then(
+    (result) => {
+      const detail = result.error ? `job ${jobId}: ${result.error}` : `job ${jobId}`;
+      audit(req, jobAudit.action, result.ok ? "success" : "failure", jobAudit.args, detail);
+    },
+    (err) => audit(req, jobAudit.action, "failure", jobAudit.args, `job ${jobId}: ${String(err)}`)
+  );
+}
+
+/** Record the config file as it is now in config history, authored by the request's user. */
+function configRevision(req: Request, message: string): void {
+  recordConfigRevision(requestUser(req).username, message);
+}
+
 // --- Response helpers ---
+// Every body passes through maskKnownSecrets, so a credential that turns up in command output or an error message
+// is never sent back as it is.
 
 function json(data: unknown, status = 200): Response {
-  return new Response(JSON.stringify(data), {
+  return new Response(maskKnownSecrets(JSON.stringify(data)), {
     status,
     headers: { "Content-Type": "application/json" },
   });
 }
 
 function text(body: string, status = 200): Response {
-  return new Response(body, {
+  return new Response(maskKnownSecrets(body), {
     status,
     headers: { "Content-Type": "text/plain" },
   });
@@ -179,85 +518,46 @@ async function parseJsonBody<T>(req: Request): Promise<T> {
   return body ? JSON.parse(body) as T : ({} as T);
 }
 
-// --- Channel configuration helpers ---
-
-async function configureTelegram(
-  payload: OnboardPayload,
-  supports: (name: string) => boolean
-): Promise<string> {
-  if (!supports("telegram")) {
-    return "\n[telegram] skipped (this openclaw build does not list telegram in `channels add --help`)\n";
+// parseJsonBody for handlers: a malformed or oversized body becomes a 400 response instead of an exception.
+async function readJsonBody<T>(req: Request): Promise<T | Response> {
+  try {
+    return await parseJsonBody<T>(req);
+  } catch (err) {
+    return json({ ok: false, error: String(err) }, 400);
   }
-
-  const token = payload.telegramToken!.trim();
-  const cfgObj: TelegramConfig = {
-    enabled: true,
-    dmPolicy: "pairing",
-    botToken: token,
-    groupPolicy: "allowlist",
-    streamMode: "partial",
-  };
-
-  const set = await runCmd(
-    OPENCLAW_NODE,
-    clawArgs(["config", "set", "--json", "channels.telegram", JSON.stringify(cfgObj)])
-  );
-  const get = await runCmd(OPENCLAW_NODE, clawArgs(["config", "get", "channels.telegram"]));
-
-  return `\n[telegram config] exit=${set.code} (output ${set.output.length} chars)\n${set.output || "(no output)"}` +
-    `\n[telegram verify] exit=${get.code} (output ${get.output.length} chars)\n${get.output || "(no output)"}`;
 }
 
-async function configureDiscord(
-  payload: OnboardPayload,
-  supports: (name: string) => boolean
-): Promise<string> {
-  if (!supports("discord")) {
-    return "\n[discord] skipped (this openclaw build does not list discord in `channels add --help`)\n";
-  }
+// --- Job helpers ---
 
-  const token = payload.discordToken!.trim();
-  const cfgObj: DiscordConfig = {
-    enabled: true,
-    token,
-    groupPolicy: "allowlist",
-    dm: {
-      policy: "pairing",
-    },
-  };
+const SSE_HEARTBEAT_MS = 5_000; // Keeps idle streams under Bun's idle timeout
 
-  const set = await runCmd(
-    OPENCLAW_NODE,
-    clawArgs(["config", "set", "--json", "channels.discord", JSON.stringify(cfgObj)])
-  );
-  const get = await runCmd(OPENCLAW_NODE, clawArgs(["config", "get", "channels.discord"]));
-
-  return `\n[discord config] exit=${set.code} (output ${set.output.length} chars)\n${set.output || "(no output)"}` +
-    `\n[discord verify] exit=${get.code} (output ${get.output.length} chars)\n${get.output || "(no output)"}`;
-}
-
-async function configureSlack(
-  payload: OnboardPayload,
-  supports: (name: string) => boolean
-): Promise<string> {
-  if (!supports("slack")) {
-    return "\n[slack] skipped (this openclaw build does not list slack in `channels add --help`)\n";
+/** Queue work as a job and return 202 with its ID; `?wait=1` blocks until the job finishes instead. */
+async function respondWithJob<T extends { ok: boolean }>(
+  req: Request,
+  kind: string,
+  run: () => Promise<T>,
+  opts: StartJobOptions<T> & { audit?: JobAudit } = {}
+): Promise<Response> {
+  const { audit: jobAudit, ...jobOpts } = opts;
+  const { job, done } = startJob(kind, run, { succeeded: (result) => result.ok, ...jobOpts });
+  if (jobAudit) auditJob(req, jobAudit, job.id, done);
+  if (new URL(req.url).searchParams.get("wait") !== "1") {
+    // The job keeps running; failures are reported in its record and event stream.
+    done.catch(() => {});
+    return jobAccepted(job);
   }
+  try {
+    const result = await done;
+    return json({ ...result, jobId: job.id }, result.ok ? 200 : 500);
+  } catch (err) {
+    return json({ ok: false, error: String(err), jobId: job.id }, 500);
+  }
+}
 
-  const cfgObj: SlackConfig = {
-    enabled: true,
-    botToken: payload.slackBotToken?.trim() || undefined,
-    appToken: payload.slackAppToken?.trim() || undefined,
-  };
-
-  const set = await runCmd(
-    OPENCLAW_NODE,
-    clawArgs(["config", "set", "--json", "channels.slack", JSON.stringify(cfgObj)])
-  );
-  const get = await runCmd(OPENCLAW_NODE, clawArgs(["config", "get", "channels.slack"]));
-
-  return `\n[slack config] exit=${set.code} (output ${set.output.length} chars)\n${set.output || "(no output)"}` +
-    `\n[slack verify] exit=${get.code} (output ${get.output.length} chars)\n${get.output || "(no output)"}`;
+function jobAccepted(job: JobSummary): Response {
+  const res = json({ ok: true, jobId: job.id, job }, 202);
+  res.headers.set("Location", `/setup/api/jobs/${job.id}`);
+  return res;
 }
 
 // --- Route handlers ---
@@ -272,9 +572,8 @@ async function handleSetupPage(req: Request): Promise<Response> {
   return serveFile("setup.html");
 }
 
-async function handleSetupCss(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
-  if (authErr) return authErr;
+async function handleSetupCss(): Promise<Response> {
+  // Public: the login page uses it too.
   return serveFile("styles.css");
 }
 
@@ -284,6 +583,132 @@ async function handleSetupJs(req: Request): Promise<Response> {
   return serveFile("app.js");
 }
 
+async function handleLoginPage(req: Request): Promise<Response> {
+  // Already signed in: go straight to the app.
+  const session = readSession(req);
+  if (session && sessionUser(session)) return redirect(safeNext(req));
+  return serveFile("login.html");
+}
+
+async function handleLoginJs(): Promise<Response> {
+  return serveFile("login.js");
+}
+
+// Only same-site paths are allowed as a post-login destination.
+function safeNext(req: Request): string {
+  const next = new URL(req.url).searchParams.get("next") || "";
+  return next.startsWith("/") && !next.startsWith("//") ? next : "/setup";
+}
+
+// Tells the login page which sign-in methods to offer.
+async function handleApiLoginMethods(): Promise<Response> {
+  return json({ password: Boolean(SETUP_PASSWORD) || hasUsers(), oidc: OIDC_ENABLED });
+}
+
+async function handleApiLogin(req: Request): Promise<Response> {
+  if (!SETUP_PASSWORD && !hasUsers()) {
+    if (OIDC_ENABLED) return json({ ok: false, error: "Password sign-in is not set up; use single sign-on" }, 400);
+    const error = "SETUP_PASSWORD is not set. Set it in Railway Variables before using /setup.";
+    return json({ ok: false, error }, 500);
+  }
+  if (!sameOrigin(req)) return json({ ok: false, error: "Cross-origin login rejected" }, 403);
+
+  const ip = requestIp(req);
+  const retryAfterMs = authRetryAfterMs(ip);
+  if (retryAfterMs > 0) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    const res = json({ ok: false, error: `Too many failed sign-in attempts; try again in ${seconds}s` }, 429);
+    res.headers.set("Retry-After", String(seconds));
+    return res;
+  }
+
+  const payload = await readJsonBody<LoginPayload>(req);
+  if (payload instanceof Response) return payload;
+  const username = String(payload.username ?? "").trim();
+  const user = authenticateCredentials(username, String(payload.password ?? ""));
+  if (!user) {
+    console.warn(`[auth] failed login for "${username}" from ${ip}`);
+    recordAuthFailure(ip, username);
+    audit(req, "auth.login", "failure", {}, "Invalid username or password", username || "unknown");
+    return json({ ok: false, error: "Invalid username or password" }, 401);
+  }
+  recordAuthSuccess(ip);
+  audit(req, "auth.login", "success", {}, undefined, user.username);
+
+  const session = createSession(user);
+  console.log(`[auth] ${user.username} signed in`);
+  const res = json({ ok: true, user, csrfToken: session.csrfToken });
+  for (const cookie of sessionCookies(session, isSecureRequest(req))) res.headers.append("Set-Cookie", cookie);
+  return res;
+}
+
+// The callback URL registered with the provider; behind Railway's proxy the public host is in x-forwarded-host.
+function oidcRedirectUri(req: Request): string {
+  if (OIDC_REDIRECT_URL) return OIDC_REDIRECT_URL;
+  const host = req.headers.get("x-forwarded-host") || req.headers.get("host") || new URL(req.url).host;
+  return `${isSecureRequest(req) ? "https" : "http"}://${host}${OIDC_CALLBACK_PATH}`;
+}
+
+function loginError(message: string): Response {
+  return redirect(`/setup/login?error=${encodeURIComponent(message)}`);
+}
+
+async function handleOidcLogin(req: Request): Promise<Response> {
+  if (!OIDC_ENABLED) return text("Single sign-on is not configured", 404);
+  try {
+    const { url, state } = await beginOidcLogin(oidcRedirectUri(req), safeNext(req));
+    const res = redirect(url);
+    res.headers.append("Set-Cookie", oidcStateCookie(state, isSecureRequest(req)));
+    return res;
+  } catch (err) {
+    console.error(`[auth] single sign-on unavailable: ${String(err)}`);
+    return loginError("Single sign-on is unavailable right now");
+  }
+}
+
+async function handleOidcCallback(req: Request): Promise<Response> {
+  if (!OIDC_ENABLED) return text("Single sign-on is not configured", 404);
+  const secure = isSecureRequest(req);
+  const stateCookie = parseCookies(req.headers.get("cookie"))[OIDC_STATE_COOKIE];
+
+  let res: Response;
+  try {
+    const { identity, next } = await completeOidcLogin(new URL(req.url).searchParams, stateCookie);
+    const name = identity.email ?? identity.subject;
+    if (!oidcAllowed(identity)) {
+      console.warn(`[auth] single sign-on refused for ${name}: not on the allowlist`);
+      audit(req, "auth.sso", "failure", { groups: identity.groups }, "Not on the allowlist", name);
+      res = loginError(`${name} is not allowed to sign in here`);
+    } else {
+      const session = createSession({ username: name, role: OIDC_ROLE, builtin: true }, identity);
+      console.log(`[auth] ${name} signed in with single sign-on`);
+      audit(req, "auth.sso", "success", { groups: identity.groups }, undefined, name);
+      res = redirect(next);
+      for (const cookie of sessionCookies(session, secure)) res.headers.append("Set-Cookie", cookie);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`[auth] single sign-on failed: ${message}`);
+    audit(req, "auth.sso", "failure", {}, message, "unknown");
+    res = loginError(`Single sign-on failed: ${message}`);
+  }
+  res.headers.append("Set-Cookie", clearedOidcStateCookie(secure));
+  return res;
+}
+
+async function handleApiLogout(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
+
+  const session = requestSessions.get(req);
+  if (session) destroySession(session.id);
+  console.log(`[auth] ${requestUser(req).username} signed out`);
+  audit(req, "auth.logout", "success");
+  const res = json({ ok: true });
+  for (const cookie of clearedSessionCookies(isSecureRequest(req))) res.headers.append("Set-Cookie", cookie);
+  return res;
+}
+
 async function handleApiStatus(req: Request): Promise<Response> {
   const authErr = checkSetupAuth(req);
   if (authErr) return authErr;
@@ -299,65 +724,183 @@ async function handleApiStatus(req: Request): Promise<Response> {
     openclawVersion: version.output.trim(),
     channelsAddHelp: channelsHelp.output,
     authGroups: AUTH_GROUPS,
+    channels: channelDescriptors(),
+    activeJobs: activeJobs(),
+    user: requestUser(req),
   });
 }
 
 async function handleApiRun(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+  const authErr = checkSetupAuth(req, "admin");
   if (authErr) return authErr;
 
+  const payload = await readJsonBody<OnboardPayload>(req);
+  if (payload instanceof Response) return payload;
+
   try {
-    if (isConfigured()) {
-      await ensureGatewayRunning();
+    if (isConfigured() && !payload.dryRun) {
+      await ensureGatewayRunning({ manual: true });
       return json({
         ok: true,
+        steps: [],
+        failedStep: null,
+        rolledBack: false,
         output: "Already configured.\nUse Reset setup if you want to rerun onboarding.\n",
       });
     }
 
-    ensureDirectories();
+    const fieldErrors = validateOnboardChannels(payload);
+    if (Object.keys(fieldErrors).length > 0) {
+      return json({ ok: false, output: "Some setup fields are invalid.\n", fieldErrors }, 400);
+    }
 
-    const payload = await parseJsonBody<OnboardPayload>(req);
-    const onboardArgs = buildOnboardArgs(payload);
-    const onboard = await runCmd(OPENCLAW_NODE, clawArgs(onboardArgs));
+    // Preview only: nothing is written; the current channel blocks are read to show what an update would leave.
+    if (payload.dryRun) return json(await planOnboarding(payload));
 
-    let extra = "";
-    const ok = onboard.code === 0 && isConfigured();
+    if (activeJobs().some((job) => job.kind === "onboard")) {
+      return json({ ok: false, output: "Setup is already running.\n" }, 409);
+    }
 
-    if (ok) {
-      await syncGatewayTokens();
-      await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "gateway.bind", "loopback"]));
-      await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "gateway.port", String(INTERNAL_GATEWAY_PORT)]));
-      await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "--json", "gateway.trustedProxies", '["127.0.0.1"]']));
+    const run = async () => {
+      const result = await runOnboarding(payload);
+      if (result.ok) configRevision(req, "Ran setup");
+      return result;
+    };
+    return respondWithJob(req, "onboard", run, {
+      secrets: onboardingSecrets(payload),
+      audit: { action: "setup.run", args: { flow: payload.flow, authChoice: payload.authChoice } },
+    });
+  } catch (err) {
+    console.error("[/setup/api/run] error:", err);
+    return json({ ok: false, output: `Internal error: ${String(err)}` }, 500);
+  }
+}
 
-      const channelsHelp = await runCmd(OPENCLAW_NODE, clawArgs(["channels", "add", "--help"]));
-      const helpText = channelsHelp.output || "";
-      const supports = (name: string): boolean => helpText.includes(name);
+function channelNameFromPath(req: Request): string {
+  const match = new URL(req.url).pathname.match(/^\/setup\/api\/channels\/([^/]+)$/);
+  return match ? decodeURIComponent(match[1]).trim().toLowerCase() : "";
+}
 
-      if (payload.telegramToken?.trim()) {
-        extra += await configureTelegram(payload, supports);
-      }
+async function handleApiChannelsList(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
 
-      if (payload.discordToken?.trim()) {
-        extra += await configureDiscord(payload, supports);
-      }
+  const [supports, configs] = await Promise.all([
+    loadChannelSupport(),
+    Promise.all(CHANNELS.map((channel) => readChannelConfig(channel.name))),
+  ]);
+
+  const channels: ChannelSummary[] = CHANNELS.map(({ name }, i) => ({
+    name,
+    supported: supports(name),
+    configured: configs[i] !== null,
+    enabled: configs[i] !== null && configs[i]?.enabled !== false,
+  }));
+
+  return json({ ok: true, configured: isConfigured(), channels });
+}
+
+async function handleApiChannelGet(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
+
+  const name = channelNameFromPath(req);
+  const channel = getChannel(name);
+  if (!channel) {
+    return json({ ok: false, error: `Unknown channel: ${name}` }, 404);
+  }
 
-      if (payload.slackBotToken?.trim() || payload.slackAppToken?.trim()) {
-        extra += await configureSlack(payload, supports);
+  const current = await readChannelConfig(name);
+
+  return json({
+    ok: true,
+    channel: name,
+    configured: current !== null,
+    enabled: current !== null && current.enabled !== false,
+    config: current ? maskChannelConfig(channel, current) : null,
+    values: current ? channel.fromConfig(current) : {},
+    storedSecrets: storedSecretFields(channel, current),
+  });
+}
+
+async function handleApiChannelPut(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const name = channelNameFromPath(req);
+  const channel = getChannel(name);
+  if (!channel) {
+    return json({ ok: false, error: `Unknown channel: ${name}` }, 404);
+  }
+  if (!isConfigured()) {
+    return json({ ok: false, error: "Run setup before configuring channels" }, 409);
+  }
+
+  return audited(req, "channel.update", { channel: name }, async () => {
+    const body = await readJsonBody<OnboardPayload>(req);
+    if (body instanceof Response) return body;
+
+    try {
+      const current = await readChannelConfig(name);
+      const payload = withStoredSecrets(channel, body, current);
+
+      const fieldErrors = channel.build(payload).errors;
+      if (Object.keys(fieldErrors).length > 0) {
+        return json({ ok: false, error: "Some channel fields are invalid", fieldErrors }, 400);
       }
 
-      // Activate plugins and fix any config issues.
-      const doctor = await runCmd(OPENCLAW_NODE, clawArgs(["doctor", "--fix"]));
-      extra += `\n[doctor --fix] exit=${doctor.code}\n${doctor.output || "(no output)"}`;
+      const supports = await loadChannelSupport();
+      const result = await configureChannel(channel, payload, supports);
+      if (!result.ok) {
+        const status = result.skipped ? 400 : 500;
+        const output = redactChannelOutput(channel, payload, result.output);
+        return json({ ok: false, error: `Failed to configure ${name}`, output }, status);
+      }
 
-      await restartGateway();
+      configRevision(req, `Updated the ${name} channel`);
+      const gateway = await restartGateway();
+      return json({ ok: true, channel: name, output: redactChannelOutput(channel, payload, result.output), gateway });
+    } catch (err) {
+      console.error(`[/setup/api/channels/${name}] error:`, err);
+      return json({ ok: false, error: String(err) }, 500);
     }
+  });
+}
 
-    return json({ ok, output: `${onboard.output}${extra}` }, ok ? 200 : 500);
-  } catch (err) {
-    console.error("[/setup/api/run] error:", err);
-    return json({ ok: false, output: `Internal error: ${String(err)}` }, 500);
+async function handleApiChannelDelete(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const name = channelNameFromPath(req);
+  const channel = getChannel(name);
+  if (!channel) {
+    return json({ ok: false, error: `Unknown channel: ${name}` }, 404);
+  }
+  if (!isConfigured()) {
+    return json({ ok: false, error: "Run setup before configuring channels" }, 409);
   }
+
+  // ?mode=disable keeps the block (and its tokens) but turns the channel off.
+  const mode = new URL(req.url).searchParams.get("mode") === "disable" ? "disable" : "remove";
+
+  return audited(req, "channel.delete", { channel: name, mode }, async () => {
+    try {
+      const r = mode === "disable"
+        ? await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", "--json", `channels.${name}.enabled`, "false"]))
+        : await runCmd(OPENCLAW_NODE, clawArgs(["config", "unset", `channels.${name}`]));
+      if (r.code !== 0) {
+        return json({ ok: false, error: `Failed to ${mode} ${name}`, output: redactSecrets(r.output) }, 500);
+      }
+
+      if (mode === "remove") removeSecrets(`channels.${name}.`);
+      configRevision(req, `${mode === "disable" ? "Disabled" : "Removed"} the ${name} channel`);
+      const gateway = await restartGateway();
+      return json({ ok: true, channel: name, mode, output: redactSecrets(r.output), gateway });
+    } catch (err) {
+      console.error(`[/setup/api/channels/${name}] error:`, err);
+      return json({ ok: false, error: String(err) }, 500);
+    }
+  });
 }
 
 async function handleApiDebug(req: Request): Promise<Response> {
@@ -377,12 +920,11 @@ async function handleApiDebug(req: Request): Promise<Response> {
       stateDir: STATE_DIR,
       workspaceDir: WORKSPACE_DIR,
       configPath: configPath(),
-      gatewayTokenFromEnv: Boolean(
-        process.env.OPENCLAW_GATEWAY_TOKEN?.trim() || process.env.CLAWDBOT_GATEWAY_TOKEN?.trim()
-      ),
+      gatewayTokenFromEnv: GATEWAY_TOKEN_FROM_ENV,
       gatewayTokenPersisted: fs.existsSync(path.join(STATE_DIR, "gateway.token")),
       railwayCommit: process.env.RAILWAY_GIT_COMMIT_SHA || null,
       gatewayHealth: getGatewayHealth(),
+      authFailures: authFailureStats(),
     },
     openclaw: {
       entry: OPENCLAW_ENTRY,
@@ -397,25 +939,69 @@ async function handleApiConsoleRun(req: Request): Promise<Response> {
   const authErr = checkSetupAuth(req);
   if (authErr) return authErr;
 
-  const payload = await parseJsonBody<ConsolePayload>(req);
+  const payload = await readJsonBody<ConsolePayload>(req);
+  if (payload instanceof Response) return payload;
   const cmd = String(payload.cmd || "").trim();
   const arg = String(payload.arg || "").trim();
 
   if (!ALLOWED_CONSOLE_COMMANDS.has(cmd)) {
     return json({ ok: false, error: "Command not allowed" }, 400);
   }
+  const user = requestUser(req);
+  const required = CONSOLE_COMMAND_ROLES[cmd];
+  if (!hasRole(user.role, required)) {
+    return json({ ok: false, error: `${cmd} requires the ${required} role` }, 403);
+  }
+  const token = requestTokens.get(req);
+  if (token && !tokenAllowsCommand(token, cmd)) {
+    return json({ ok: false, error: `Token "${token.name}" is not scoped for ${cmd}` }, 403);
+  }
 
+  // Read-only commands are not audited; job-backed ones are audited when their job finishes.
+  if (required === "viewer" || CONSOLE_JOB_COMMANDS.has(cmd)) return runConsoleCommand(req, cmd, arg);
+  return audited(req, `console.${cmd}`, consoleAuditArgs(cmd, arg), () => runConsoleCommand(req, cmd, arg));
+}
+
+// Console commands that run as jobs.
+const CONSOLE_JOB_COMMANDS = new Set(["gateway.restart", "openclaw.doctor", "openclaw.config.try"]);
+
+// Config values are keyed by their config path so the audit log redacts secret keys (e.g. "...botToken").
+function consoleAuditArgs(cmd: string, arg: string): Record<string, unknown> {
+  if (cmd !== "openclaw.config.set" && cmd !== "openclaw.config.try") return arg ? { arg } : {};
+  const [key, value] = configSetArgs(arg) ?? [arg, ""];
+  return { set: { [key]: value } };
+}
+
+// "<key> <value>" for `openclaw config set`: everything after the key is one value, spaces included.
+function configSetArgs(arg: string): [string, string] | null {
+  const match = arg.trim().match(/^(\S+)\s+([\s\S]+)$/);
+  return match ? [match[1], match[2]] : null;
+}
+
+async function runConsoleCommand(req: Request, cmd: string, arg: string): Promise<Response> {
   try {
     if (cmd === "gateway.restart") {
-      await restartGateway();
-      return json({ ok: true, output: "Gateway restarted (wrapper-managed). Circuit breaker reset.\n" });
+      return respondWithJob(
+        req,
+        cmd,
+        async () => {
+          const r = await restartGateway();
+          return {
+            ok: r.ok,
+            output: r.ok
+              ? "Gateway restarted (wrapper-managed). Circuit breaker reset.\n"
+              : `Gateway restart failed: ${r.reason}\n`,
+          };
+        },
+        { audit: { action: `console.${cmd}` } }
+      );
     }
     if (cmd === "gateway.stop") {
       await stopGateway();
       return json({ ok: true, output: "Gateway stopped (wrapper-managed).\n" });
     }
     if (cmd === "gateway.start") {
-      const r = await ensureGatewayRunning();
+      const r = await ensureGatewayRunning({ manual: true });
       return json({
         ok: Boolean(r.ok),
         output: r.ok ? "Gateway started.\n" : `Gateway not started: ${r.reason}\n`,
@@ -434,11 +1020,22 @@ async function handleApiConsoleRun(req: Request): Promise<Response> {
       return json({ ok: true, output: "Circuit breaker reset. You can now try starting the gateway.\n" });
     }
 
+    if (cmd === "openclaw.doctor") {
+      return respondWithJob(
+        req,
+        cmd,
+        async () => {
+          const r = await runCmd(OPENCLAW_NODE, clawArgs(["doctor"]));
+          return { ok: r.code === 0, output: redactSecrets(r.output) };
+        },
+        { audit: { action: `console.${cmd}` } }
+      );
+    }
+
     const cmdMap: Record<string, string[]> = {
       "openclaw.version": ["--version"],
       "openclaw.status": ["status"],
       "openclaw.health": ["health"],
-      "openclaw.doctor": ["doctor"],
     };
 
     if (cmdMap[cmd]) {
@@ -460,12 +1057,35 @@ async function handleApiConsoleRun(req: Request): Promise<Response> {
 
     if (cmd === "openclaw.config.set") {
       if (!arg) return json({ ok: false, error: "Missing config key=value (e.g. gateway.auth.mode token)" }, 400);
-      const parts = arg.split(/\s+/);
-      if (parts.length < 2) return json({ ok: false, error: "Usage: key value" }, 400);
+      const parts = configSetArgs(arg);
+      if (!parts) return json({ ok: false, error: "Usage: key value" }, 400);
       const r = await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", ...parts]));
+      if (r.code === 0) configRevision(req, `Set ${parts[0]}`);
       return json({ ok: r.code === 0, output: redactSecrets(r.output) }, r.code === 0 ? 200 : 500);
     }
 
+    if (cmd === "openclaw.config.try") {
+      const parts = configSetArgs(arg);
+      if (!parts) return json({ ok: false, error: "Usage: key value" }, 400);
+      const conflict = configJobConflict();
+      if (conflict) return conflict;
+      const author = requestUser(req).username;
+      return respondWithJob(
+        req,
+        cmd,
+        () =>
+          tryConfigChange(
+            async () => {
+              const r = await runCmd(OPENCLAW_NODE, clawArgs(["config", "set", ...parts]));
+              const revision = r.code === 0 ? recordConfigRevision(author, `Set ${parts[0]}`) : null;
+              return { ok: r.code === 0, output: redactSecrets(r.output), revision };
+            },
+            { label: `Set ${parts[0]}` }
+          ),
+        { cancellable: false, audit: { action: `console.${cmd}`, args: consoleAuditArgs(cmd, arg) } }
+      );
+    }
+
     if (cmd === "openclaw.pairing.list") {
       const channel = arg || "discord";
       const r = await runCmd(OPENCLAW_NODE, clawArgs(["pairing", "list", channel]));
@@ -523,41 +1143,359 @@ async function handleApiConsoleRun(req: Request): Promise<Response> {
 }
 
 async function handleApiConfigRaw(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+  const authErr = checkSetupAuth(req, "admin");
   if (authErr) return authErr;
 
   try {
     const p = configPath();
     const { exists, content } = readConfigFile(p);
-    return json({ ok: true, path: p, exists, content });
+    return json({ ok: true, path: p, exists, content: maskConfigText(content) });
   } catch (err) {
     return json({ ok: false, error: String(err) }, 500);
   }
 }
 
 async function handleApiConfigRawPost(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+  const authErr = checkSetupAuth(req, "admin");
   if (authErr) return authErr;
 
-  try {
-    const payload = await parseJsonBody<ConfigRawPayload>(req);
-    const content = String(payload.content || "");
+  const payload = await readJsonBody<ConfigRawPayload>(req);
+  if (payload instanceof Response) return payload;
+  if (payload.try === true) return handleConfigTry(req, payload);
+
+  return audited(req, "config.raw.save", { path: configPath() }, async () => {
+    try {
+      const content = unmaskConfigContent(String(payload.content || ""));
+      if (content instanceof Response) return content;
+      const rejected = await checkRawConfig(content, payload.doctor === true);
+      if (rejected instanceof Response) return rejected;
+
+      const p = configPath();
+      const message = String(payload.message ?? "").trim() || "Edited the raw config";
+      const revision = writeConfigFile(p, content, { author: requestUser(req).username, message });
+
+      if (isConfigured()) {
+        await restartGateway();
+      }
 
-    if (content.length > 500_000) {
-      return json({ ok: false, error: "Config too large" }, 413);
+      return json({ ok: true, path: p, revision, warnings: rejected.warnings });
+    } catch (err) {
+      return json({ ok: false, error: String(err) }, 500);
     }
+  });
+}
 
-    const p = configPath();
-    writeConfigFile(p, content);
+// The editor shows credentials as a placeholder; put the saved values back before the text is checked or written.
+function unmaskConfigContent(content: string): string | Response {
+  const restored = restoreMaskedConfig(content, readConfigFile(configPath()).content || null);
+  return restored.ok ? restored.content : json({ ok: false, error: restored.error }, 400);
+}
 
-    if (isConfigured()) {
-      await restartGateway();
+// Nothing reaches disk (or the gateway) unless it parses and matches the schema. Returns the validation, or an
+// error response.
+async function checkRawConfig(content: string, doctor: boolean): Promise<ConfigValidation | Response> {
+  if (content.length > 500_000) {
+    return json({ ok: false, error: "Config too large" }, 413);
+  }
+  const validation = await validateConfig(content, doctor);
+  if (!validation.ok) {
+    return json({ ...validation, error: validation.errors[0].message }, 400);
+  }
+  return validation;
+}
+
+// Save raw config as a job that restarts the gateway and puts the previous config back if it does not stay up.
+async function handleConfigTry(req: Request, payload: ConfigRawPayload): Promise<Response> {
+  const args = { path: configPath() };
+  const unmasked = unmaskConfigContent(String(payload.content || ""));
+  const content = unmasked instanceof Response ? "" : unmasked;
+  const grace = payload.graceSeconds === undefined ? null : Number(payload.graceSeconds);
+  const rejected =
+    grace !== null && !(Number.isInteger(grace) && grace >= 5 && grace <= 600)
+      ? json({ ok: false, error: "graceSeconds must be a whole number between 5 and 600" }, 400)
+      : unmasked instanceof Response
+        ? unmasked
+        : configJobConflict() ?? (await checkRawConfig(content, payload.doctor === true));
+  if (rejected instanceof Response) {
+    const body = (await rejected.clone().json()) as { error?: string };
+    audit(req, "config.try", "failure", args, body.error);
+    return rejected;
+  }
+
+  const author = requestUser(req).username;
+  const message = String(payload.message ?? "").trim() || "Edited the raw config";
+  const warnings = rejected.warnings;
+  return respondWithJob(
+    req,
+    "config.try",
+    async () => {
+      const trial = await tryConfigChange(
+        async () => ({ ok: true, output: "", revision: writeConfigFile(configPath(), content, { author, message }) }),
+        { label: message, graceMs: grace === null ? undefined : grace * 1000 }
+      );
+      return { ...trial, warnings };
+    },
+    { cancellable: false, audit: { action: "config.try", args } }
+  );
+}
+
+// A tried config must not overlap setup, an import or another trial, which all rewrite the config file too.
+function configJobConflict(): Response | null {
+  const busy = activeJobs().find((job) =>
+    ["onboard", "import", "config.try", "openclaw.config.try"].includes(job.kind)
+  );
+  return busy ? json({ ok: false, error: `Wait for the running ${busy.kind} job to finish` }, 409) : null;
+}
+
+// The config file parsed into a tree; a missing file is an empty config.
+function readConfigTree(): { ok: true; exists: boolean; tree: unknown } | { ok: false; error: string } {
+  const { exists, content } = readConfigFile(configPath());
+  if (!exists) return { ok: true, exists, tree: {} };
+  const parsed = parseJson5(content);
+  if (!parsed.ok) return { ok: false, error: `Config does not parse: ${parsed.error}` };
+  return { ok: true, exists, tree: parsed.value };
+}
+
+async function handleApiConfigTree(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const current = readConfigTree();
+  if (!current.ok) return json({ ok: false, error: current.error }, 500);
+  return json({ ok: true, path: configPath(), exists: current.exists, tree: maskConfigTree(current.tree) });
+}
+
+// Apply JSON-pointer patch operations, validate the result like a raw save, then write it and restart the gateway.
+async function handleApiConfigTreePatch(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const payload = await readJsonBody<ConfigTreePayload>(req);
+  if (payload instanceof Response) return payload;
+  // Only the operations and paths are audited; values may be secrets.
+  const ops = Array.isArray(payload.ops) ? (payload.ops as Array<Partial<ConfigPatchOp>>) : [];
+  const args = { ops: ops.map((op) => `${op?.op} ${op?.path}`) };
+  return audited(req, "config.tree.patch", args, async () => {
+    try {
+      const conflict = configJobConflict();
+      if (conflict) return conflict;
+      const current = readConfigTree();
+      if (!current.ok) return json({ ok: false, error: current.error }, 409);
+
+      const patched = applyConfigPatch(current.tree, payload.ops);
+      if (!patched.ok || !patched.config) return json({ ok: false, error: patched.error }, 400);
+      const content = `${JSON.stringify(patched.config, null, 2)}\n`;
+      const rejected = await checkRawConfig(content, false);
+      if (rejected instanceof Response) return rejected;
+
+      const p = configPath();
+      const message = String(payload.message ?? "").trim() || `Edited ${patched.changed?.join(", ")}`;
+      const revision = writeConfigFile(p, content, { author: requestUser(req).username, message });
+      const gateway = isConfigured() ? await restartGateway() : null;
+      return json({
+        ok: true,
+        path: p,
+        revision,
+        gateway,
+        tree: maskConfigTree(patched.config),
+        warnings: rejected.warnings,
+      });
+    } catch (err) {
+      return json({ ok: false, error: String(err) }, 500);
     }
+  });
+}
 
-    return json({ ok: true, path: p });
-  } catch (err) {
-    return json({ ok: false, error: String(err) }, 500);
+// Check config text without saving it: parse errors, schema errors and, with `doctor: true`, an openclaw doctor run.
+async function handleApiConfigValidate(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const payload = await readJsonBody<ConfigRawPayload>(req);
+  if (payload instanceof Response) return payload;
+  const content = unmaskConfigContent(String(payload.content || ""));
+  if (content instanceof Response) return content;
+  if (content.length > 500_000) {
+    return json({ ok: false, error: "Config too large" }, 413);
+  }
+  return json(await validateConfig(content, payload.doctor === true));
+}
+
+function revisionIdFromPath(req: Request): number {
+  return Number(new URL(req.url).pathname.split("/")[5]);
+}
+
+async function handleApiConfigHistory(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  captureExternalConfigChange();
+  return json({ ok: true, revisions: listConfigRevisions() });
+}
+
+async function handleApiConfigRevision(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const revision = getConfigRevision(revisionIdFromPath(req));
+  if (!revision) return json({ ok: false, error: "Revision not found" }, 404);
+  const content = revision.content === null ? null : maskConfigText(revision.content);
+  return json({ ok: true, revision: { ...revision, content } });
+}
+
+// ?from=<id>&to=<id>; `to` defaults to the config file as it is now and `from` to the revision before `to`.
+async function handleApiConfigDiff(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  captureExternalConfigChange();
+  const params = new URL(req.url).searchParams;
+  const revisions = listConfigRevisions();
+  const toId = params.get("to") ? Number(params.get("to")) : revisions[0]?.id;
+  const to = toId === undefined ? null : getConfigRevision(toId);
+  if (!to) return json({ ok: false, error: "Revision not found" }, 404);
+  const fromId = params.get("from") ? Number(params.get("from")) : revisions.find((r) => r.id < to.id)?.id;
+  const from = fromId === undefined ? null : getConfigRevision(fromId);
+  if (params.get("from") && !from) return json({ ok: false, error: "Revision not found" }, 404);
+
+  const fromLabel = from ? `revision ${from.id}` : "(none)";
+  // Both sides are masked first, so old credentials that are no longer in the config do not show either.
+  const [before, after] = [from?.content, to.content].map((content) => (content ? maskConfigText(content) : null));
+  const diff = diffConfigText(before, after, fromLabel, `revision ${to.id}`);
+  return json({ ok: true, from: from?.id ?? null, to: to.id, diff });
+}
+
+async function handleApiConfigRestore(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const id = revisionIdFromPath(req);
+  return audited(req, "config.restore", { revision: id }, async () => {
+    const target = getConfigRevision(id);
+    if (!target) return json({ ok: false, error: "Revision not found" }, 404);
+    const conflict = configJobConflict();
+    if (conflict) return conflict;
+
+    try {
+      const author = requestUser(req).username;
+      const message = `Restored revision ${id}`;
+      let revision: ConfigRevisionSummary | null;
+      if (target.content === null) {
+        captureExternalConfigChange();
+        deleteConfigFile(configPath());
+        revision = recordConfigRevision(author, message);
+      } else {
+        revision = writeConfigFile(configPath(), target.content, { author, message });
+      }
+      const gateway = isConfigured() ? await restartGateway() : null;
+      return json({ ok: true, restored: id, revision, gateway });
+    } catch (err) {
+      return json({ ok: false, error: String(err) }, 500);
+    }
+  });
+}
+
+function jobIdFromPath(req: Request): string {
+  return decodeURIComponent(new URL(req.url).pathname.split("/")[4] ?? "");
+}
+
+async function handleApiJobsList(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
+
+  return json({ ok: true, jobs: listJobs() });
+}
+
+async function handleApiJobGet(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
+
+  const job = getJob(jobIdFromPath(req));
+  if (!job) return json({ ok: false, error: "Job not found" }, 404);
+  return json({ ok: true, job });
+}
+
+async function handleApiJobCancel(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "operator");
+  if (authErr) return authErr;
+
+  const result = cancelJob(jobIdFromPath(req));
+  if (!result.ok) {
+    return json(result, result.error === "Job not found" ? 404 : 409);
+  }
+  return json(result);
+}
+
+async function handleApiJobArtifact(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const job = getJob(jobIdFromPath(req));
+  if (!job?.artifact || job.status !== "succeeded") {
+    return json({ ok: false, error: "No download available for this job" }, 404);
+  }
+  const file = Bun.file(path.join(JOBS_DIR, job.artifact));
+  if (!(await file.exists())) {
+    return json({ ok: false, error: "Download has expired" }, 410);
   }
+  return new Response(file, {
+    headers: {
+      "Content-Type": "application/gzip",
+      "Content-Disposition": `attachment; filename="${job.artifact}"`,
+    },
+  });
+}
+
+async function handleApiJobEvents(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req);
+  if (authErr) return authErr;
+
+  const url = new URL(req.url);
+  const id = jobIdFromPath(req);
+  if (!getJob(id)) {
+    return json({ ok: false, error: "Job not found" }, 404);
+  }
+
+  // EventSource resends the last seen id on reconnect; ?after= lets a reloaded page resume.
+  const after = Number.parseInt(req.headers.get("last-event-id") ?? url.searchParams.get("after") ?? "-1", 10);
+  const encoder = new TextEncoder();
+  let cleanup = (): void => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": ping\n\n")), SSE_HEARTBEAT_MS);
+      const close = (): void => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      };
+      const unsubscribe = subscribeJob(id, Number.isNaN(after) ? -1 : after, (event) => {
+        if (closed) return;
+        const data = maskKnownSecrets(JSON.stringify(event));
+        controller.enqueue(encoder.encode(`id: ${event.seq}\nevent: ${event.type}\ndata: ${data}\n\n`));
+        if (event.type === "done") queueMicrotask(close);
+      });
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    },
+  });
 }
 
 async function handleApiPairingList(req: Request): Promise<Response> {
@@ -566,7 +1504,7 @@ async function handleApiPairingList(req: Request): Promise<Response> {
 
   const url = new URL(req.url);
   const channel = url.searchParams.get("channel")?.trim() || "";
-  const channels = channel ? [channel] : ["discord", "telegram", "slack", "whatsapp", "signal", "imessage"];
+  const channels = channel ? [channel] : pairingChannelNames();
 
   // Run all channel queries in parallel for faster response
   const channelResults = await Promise.all(
@@ -607,10 +1545,11 @@ async function handleApiPairingList(req: Request): Promise<Response> {
 }
 
 async function handleApiPairingApprove(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+  const authErr = checkSetupAuth(req, "operator");
   if (authErr) return authErr;
 
-  const payload = await parseJsonBody<PairingApprovePayload>(req);
+  const payload = await readJsonBody<PairingApprovePayload>(req);
+  if (payload instanceof Response) return payload;
   const channel = String(payload.channel ?? "").trim();
   const code = String(payload.code ?? "").trim();
 
@@ -618,26 +1557,237 @@ async function handleApiPairingApprove(req: Request): Promise<Response> {
     return json({ ok: false, error: "Missing channel or code" }, 400);
   }
 
-  const r = await runCmd(OPENCLAW_NODE, clawArgs(["pairing", "approve", String(channel), String(code)]));
-  return json({ ok: r.code === 0, output: r.output }, r.code === 0 ? 200 : 500);
+  return audited(req, "pairing.approve", { channel, code }, async () => {
+    const r = await runCmd(OPENCLAW_NODE, clawArgs(["pairing", "approve", String(channel), String(code)]));
+    return json({ ok: r.code === 0, output: redactSecrets(r.output) }, r.code === 0 ? 200 : 500);
+  });
 }
 
-async function handleApiReset(req: Request): Promise<Response> {
+function usernameFromPath(req: Request): string {
+  const match = new URL(req.url).pathname.match(/^\/setup\/api\/users\/([^/]+)$/);
+  return match ? decodeURIComponent(match[1]).trim() : "";
+}
+
+async function handleApiUsersList(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  return json({ ok: true, users: listUsers(), setupPasswordEnabled: Boolean(SETUP_PASSWORD) });
+}
+
+async function handleApiUserCreate(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const payload = await readJsonBody<UserPayload>(req);
+  if (payload instanceof Response) return payload;
+  const username = String(payload.username ?? "").trim();
+  const result = createUser(username, String(payload.password ?? ""), String(payload.role ?? ""));
+  audit(req, "user.create", result.ok ? "success" : "failure", { username, role: payload.role }, result.error);
+  if (!result.ok) return json(result, result.error === "User already exists" ? 409 : 400);
+  console.log(`[users] ${requestUser(req).username} created ${result.user?.username} (${result.user?.role})`);
+  return json(result, 201);
+}
+
+async function handleApiUserUpdate(req: Request): Promise<Response> {
+  // Anyone signed in may change their own password; everything else needs admin.
   const authErr = checkSetupAuth(req);
   if (authErr) return authErr;
 
-  try {
-    deleteConfigFile(configPath());
-    return text("OK - deleted config file. You can rerun setup now.");
-  } catch (err) {
-    return text(String(err), 500);
+  const username = usernameFromPath(req);
+  const payload = await readJsonBody<UserPayload>(req);
+  if (payload instanceof Response) return payload;
+  const user = requestUser(req);
+  const self = !user.builtin && user.username.toLowerCase() === username.toLowerCase();
+  if (!hasRole(user.role, "admin") && (!self || payload.role !== undefined)) {
+    return forbidden(user, "admin");
   }
+
+  const result = updateUser(username, {
+    password: payload.password === undefined ? undefined : String(payload.password),
+    role: payload.role === undefined ? undefined : String(payload.role),
+  });
+  const changes = { username, role: payload.role, passwordChanged: payload.password !== undefined };
+  audit(req, "user.update", result.ok ? "success" : "failure", changes, result.error);
+  if (!result.ok) return json(result, result.error === "User not found" ? 404 : 400);
+  // A new password signs the user out everywhere except the session that changed it.
+  if (payload.password !== undefined) destroyUserSessions(username, requestSessions.get(req)?.id);
+  console.log(`[users] ${user.username} updated ${result.user?.username}`);
+  return json(result);
 }
 
-async function handleExport(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+async function handleApiUserDelete(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
   if (authErr) return authErr;
 
+  const username = usernameFromPath(req);
+  const result = deleteUser(username);
+  audit(req, "user.delete", result.ok ? "success" : "failure", { username }, result.error);
+  if (!result.ok) return json(result, result.error === "User not found" ? 404 : 400);
+  destroyUserSessions(username);
+  console.log(`[users] ${requestUser(req).username} deleted ${username}`);
+  return json(result);
+}
+
+// Tokens cannot mint or revoke tokens, so a leaked token cannot outlive its own revocation.
+function tokenManagementDenied(req: Request): Response | null {
+  return requestTokens.has(req) ? json({ ok: false, error: "API tokens cannot manage API tokens" }, 403) : null;
+}
+
+async function handleApiTokensList(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin") ?? tokenManagementDenied(req);
+  if (authErr) return authErr;
+
+  return json({ ok: true, tokens: listApiTokens() });
+}
+
+async function handleApiTokenCreate(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin") ?? tokenManagementDenied(req);
+  if (authErr) return authErr;
+
+  const payload = await readJsonBody<ApiTokenPayload>(req);
+  if (payload instanceof Response) return payload;
+  const user = requestUser(req);
+  const result = createApiToken(
+    String(payload.name ?? "").trim(),
+    String(payload.role ?? ""),
+    payload.scopes,
+    payload.expiresInDays,
+    user.username
+  );
+  const { name, role, scopes: requested, expiresInDays } = payload;
+  const tokenArgs = { name, role, scopes: requested, expiresInDays };
+  audit(req, "token.create", result.ok ? "success" : "failure", tokenArgs, result.error);
+  if (!result.ok) return json(result, result.error === "A token with this name already exists" ? 409 : 400);
+  const scopes = result.token?.scopes.join(", ");
+  console.log(`[tokens] ${user.username} created token "${result.token?.name}" (${result.token?.role}: ${scopes})`);
+  return json(result, 201);
+}
+
+async function handleApiTokenRevoke(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin") ?? tokenManagementDenied(req);
+  if (authErr) return authErr;
+
+  const id = decodeURIComponent(new URL(req.url).pathname.split("/").pop() ?? "");
+  const result = revokeApiToken(id);
+  audit(req, "token.revoke", result.ok ? "success" : "failure", { id, name: result.token?.name }, result.error);
+  if (!result.ok) return json(result, 404);
+  console.log(`[tokens] ${requestUser(req).username} revoked token "${result.token?.name}"`);
+  return json(result);
+}
+
+// The generated secret is the one value this response exists to carry, so it skips maskKnownSecrets; no-store
+// keeps it out of caches.
+function revealOnce(data: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+function generatePassword(): string {
+  return crypto.randomBytes(18).toString("base64url");
+}
+
+// Replace a credential with a generated one and return it once: the gateway token, the setup password or a stored
+// user's password. Sessions signed in with a replaced password end, except the one making the request.
+async function handleApiSecretRotate(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+  if (requestTokens.has(req)) return json({ ok: false, error: "API tokens cannot rotate credentials" }, 403);
+
+  const payload = await readJsonBody<SecretRotatePayload>(req);
+  if (payload instanceof Response) return payload;
+  const secret = String(payload.secret ?? "");
+  const username = secret === "user-password" ? String(payload.username ?? "").trim() : undefined;
+  const actor = requestUser(req).username;
+  const sessionId = requestSessions.get(req)?.id;
+  // Recorded as "kind": an argument named "secret" would be redacted from the audit entry.
+  return audited(req, "secrets.rotate", { kind: secret, username }, async () => {
+    switch (secret as RotatableSecret) {
+      case "gateway-token": {
+        if (GATEWAY_TOKEN_FROM_ENV) {
+          const error = "The gateway token is set by OPENCLAW_GATEWAY_TOKEN; change that variable to rotate it";
+          return json({ ok: false, error }, 409);
+        }
+        const conflict = configJobConflict();
+        if (conflict) return conflict;
+        const result = await rotateGatewayToken();
+        if (!result.ok) return json({ ok: false, error: result.error }, 500);
+        configRevision(req, "Rotated the gateway token");
+        console.log(`[secrets] ${actor} rotated the gateway token`);
+        return revealOnce({ ok: true, secret, value: result.token, gateway: result.gateway });
+      }
+      case "setup-password": {
+        if (!SETUP_PASSWORD) return json({ ok: false, error: "SETUP_PASSWORD is not set" }, 409);
+        const password = generatePassword();
+        setSetupPassword(password);
+        // Cached Basic logins may hold the old password.
+        verifiedLogins.clear();
+        destroySetupPasswordSessions(sessionId);
+        console.log(`[secrets] ${actor} rotated the setup password`);
+        return revealOnce({ ok: true, secret, value: password });
+      }
+      case "user-password": {
+        const password = generatePassword();
+        const result = updateUser(username ?? "", { password });
+        if (!result.ok) return json(result, result.error === "User not found" ? 404 : 400);
+        destroyUserSessions(username ?? "", sessionId);
+        console.log(`[secrets] ${actor} rotated the password of ${result.user?.username}`);
+        return revealOnce({ ok: true, secret, username: result.user?.username, value: password });
+      }
+      default:
+        return json({ ok: false, error: "secret must be gateway-token, setup-password or user-password" }, 400);
+    }
+  });
+}
+
+// Accepts epoch milliseconds or anything Date.parse understands (e.g. "2026-01-31" or a full ISO timestamp).
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+}
+
+async function handleApiAudit(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  const params = new URL(req.url).searchParams;
+  const outcome = params.get("outcome");
+  if (outcome && outcome !== "success" && outcome !== "failure") {
+    return json({ ok: false, error: "outcome must be success or failure" }, 400);
+  }
+  const query: AuditQuery = {
+    action: params.get("action") || undefined,
+    actor: params.get("actor") || undefined,
+    outcome: (outcome as AuditOutcome) || undefined,
+    q: params.get("q") || undefined,
+    since: parseTime(params.get("since")),
+    until: parseTime(params.get("until")),
+    offset: Number(params.get("offset")) || 0,
+    limit: Number(params.get("limit")) || undefined,
+  };
+  return json({ ok: true, ...queryAudit(query) });
+}
+
+async function handleApiReset(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
+
+  return audited(req, "setup.reset", { path: configPath() }, async () => {
+    try {
+      captureExternalConfigChange();
+      deleteConfigFile(configPath());
+      configRevision(req, "Reset setup");
+      return text("OK - deleted config file. You can rerun setup now.");
+    } catch (err) {
+      return text(String(err), 500);
+    }
+  });
+}
+
+/** Write a gzipped tarball of the state and workspace dirs (excluding job records) to `file`. */
+async function writeBackup(file: string): Promise<void> {
   ensureDirectories();
 
   const stateAbs = path.resolve(STATE_DIR);
@@ -658,103 +1808,153 @@ async function handleExport(req: Request): Promise<Response> {
 
   paths = Array.from(new Set(paths));
 
-  // Create tar stream directly to buffer
-  const chunks: Buffer[] = [];
-  const stream = tar.c({ gzip: true, portable: true, noMtime: true, cwd, onwarn: () => {} }, paths);
-
-  return new Promise((resolve) => {
-    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
-    stream.on("end", () => {
-      const buffer = Buffer.concat(chunks);
-      resolve(
-        new Response(buffer, {
-          headers: {
-            "Content-Type": "application/gzip",
-            "Content-Disposition": `attachment; filename="openclaw-backup-${new Date().toISOString().replace(/[:.]/g, "-")}.tar.gz"`,
-          },
-        })
-      );
-    });
-    stream.on("error", (err: unknown) => {
-      console.error("[export]", err);
-      resolve(text(String(err), 500));
-    });
-  });
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  await tar.c(
+    {
+      gzip: true,
+      portable: true,
+      noMtime: true,
+      cwd,
+      file,
+      onwarn: () => {},
+      // Job records, earlier exports, login sessions, the audit log and config history are not part of a backup, and
+      // neither are credentials: the session signing key, a rotated setup password and everything in credentials/.
+      filter: (p: string) => {
+        const abs = path.resolve(cwd, p);
+        if (isUnderDir(abs, JOBS_DIR) || isUnderDir(abs, HISTORY_DIR)) return false;
+        if (isUnderDir(abs, path.join(stateAbs, "credentials"))) return false;
+        const excluded = [SESSIONS_FILE, SESSION_KEY_FILE, SETUP_PASSWORD_FILE].map((f) => path.join(stateAbs, f));
+        return !excluded.includes(abs) && abs !== AUDIT_PATH;
+      },
+    },
+    paths
+  );
 }
 
-async function handleImport(req: Request): Promise<Response> {
-  const authErr = checkSetupAuth(req);
+async function handleExport(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
   if (authErr) return authErr;
 
-  let tmpPath: string | null = null;
+  const artifact = `openclaw-backup-${new Date().toISOString().replace(/[:.]/g, "-")}.tar.gz`;
+  const { job, done } = startJob(
+    "export",
+    async () => {
+      jobPhase("creating backup");
+      await writeBackup(path.join(JOBS_DIR, artifact));
+      const size = fs.statSync(path.join(JOBS_DIR, artifact)).size;
+      return { ok: true, output: `Backup ready (${size} bytes).\n` };
+    },
+    { artifact }
+  );
+  auditJob(req, { action: "backup.export" }, job.id, done);
+
+  // ?wait=1 keeps the old behaviour for scripts: block, then send the file.
+  if (new URL(req.url).searchParams.get("wait") !== "1") {
+    done.catch(() => {});
+    return jobAccepted(job);
+  }
   try {
-    const dataRoot = "/data";
+    await done;
+  } catch (err) {
+    console.error("[export]", err);
+    return text(String(err), 500);
+  }
+  return new Response(Bun.file(path.join(JOBS_DIR, artifact)), {
+    headers: {
+      "Content-Type": "application/gzip",
+      "Content-Disposition": `attachment; filename="${artifact}"`,
+    },
+  });
+}
 
-    if (!isUnderDir(STATE_DIR, dataRoot) || !isUnderDir(WORKSPACE_DIR, dataRoot)) {
-      return text(
-        "Import is only supported when OPENCLAW_STATE_DIR and OPENCLAW_WORKSPACE_DIR are under /data (Railway volume).\n",
-        400
-      );
-    }
+async function handleImport(req: Request): Promise<Response> {
+  const authErr = checkSetupAuth(req, "admin");
+  if (authErr) return authErr;
 
-    await stopGateway();
+  const dataRoot = "/data";
 
-    const contentLength = Number(req.headers.get("content-length") ?? 0);
-    if (contentLength && contentLength > MAX_IMPORT_BYTES) {
-      return text("Payload too large\n", 413);
-    }
+  if (!isUnderDir(STATE_DIR, dataRoot) || !isUnderDir(WORKSPACE_DIR, dataRoot)) {
+    return text(
+      "Import is only supported when OPENCLAW_STATE_DIR and OPENCLAW_WORKSPACE_DIR are under /data (Railway volume).\n",
+      400
+    );
+  }
 
+  const contentLength = Number(req.headers.get("content-length") ?? 0);
+  if (contentLength && contentLength > MAX_IMPORT_BYTES) {
+    return text("Payload too large\n", 413);
+  }
+
+  // The upload has to be read while the request is open; extraction runs as a job.
+  let tmpPath: string;
+  try {
     const buf = Buffer.from(await req.arrayBuffer());
     if (!buf.length) {
       return text("Empty body\n", 400);
     }
-
     tmpPath = path.join(os.tmpdir(), `openclaw-import-${Date.now()}.tar.gz`);
     fs.writeFileSync(tmpPath, buf);
-
-    await tar.x({
-      file: tmpPath,
-      cwd: dataRoot,
-      gzip: true,
-      strict: true,
-      onwarn: () => {},
-      filter: (p: string, entry) => {
-        if (!looksSafeTarPath(p)) return false;
-        const type = (entry as { type?: string })?.type;
-        return type === "File" || type === "Directory";
-      },
-    });
-
-    // Validate the config file after extraction — remove it if empty/corrupt
-    // to prevent gateway crash loops.
-    const cfgPath = configPath();
-    if (fs.existsSync(cfgPath)) {
-      const content = fs.readFileSync(cfgPath, "utf-8").trim();
-      if (!content || content.length < 3) {
-        console.warn("[import] config file is empty after extraction, removing");
-        fs.rmSync(cfgPath, { force: true });
-      }
-    }
-
-    if (isConfigured()) {
-      await restartGateway();
-    }
-
-    return text("OK - imported backup into /data and restarted gateway.\n");
   } catch (err) {
     console.error("[import]", err);
     const message = err instanceof Error ? err.message : String(err);
     const status = message.includes("payload too large") ? 413 : 500;
     return text(message, status);
-  } finally {
-    if (tmpPath) {
+  }
+
+  return respondWithJob(
+    req,
+    "import",
+    async () => {
       try {
-        fs.rmSync(tmpPath, { force: true });
-      } catch {
-        // Ignore temp cleanup errors.
+        jobPhase("stopping gateway");
+        await stopGateway();
+
+        jobPhase("extracting backup");
+        captureExternalConfigChange();
+        await tar.x({
+          file: tmpPath,
+          cwd: dataRoot,
+          gzip: true,
+          strict: true,
+          onwarn: () => {},
+          filter: (p: string, entry) => {
+            if (!looksSafeTarPath(p)) return false;
+            // An old backup must not rewrite the audit log or config history.
+            const abs = path.resolve(dataRoot, p);
+            if (abs === AUDIT_PATH || isUnderDir(abs, HISTORY_DIR)) return false;
+            const type = (entry as { type?: string })?.type;
+            return type === "File" || type === "Directory";
+          },
+        });
+
+        // Validate the config file after extraction — remove it if empty/corrupt
+        // to prevent gateway crash loops.
+        const cfgPath = configPath();
+        if (fs.existsSync(cfgPath)) {
+          const content = fs.readFileSync(cfgPath, "utf-8").trim();
+          if (!content || content.length < 3) {
+            console.warn("[import] config file is empty after extraction, removing");
+            fs.rmSync(cfgPath, { force: true });
+          }
+        }
+        configRevision(req, "Imported a backup");
+
+        if (isConfigured()) {
+          await restartGateway();
+        }
+
+        return { ok: true, output: "OK - imported backup into /data and restarted gateway.\n" };
+      } finally {
+        try {
+          fs.rmSync(tmpPath, { force: true });
+        } catch {
+          // Ignore temp cleanup errors.
+        }
       }
-    }
-  }
+    },
+    // Stopping halfway through extraction would leave a mix of old and new state.
+    { cancellable: false, audit: { action: "backup.import", args: { bytes: contentLength || undefined } } }
+  );
 }
 
 // --- Gateway proxy ---
@@ -781,6 +1981,18 @@ const WS_STRIP_HEADERS = new Set([
   "host",
 ]);
 
+// The wrapper's login cookies are set with Path=/, so browsers send them to the Control UI too. They are only meant
+// for /setup and never reach the gateway.
+const WRAPPER_COOKIES = new Set([SESSION_COOKIE, CSRF_COOKIE, OIDC_STATE_COOKIE]);
+
+function stripWrapperCookies(header: string | null): string {
+  return (header ?? "")
+    .split(";")
+    .map((part) => part.trim())
+    .filter((part) => part && !WRAPPER_COOKIES.has(part.split("=", 1)[0].trim()))
+    .join("; ");
+}
+
 function buildProxyHeaders(
   req: Request,
   server: { requestIP: (req: Request) => { address: string } | null }
@@ -793,6 +2005,10 @@ function buildProxyHeaders(
     headers.delete(header);
   }
 
+  const cookie = stripWrapperCookies(headers.get("cookie"));
+  if (cookie) headers.set("cookie", cookie);
+  else headers.delete("cookie");
+
   const existingForwardedFor = headers.get("x-forwarded-for");
   const remoteIp = server.requestIP(req)?.address;
 
@@ -920,19 +2136,51 @@ const routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }>
   // Static UI files
   { method: "GET", pattern: /^\/setup$/, handler: handleSetupPage },
   { method: "GET", pattern: /^\/setup\/ui\/styles\.css$/, handler: handleSetupCss },
+  { method: "GET", pattern: /^\/setup\/login$/, handler: handleLoginPage },
+  { method: "GET", pattern: /^\/setup\/ui\/login\.js$/, handler: handleLoginJs },
+  { method: "GET", pattern: /^\/setup\/auth\/oidc\/login$/, handler: handleOidcLogin },
+  { method: "GET", pattern: /^\/setup\/auth\/oidc\/callback$/, handler: handleOidcCallback },
   { method: "GET", pattern: /^\/setup\/ui\/app\.js$/, handler: handleSetupJs },
   { method: "GET", pattern: /^\/setup\/app\.js$/, handler: handleSetupJs }, // Legacy
   
   // API endpoints
+  { method: "GET", pattern: /^\/setup\/api\/login$/, handler: handleApiLoginMethods },
+  { method: "POST", pattern: /^\/setup\/api\/login$/, handler: handleApiLogin },
+  { method: "POST", pattern: /^\/setup\/api\/logout$/, handler: handleApiLogout },
   { method: "GET", pattern: /^\/setup\/api\/status$/, handler: handleApiStatus },
   { method: "POST", pattern: /^\/setup\/api\/run$/, handler: handleApiRun },
   { method: "GET", pattern: /^\/setup\/api\/debug$/, handler: handleApiDebug },
   { method: "POST", pattern: /^\/setup\/api\/console\/run$/, handler: handleApiConsoleRun },
+  { method: "GET", pattern: /^\/setup\/api\/jobs$/, handler: handleApiJobsList },
+  { method: "GET", pattern: /^\/setup\/api\/jobs\/[^/]+$/, handler: handleApiJobGet },
+  { method: "POST", pattern: /^\/setup\/api\/jobs\/[^/]+\/cancel$/, handler: handleApiJobCancel },
+  { method: "GET", pattern: /^\/setup\/api\/jobs\/[^/]+\/artifact$/, handler: handleApiJobArtifact },
+  { method: "GET", pattern: /^\/setup\/api\/jobs\/[^/]+\/events$/, handler: handleApiJobEvents },
   { method: "GET", pattern: /^\/setup\/api\/config\/raw$/, handler: handleApiConfigRaw },
   { method: "POST", pattern: /^\/setup\/api\/config\/raw$/, handler: handleApiConfigRawPost },
+  { method: "GET", pattern: /^\/setup\/api\/config\/tree$/, handler: handleApiConfigTree },
+  { method: "POST", pattern: /^\/setup\/api\/config\/tree$/, handler: handleApiConfigTreePatch },
+  { method: "POST", pattern: /^\/setup\/api\/config\/validate$/, handler: handleApiConfigValidate },
+  { method: "GET", pattern: /^\/setup\/api\/config\/history$/, handler: handleApiConfigHistory },
+  { method: "GET", pattern: /^\/setup\/api\/config\/history\/diff$/, handler: handleApiConfigDiff },
+  { method: "GET", pattern: /^\/setup\/api\/config\/history\/\d+$/, handler: handleApiConfigRevision },
+  { method: "POST", pattern: /^\/setup\/api\/config\/history\/\d+\/restore$/, handler: handleApiConfigRestore },
+  { method: "GET", pattern: /^\/setup\/api\/channels$/, handler: handleApiChannelsList },
+  { method: "GET", pattern: /^\/setup\/api\/channels\/[^/]+$/, handler: handleApiChannelGet },
+  { method: "PUT", pattern: /^\/setup\/api\/channels\/[^/]+$/, handler: handleApiChannelPut },
+  { method: "DELETE", pattern: /^\/setup\/api\/channels\/[^/]+$/, handler: handleApiChannelDelete },
   { method: "GET", pattern: /^\/setup\/api\/pairing\/list$/, handler: handleApiPairingList },
   { method: "POST", pattern: /^\/setup\/api\/pairing\/approve$/, handler: handleApiPairingApprove },
   { method: "POST", pattern: /^\/setup\/api\/reset$/, handler: handleApiReset },
+  { method: "GET", pattern: /^\/setup\/api\/users$/, handler: handleApiUsersList },
+  { method: "POST", pattern: /^\/setup\/api\/users$/, handler: handleApiUserCreate },
+  { method: "PUT", pattern: /^\/setup\/api\/users\/[^/]+$/, handler: handleApiUserUpdate },
+  { method: "DELETE", pattern: /^\/setup\/api\/users\/[^/]+$/, handler: handleApiUserDelete },
+  { method: "GET", pattern: /^\/setup\/api\/tokens$/, handler: handleApiTokensList },
+  { method: "POST", pattern: /^\/setup\/api\/tokens$/, handler: handleApiTokenCreate },
+  { method: "DELETE", pattern: /^\/setup\/api\/tokens\/[^/]+$/, handler: handleApiTokenRevoke },
+  { method: "POST", pattern: /^\/setup\/api\/secrets\/rotate$/, handler: handleApiSecretRotate },
+  { method: "GET", pattern: /^\/setup\/api\/audit$/, handler: handleApiAudit },
   
   // Backup/restore
   { method: "GET", pattern: /^\/setup\/export$/, handler: handleExport },
@@ -959,6 +2207,7 @@ const server = Bun.serve<WsData>({
   hostname: "0.0.0.0",
 
   async fetch(req, server) {
+    requestIps.set(req, clientIp(req, server));
     const url = new URL(req.url);
     const pathname = url.pathname;
     const method = req.method;
@@ -969,8 +2218,10 @@ const server = Bun.serve<WsData>({
         return new Response("Not configured", { status: 503 });
       }
 
-      // Require auth for WebSocket connections (protects Control UI).
-      const wsAuthErr = checkSetupAuth(req);
+      // Require auth for WebSocket connections (protects Control UI, which can change config).
+      // Cookies ride along on cross-site WebSocket handshakes, so check the origin too.
+      if (!sameOrigin(req)) return text("Forbidden: cross-origin WebSocket", 403);
+      const wsAuthErr = checkSetupAuth(req, "admin", "origin");
       if (wsAuthErr) return wsAuthErr;
 
       try {
@@ -1005,10 +2256,10 @@ const server = Bun.serve<WsData>({
       return redirect("/setup");
     }
 
-    // Require auth for all proxied requests (protects Control UI).
+    // Require auth for all proxied requests (protects Control UI, which can change config).
     // Exempt /healthz which is a public health probe.
     if (pathname !== "/healthz") {
-      const dashAuthErr = checkSetupAuth(req);
+      const dashAuthErr = checkSetupAuth(req, "admin", "origin");
       if (dashAuthErr) return dashAuthErr;
     }
 
@@ -1145,7 +2396,18 @@ console.log(`[wrapper] listening on :${PORT}`);
 console.log(`[wrapper] state dir: ${STATE_DIR}`);
 console.log(`[wrapper] workspace dir: ${WORKSPACE_DIR}`);
 console.log(`[wrapper] gateway token: ${OPENCLAW_GATEWAY_TOKEN ? "(set)" : "(missing)"}`);
+console.log(`[wrapper] secret store: ${secretStoreEnabled() ? "enabled" : "disabled (set OPENCLAW_SECRETS_KEY)"}`);
 console.log(`[wrapper] gateway target: ${GATEWAY_TARGET}`);
+const supervisor = getSupervisorPolicy();
+console.log(
+  `[wrapper] gateway supervisor: restart=${supervisor.restart}, circuit opens after ` +
+    `${supervisor.maxCrashesInWindow} crashes in ${supervisor.crashWindowMs / 1000}s`
+);
+const redaction = redactionSummary();
+console.log(`[wrapper] redaction: ${redaction.builtin} built-in patterns, ${redaction.custom} custom`);
+if (redaction.uncovered.length > 0) {
+  console.warn(`[wrapper] WARNING: no redaction pattern for ${redaction.uncovered.join(", ")} credentials`);
+}
 
 if (DEV_MODE) {
   console.log("[wrapper] DEV_MODE: auth bypass enabled for /setup");
@@ -1153,13 +2415,20 @@ if (DEV_MODE) {
   console.warn("[wrapper] WARNING: SETUP_PASSWORD is not set; /setup will error.");
 }
 
-// Startup lifecycle: ensure directories, sync tokens/config, run bootstrap, auto-start gateway.
+// Startup lifecycle: ensure directories, provision from a manifest, sync tokens/config, run bootstrap, auto-start gateway.
 (async () => {
   try {
     ensureDirectories();
+    loadJobs();
+    await provisionFromManifest();
     await syncGatewayTokens();
     await syncGatewayConfig();
+    if (isConfigured()) {
+      const moved = await migrateChannelSecrets();
+      if (moved.length) console.log(`[secrets] moved ${moved.join(", ")} into the secret store`);
+    }
     await runBootstrapHook();
+    recordConfigRevision("wrapper", "Config at startup");
     if (isConfigured()) {
       console.log("[wrapper] auto-starting gateway (already configured)");
       await ensureGatewayRunning();
@@ -0,0 +1,175 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AuthUser, OidcIdentity, SessionRecord } from "./types.js";
+import { parseCookies } from "./utils.js";
+import { SESSION_IDLE_MS, SESSION_MAX_AGE_MS, STATE_DIR } from "./config.js";
+
+export const SESSION_COOKIE = "openclaw_session";
+export const CSRF_COOKIE = "openclaw_csrf";    // Readable by the setup UI so it can echo it back
+export const CSRF_HEADER = "x-csrf-token";
+export const SESSIONS_FILE = "sessions.json";
+export const SESSION_KEY_FILE = "session.key";
+
+const SESSIONS_PATH = path.join(STATE_DIR, SESSIONS_FILE);
+const SECRET_PATH = path.join(STATE_DIR, SESSION_KEY_FILE);
+const TOUCH_PERSIST_MS = 60_000;                 // lastSeenAt is written to disk at most this often
+
+let sessions: Map<string, SessionRecord> | null = null;
+let secret: Buffer | null = null;
+let lastPersist = 0;
+
+// Load (or create) the key that signs session cookies.
+function signingKey(): Buffer {
+  if (secret) return secret;
+  try {
+    const existing = fs.readFileSync(SECRET_PATH, "utf8").trim();
+    if (existing) return (secret = Buffer.from(existing, "hex"));
+  } catch {
+    // Generate a key below.
+  }
+  const generated = crypto.randomBytes(32);
+  try {
+    fs.mkdirSync(STATE_DIR, { recursive: true });
+    fs.writeFileSync(SECRET_PATH, generated.toString("hex"), { encoding: "utf8", mode: 0o600 });
+  } catch {
+    // Without persistence, sessions simply do not survive a restart.
+  }
+  return (secret = generated);
+}
+
+function sign(id: string): string {
+  return crypto.createHmac("sha256", signingKey()).update(id).digest("base64url");
+}
+
+function loadSessions(): Map<string, SessionRecord> {
+  if (sessions) return sessions;
+  sessions = new Map();
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(SESSIONS_PATH, "utf8"));
+    if (Array.isArray(parsed)) {
+      for (const record of parsed as SessionRecord[]) {
+        if (record?.id) sessions.set(record.id, record);
+      }
+    }
+  } catch {
+    // No sessions yet.
+  }
+  return sessions;
+}
+
+function persist(): void {
+  lastPersist = Date.now();
+  try {
+    fs.mkdirSync(STATE_DIR, { recursive: true });
+    fs.writeFileSync(SESSIONS_PATH, JSON.stringify([...loadSessions().values()], null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  } catch (err) {
+    console.warn(`[sessions] failed to persist sessions: ${String(err)}`);
+  }
+}
+
+function expired(session: SessionRecord, now: number): boolean {
+  return now - session.lastSeenAt > SESSION_IDLE_MS || now - session.createdAt > SESSION_MAX_AGE_MS;
+}
+
+/** Start a session for a signed-in user. `oidc` records the identity behind a single sign-on login. */
+export function createSession(user: AuthUser, oidc?: OidcIdentity): SessionRecord {
+  const now = Date.now();
+  const store = loadSessions();
+  // Drop expired sessions while we are writing anyway.
+  for (const [id, session] of store) {
+    if (expired(session, now)) store.delete(id);
+  }
+  const session: SessionRecord = {
+    id: crypto.randomBytes(24).toString("base64url"),
+    username: user.username,
+    builtin: user.builtin,
+    ...(oidc ? { oidc } : {}),
+    csrfToken: crypto.randomBytes(24).toString("base64url"),
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  store.set(session.id, session);
+  persist();
+  return session;
+}
+
+/** Find the live session named by the request's cookie, refreshing its idle timer. */
+export function readSession(req: Request): SessionRecord | null {
+  const value = parseCookies(req.headers.get("cookie"))[SESSION_COOKIE];
+  if (!value) return null;
+  const [id, signature] = value.split(".", 2);
+  if (!id || !signature) return null;
+  const expected = Buffer.from(sign(id));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  const store = loadSessions();
+  const session = store.get(id);
+  if (!session) return null;
+  const now = Date.now();
+  if (expired(session, now)) {
+    store.delete(id);
+    persist();
+    return null;
+  }
+  session.lastSeenAt = now;
+  if (now - lastPersist > TOUCH_PERSIST_MS) persist();
+  return session;
+}
+
+/** End one session. */
+export function destroySession(id: string): void {
+  if (loadSessions().delete(id)) persist();
+}
+
+/** End every session of a user, optionally keeping one (e.g. the session that changed the password). */
+export function destroyUserSessions(username: string, exceptId?: string): void {
+  const wanted = username.toLowerCase();
+  let changed = false;
+  for (const [id, session] of loadSessions()) {
+    if (id !== exceptId && !session.builtin && session.username.toLowerCase() === wanted) {
+      sessions?.delete(id);
+      changed = true;
+    }
+  }
+  if (changed) persist();
+}
+
+/** End every session signed in with SETUP_PASSWORD, optionally keeping one (e.g. the session that rotated it). */
+export function destroySetupPasswordSessions(exceptId?: string): void {
+  let changed = false;
+  for (const [id, session] of loadSessions()) {
+    if (id !== exceptId && session.builtin && !session.oidc) {
+      sessions?.delete(id);
+      changed = true;
+    }
+  }
+  if (changed) persist();
+}
+
+/** Return true when the request carries the session's CSRF token. */
+export function csrfValid(req: Request, session: SessionRecord): boolean {
+  const given = Buffer.from(req.headers.get(CSRF_HEADER) ?? "");
+  const expected = Buffer.from(session.csrfToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/** Set-Cookie values for a new session. `secure` adds the Secure flag (HTTPS deployments). */
+export function sessionCookies(session: SessionRecord, secure: boolean): string[] {
+  const flags = `Path=/; SameSite=Lax; Max-Age=${Math.floor(SESSION_MAX_AGE_MS / 1000)}${secure ? "; Secure" : ""}`;
+  return [
+    `${SESSION_COOKIE}=${session.id}.${sign(session.id)}; HttpOnly; ${flags}`,
+    `${CSRF_COOKIE}=${session.csrfToken}; ${flags}`,
+  ];
+}
+
+/** Set-Cookie values that remove the session cookies. */
+export function clearedSessionCookies(secure: boolean): string[] {
+  const flags = `Path=/; SameSite=Lax; Max-Age=0${secure ? "; Secure" : ""}`;
+  return [`${SESSION_COOKIE}=; HttpOnly; ${flags}`, `${CSRF_COOKIE}=; ${flags}`];
+}
@@ -0,0 +1,90 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { StateSnapshot } from "./types.js";
+import { isUnderDir } from "./utils.js";
+import { configPath, STATE_DIR } from "./config.js";
+
+const CREDENTIALS_DIR = path.join(STATE_DIR, "credentials");
+const AGENTS_DIR = path.join(STATE_DIR, "agents");
+
+function listDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+// What onboarding writes under STATE_DIR, relative to it: the config file and the backups OpenClaw keeps of it, the
+// credentials OpenClaw creates, the secret store the channel steps add tokens to and the agents' auth profiles and
+// state. Users, API tokens, sessions, the session key, a rotated setup password and the workspace are left alone, as
+// are job records, audit entries and config revisions written while onboarding runs.
+function onboardingEntries(): string[] {
+  const entries: string[] = [];
+  const config = path.resolve(configPath());
+  if (isUnderDir(config, STATE_DIR)) {
+    const base = path.basename(config);
+    for (const name of listDir(path.dirname(config))) {
+      if (name === base || name.startsWith(`${base}.bak`)) {
+        entries.push(path.relative(STATE_DIR, path.join(path.dirname(config), name)));
+      }
+    }
+  }
+  for (const name of listDir(CREDENTIALS_DIR)) entries.push(path.join("credentials", name));
+  if (fs.existsSync(AGENTS_DIR)) entries.push("agents");
+  return entries;
+}
+
+// The config file only needs separate handling when OPENCLAW_CONFIG_PATH points outside STATE_DIR.
+function externalConfigPath(): string | null {
+  const p = path.resolve(configPath());
+  return isUnderDir(p, STATE_DIR) ? null : p;
+}
+
+function copyEntry(from: string, to: string): void {
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.cpSync(from, to, { recursive: true, preserveTimestamps: true });
+}
+
+/** Copy what onboarding writes (config, credentials, agent state) to a temp directory so it can be restored later. */
+export function snapshotState(): StateSnapshot {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-snapshot-"));
+  try {
+    const entries = onboardingEntries();
+    for (const name of entries) {
+      copyEntry(path.join(STATE_DIR, name), path.join(dir, name));
+    }
+    const external = externalConfigPath();
+    const config = external
+      ? { path: external, content: fs.existsSync(external) ? fs.readFileSync(external, "utf8") : null }
+      : null;
+    return { dir, entries, config, createdAt: Date.now() };
+  } catch (err) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/** Put the config, credentials and agent state back exactly as they were when the snapshot was taken. */
+export function restoreState(snapshot: StateSnapshot): void {
+  for (const name of onboardingEntries()) {
+    fs.rmSync(path.join(STATE_DIR, name), { recursive: true, force: true });
+  }
+  for (const name of snapshot.entries) {
+    copyEntry(path.join(snapshot.dir, name), path.join(STATE_DIR, name));
+  }
+  if (snapshot.config) {
+    if (snapshot.config.content === null) {
+      fs.rmSync(snapshot.config.path, { force: true });
+    } else {
+      fs.writeFileSync(snapshot.config.path, snapshot.config.content, { encoding: "utf8", mode: 0o600 });
+    }
+  }
+}
+
+/** Delete a snapshot once it is no longer needed. */
+export function discardSnapshot(snapshot: StateSnapshot): void {
+  fs.rmSync(snapshot.dir, { recursive: true, force: true });
+}
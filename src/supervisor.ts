@@ -0,0 +1,153 @@
+import childProcess from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { RestartStrategy, SupervisorPolicy, SupervisorRuntime } from "./types.js";
+import { sleep } from "./utils.js";
+import { GATEWAY_TARGET } from "./config.js";
+
+// The gateway supervisor's policy: the keys of SupervisorPolicy in a file named by OPENCLAW_SUPERVISOR_FILE (JSON,
+// or YAML for any other extension), then GATEWAY_* env vars on top. A bad value is logged and its default kept,
+// so a typo cannot stop the wrapper from serving /setup.
+const POLICY_FILE_ENV = "OPENCLAW_SUPERVISOR_FILE";
+const RESTART_ENV = "GATEWAY_RESTART";
+const RESTART_STRATEGIES: RestartStrategy[] = ["on-demand", "always", "on-failure", "never"];
+
+// "on-demand" is how the wrapper always behaved: a gateway that exits stays down until the next request needs it.
+export const DEFAULT_SUPERVISOR_POLICY: SupervisorPolicy = {
+  restart: "on-demand",
+  crashWindowMs: 60_000,
+  maxCrashesInWindow: 5,
+  circuitResetMs: 120_000,
+  maxConsecutiveFails: 3,
+  backoffBaseMs: 1_000,
+  backoffMaxMs: 30_000,
+  minUptimeMs: 10_000,
+  readyTimeoutMs: 20_000,
+  healthCheckIntervalMs: 30_000,
+  healthCheckTimeoutMs: 5_000,
+};
+
+type NumericSetting = Exclude<keyof SupervisorPolicy, "restart">;
+
+// Env var and accepted range for each numeric setting.
+const NUMERIC_SETTINGS: Record<NumericSetting, { env: string; min: number; max: number }> = {
+  crashWindowMs: { env: "GATEWAY_CRASH_WINDOW_MS", min: 1_000, max: 3_600_000 },
+  maxCrashesInWindow: { env: "GATEWAY_MAX_CRASHES", min: 1, max: 100 },
+  circuitResetMs: { env: "GATEWAY_CIRCUIT_RESET_MS", min: 1_000, max: 86_400_000 },
+  maxConsecutiveFails: { env: "GATEWAY_MAX_CONSECUTIVE_FAILS", min: 1, max: 100 },
+  backoffBaseMs: { env: "GATEWAY_BACKOFF_BASE_MS", min: 0, max: 600_000 },
+  backoffMaxMs: { env: "GATEWAY_BACKOFF_MAX_MS", min: 0, max: 3_600_000 },
+  minUptimeMs: { env: "GATEWAY_MIN_UPTIME_MS", min: 0, max: 3_600_000 },
+  readyTimeoutMs: { env: "GATEWAY_READY_TIMEOUT_MS", min: 1_000, max: 600_000 },
+  healthCheckIntervalMs: { env: "GATEWAY_HEALTH_INTERVAL_MS", min: 1_000, max: 3_600_000 },
+  healthCheckTimeoutMs: { env: "GATEWAY_HEALTH_TIMEOUT_MS", min: 100, max: 60_000 },
+};
+
+/** Real timers, child processes and HTTP requests. */
+export const SYSTEM_RUNTIME: SupervisorRuntime = {
+  clock: {
+    now: () => Date.now(),
+    sleep,
+    every(ms, fn) {
+      const timer = setInterval(fn, ms);
+      return () => clearInterval(timer);
+    },
+  },
+  spawn: (command, args, options) => childProcess.spawn(command, args, options),
+  async probe(urlPath, timeoutMs) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(`${GATEWAY_TARGET}${urlPath}`, { method: "GET", signal: controller.signal });
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Check one value for `key`; env values arrive as strings. Returns an error message, or null when it was applied.
+function applySetting(policy: SupervisorPolicy, key: string, value: unknown, where: string): string | null {
+  if (key === "restart") {
+    if (!RESTART_STRATEGIES.includes(value as RestartStrategy)) {
+      return `${where} must be on-demand, always, on-failure or never`;
+    }
+    policy.restart = value as RestartStrategy;
+    return null;
+  }
+  const setting = NUMERIC_SETTINGS[key as NumericSetting];
+  const number = typeof value === "string" && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isInteger(number) || number < setting.min || number > setting.max) {
+    return `${where} must be a whole number from ${setting.min} to ${setting.max}`;
+  }
+  policy[key as NumericSetting] = number;
+  return null;
+}
+
+/**
+ * Build a policy from the defaults, a parsed policy file (or undefined) and the environment, collecting a problem
+ * for every value that was refused.
+ */
+export function parseSupervisorPolicy(
+  file: unknown,
+  env: NodeJS.ProcessEnv
+): { policy: SupervisorPolicy; problems: string[] } {
+  const policy = { ...DEFAULT_SUPERVISOR_POLICY };
+  const problems: string[] = [];
+  const apply = (key: string, value: unknown, where: string) => {
+    const error = applySetting(policy, key, value, where);
+    if (error) problems.push(`${error}; keeping the default`);
+  };
+  if (file !== undefined && file !== null && !isObject(file)) {
+    problems.push(`${POLICY_FILE_ENV} must hold an object of settings; using the defaults`);
+  } else if (file) {
+    for (const [key, value] of Object.entries(file)) {
+      if (key === "restart" || key in NUMERIC_SETTINGS) apply(key, value, `${key} in ${POLICY_FILE_ENV}`);
+      else problems.push(`${key} in ${POLICY_FILE_ENV} is not a supervisor setting; ignoring it`);
+    }
+  }
+
+  const restart = env[RESTART_ENV]?.trim();
+  if (restart) apply("restart", restart, RESTART_ENV);
+  for (const [key, setting] of Object.entries(NUMERIC_SETTINGS)) {
+    const raw = env[setting.env]?.trim();
+    if (raw) apply(key, raw, setting.env);
+  }
+
+  // Settings that are fine alone but not together.
+  if (policy.backoffMaxMs < policy.backoffBaseMs) {
+    problems.push(`backoffMaxMs (${policy.backoffMaxMs}) is below backoffBaseMs; using ${policy.backoffBaseMs}`);
+    policy.backoffMaxMs = policy.backoffBaseMs;
+  }
+  if (policy.healthCheckTimeoutMs > policy.healthCheckIntervalMs) {
+    problems.push(`healthCheckTimeoutMs is longer than healthCheckIntervalMs; using ${policy.healthCheckIntervalMs}`);
+    policy.healthCheckTimeoutMs = policy.healthCheckIntervalMs;
+  }
+  return { policy, problems };
+}
+
+/** Read the policy from OPENCLAW_SUPERVISOR_FILE and the environment, logging every refused value. */
+export function loadSupervisorPolicy(): SupervisorPolicy {
+  let file: unknown;
+  const filePath = process.env[POLICY_FILE_ENV]?.trim();
+  if (filePath) {
+    try {
+      const p = path.resolve(filePath);
+      const text = fs.readFileSync(p, "utf8");
+      file = p.endsWith(".json") ? JSON.parse(text) : Bun.YAML.parse(text);
+    } catch (err) {
+      console.error(`[supervisor] cannot read ${POLICY_FILE_ENV}: ${String(err)}`);
+    }
+  }
+  const { policy, problems } = parseSupervisorPolicy(file, process.env);
+  for (const problem of problems) {
+    console.error(`[supervisor] ${problem}`);
+  }
+  return policy;
+}
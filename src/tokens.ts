@@ -0,0 +1,171 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { ApiTokenRecord, ApiTokenSummary } from "./types.js";
+import { ALLOWED_CONSOLE_COMMANDS, STATE_DIR } from "./config.js";
+import { isRole, ROLES } from "./users.js";
+
+export const TOKENS_PATH = path.join(STATE_DIR, "api-tokens.json");
+
+// Tokens look like "ocs_<id>_<secret>"; only a hash of the secret is stored.
+const TOKEN_PREFIX = "ocs_";
+const TOKEN_PATTERN = /^ocs_([0-9a-f]{16})_([0-9a-f]{64})$/;
+const NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const ENDPOINT_SCOPE = /^(?:(GET|POST|PUT|DELETE) )?(\/setup(?:\/\S*)?)$/;
+const DEFAULT_EXPIRY_DAYS = 90;
+const MAX_EXPIRY_DAYS = 3650;
+const TOUCH_PERSIST_MS = 60_000;         // lastUsedAt is written to disk at most this often
+
+let tokens: ApiTokenRecord[] | null = null;
+let loadedMtime = 0;
+let lastPersist = 0;
+
+function summarize(token: ApiTokenRecord): ApiTokenSummary {
+  const { secretHash: _secretHash, ...summary } = token;
+  return summary;
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+/** Read the token store, reloading when the file changed on disk (e.g. after an import or rollback). */
+function loadTokens(): ApiTokenRecord[] {
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(TOKENS_PATH).mtimeMs;
+  } catch {
+    // No tokens yet.
+  }
+  if (tokens && mtime === loadedMtime) return tokens;
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(TOKENS_PATH, "utf8"));
+    tokens = Array.isArray(parsed) ? (parsed as ApiTokenRecord[]).filter((t) => t?.id && isRole(t.role)) : [];
+  } catch {
+    tokens = [];
+  }
+  loadedMtime = mtime;
+  return tokens;
+}
+
+function saveTokens(next: ApiTokenRecord[]): void {
+  fs.mkdirSync(STATE_DIR, { recursive: true });
+  const tmp = `${TOKENS_PATH}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(next, null, 2), { encoding: "utf8", mode: 0o600 });
+  fs.renameSync(tmp, TOKENS_PATH);
+  tokens = next;
+  loadedMtime = fs.statSync(TOKENS_PATH).mtimeMs;
+  lastPersist = Date.now();
+}
+
+// Scopes are "console:<command>", "console:*", or an endpoint: "[METHOD ]/setup/path", where a trailing "*" matches a prefix.
+function checkScope(scope: string): string | null {
+  if (scope.startsWith("console:")) {
+    const cmd = scope.slice("console:".length);
+    return cmd === "*" || ALLOWED_CONSOLE_COMMANDS.has(cmd) ? null : `Unknown console command in scope "${scope}"`;
+  }
+  return ENDPOINT_SCOPE.test(scope) ? null : `Scope "${scope}" must be "console:<command>" or "[METHOD ]/setup/<path>"`;
+}
+
+function endpointMatches(scope: string, method: string, pathname: string): boolean {
+  const match = scope.match(ENDPOINT_SCOPE);
+  if (!match) return false;
+  const [, scopeMethod, scopePath] = match;
+  if (scopeMethod && scopeMethod !== method) return false;
+  return scopePath.endsWith("*") ? pathname.startsWith(scopePath.slice(0, -1)) : pathname === scopePath;
+}
+
+/** The token in an `Authorization: Bearer ocs_...` header, or null for any other header (e.g. a gateway token). */
+export function bearerApiToken(header: string): string | null {
+  const [scheme, value] = header.trim().split(/\s+/, 2);
+  return scheme?.toLowerCase() === "bearer" && value?.startsWith(TOKEN_PREFIX) ? value : null;
+}
+
+/** Look up a live token by its full value and record that it was used. */
+export function verifyApiToken(value: string): ApiTokenSummary | null {
+  const match = value.match(TOKEN_PATTERN);
+  if (!match) return null;
+  const token = loadTokens().find((t) => t.id === match[1]);
+  if (!token) return null;
+  const expected = Buffer.from(token.secretHash, "hex");
+  const given = Buffer.from(hashSecret(match[2]), "hex");
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  const now = Date.now();
+  if (token.expiresAt <= now) return null;
+  token.lastUsedAt = now;
+  if (now - lastPersist > TOUCH_PERSIST_MS) saveTokens(loadTokens());
+  return summarize(token);
+}
+
+/** Return true when one of the token's scopes covers the endpoint. Console scopes imply the console endpoint. */
+export function tokenAllowsRequest(token: ApiTokenSummary, method: string, pathname: string): boolean {
+  return token.scopes.some((scope) =>
+    scope.startsWith("console:")
+      ? method === "POST" && pathname === "/setup/api/console/run"
+      : endpointMatches(scope, method, pathname)
+  );
+}
+
+/** Return true when the token may run a console command. */
+export function tokenAllowsCommand(token: ApiTokenSummary, cmd: string): boolean {
+  return token.scopes.includes("console:*") || token.scopes.includes(`console:${cmd}`);
+}
+
+/** All tokens without their secret hashes. */
+export function listApiTokens(): ApiTokenSummary[] {
+  return loadTokens().map(summarize);
+}
+
+/** Mint a token. The full value is returned only here; the store keeps a hash. */
+export function createApiToken(
+  name: string,
+  role: string,
+  scopes: unknown,
+  expiresInDays: unknown,
+  createdBy: string
+): { ok: boolean; error?: string; token?: ApiTokenSummary; value?: string } {
+  if (!NAME_PATTERN.test(name)) return { ok: false, error: "Token names are 1-64 letters, digits, '.', '_' or '-'" };
+  if (loadTokens().some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+    return { ok: false, error: "A token with this name already exists" };
+  }
+  if (!isRole(role)) return { ok: false, error: `Role must be one of ${ROLES.join(", ")}` };
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((s) => typeof s === "string")) {
+    return { ok: false, error: "scopes must be a non-empty list of endpoints or console commands" };
+  }
+  const cleanScopes = [...new Set(scopes.map((s: string) => s.trim()).filter(Boolean))];
+  for (const scope of cleanScopes) {
+    const scopeErr = checkScope(scope);
+    if (scopeErr) return { ok: false, error: scopeErr };
+  }
+  const days = expiresInDays === undefined || expiresInDays === "" ? DEFAULT_EXPIRY_DAYS : Number(expiresInDays);
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+    return { ok: false, error: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}` };
+  }
+
+  const id = crypto.randomBytes(8).toString("hex");
+  const secret = crypto.randomBytes(32).toString("hex");
+  const now = Date.now();
+  const token: ApiTokenRecord = {
+    id,
+    name,
+    role,
+    scopes: cleanScopes,
+    secretHash: hashSecret(secret),
+    createdBy,
+    createdAt: now,
+    expiresAt: now + days * 24 * 60 * 60_000,
+    lastUsedAt: null,
+  };
+  saveTokens([...loadTokens(), token]);
+  return { ok: true, token: summarize(token), value: `${TOKEN_PREFIX}${id}_${secret}` };
+}
+
+/** Revoke a token by ID. */
+export function revokeApiToken(id: string): { ok: boolean; error?: string; token?: ApiTokenSummary } {
+  const token = loadTokens().find((t) => t.id === id);
+  if (!token) return { ok: false, error: "Token not found" };
+  saveTokens(loadTokens().filter((t) => t !== token));
+  return { ok: true, token: summarize(token) };
+}
@@ -1,4 +1,4 @@
-import type { ChildProcess } from "node:child_process";
+import type { ChildProcess, SpawnOptions } from "node:child_process";
 
 // Gateway process and lifecycle types.
 
@@ -18,14 +18,74 @@ export interface WaitForGatewayOptions {
 }
 
 export interface GatewayState {
-  proc: ChildProcess | null;
+  proc: GatewayChild | null;
   starting: Promise<void> | null;
   crashHistory: number[];        // Timestamps of recent crashes
   consecutiveFails: number;      // Count of consecutive startup failures
   circuitOpen: boolean;          // Circuit breaker state
   circuitOpenedAt: number | null; // When circuit was opened
   lastHealthCheck: number | null; // Last successful health check timestamp
-  healthCheckTimer: ReturnType<typeof setInterval> | null;
+  stopHealthCheck: (() => void) | null;
+  heldReason: string | null;     // Why the restart policy left the gateway down
+  lastExit: GatewayExit | null;
+  autoRestarts: number;          // Restarts made by the restart policy since the wrapper started
+}
+
+/** What the supervisor does when the gateway exits without being asked to. */
+export type RestartStrategy = "on-demand" | "always" | "on-failure" | "never";
+
+/** Crash-loop limits, backoff and health-check timing for the gateway supervisor. */
+export interface SupervisorPolicy {
+  restart: RestartStrategy;
+  crashWindowMs: number;           // Crashes within this window count towards the circuit breaker
+  maxCrashesInWindow: number;      // Crashes that open the circuit breaker
+  circuitResetMs: number;          // How long the circuit stays open
+  maxConsecutiveFails: number;     // Failed starts in a row before only a manual restart helps
+  backoffBaseMs: number;           // First restart delay, doubled per failure
+  backoffMaxMs: number;
+  minUptimeMs: number;             // Exiting sooner than this counts as a failed start
+  readyTimeoutMs: number;          // How long a new gateway has to answer requests
+  healthCheckIntervalMs: number;
+  healthCheckTimeoutMs: number;
+}
+
+/** Time source for the supervisor, replaceable so crash loops can be driven without waiting. */
+export interface SupervisorClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+  every(ms: number, fn: () => void): () => void; // Returns a function that stops the timer
+}
+
+/** The parts of a child process the supervisor uses, so a fake can stand in for the gateway. */
+export type GatewayChild = Pick<ChildProcess, "kill" | "on">;
+
+/** How the supervisor starts the gateway and checks that it answers. */
+export interface SupervisorRuntime {
+  clock: SupervisorClock;
+  spawn(command: string, args: string[], options: SpawnOptions): GatewayChild;
+  probe(path: string, timeoutMs: number): Promise<Response | null>;
+}
+
+export interface GatewayExit {
+  at: number;
+  code: number | null;
+  signal: string | null;
+  runtimeMs: number;
+  failure: boolean;
+}
+
+/** Supervisor state as reported by gateway.health and /setup/api/debug. */
+export interface GatewayHealth {
+  running: boolean;
+  circuitOpen: boolean;
+  circuitOpenedAt: number | null;
+  crashCount: number;
+  consecutiveFails: number;
+  lastHealthCheck: number | null;
+  lastExit: GatewayExit | null;
+  autoRestarts: number;
+  heldReason: string | null;
+  policy: SupervisorPolicy;
 }
 
 // Auth provider configuration used by the setup UI.
@@ -62,6 +122,127 @@ export interface OnboardPayload {
   discordAllowFrom?: string;
   slackBotToken?: string;
   slackAppToken?: string;
+  whatsappEnabled?: string;
+  whatsappDmPolicy?: string;
+  whatsappAllowFrom?: string;
+  signalAccount?: string;
+  signalCliPath?: string;
+  signalHttpUrl?: string;
+  signalDmPolicy?: string;
+  signalAllowFrom?: string;
+  imessageEnabled?: string;
+  imessageCliPath?: string;
+  imessageDbPath?: string;
+  imessageDmPolicy?: string;
+  imessageAllowFrom?: string;
+  dryRun?: boolean;             // Return the plan from /setup/api/run without executing anything
+}
+
+// Extra onboarding input that only provisioning manifests provide.
+export interface OnboardOptions {
+  config?: Record<string, unknown>; // Config overrides applied with `config set --json` after the channels
+  secrets?: string[];           // Additional values to redact from step output
+}
+
+// Provisioning manifest read at startup from OPENCLAW_PROVISION_FILE or OPENCLAW_PROVISION.
+export interface ProvisionManifest {
+  flow?: string;
+  auth?: {
+    choice?: string;            // An AUTH_GROUPS option value
+    secret?: string;
+  };
+  channels?: Record<string, Record<string, unknown>>; // Channel name -> field values
+  config?: Record<string, unknown>;                   // Config key -> value
+}
+
+/** Field-level validation errors keyed by the onboarding payload field name. */
+export type FieldErrors = Record<string, string>;
+
+// Onboarding step results returned by /setup/api/run.
+
+export type StepStatus = "passed" | "failed" | "skipped";
+
+export interface StepResult {
+  id: string;                   // Stable key, e.g. "onboard", "config:gateway.bind", "channel:telegram"
+  label: string;
+  status: StepStatus;
+  code: number | null;          // Exit code; null for steps that do not run a CLI command
+  durationMs: number;
+  output: string;               // Redacted
+  required: boolean;            // A failure rolls STATE_DIR back to its pre-onboarding snapshot
+}
+
+export interface OnboardResult {
+  ok: boolean;
+  steps: StepResult[];
+  output: string;               // All step output joined, for log views
+  failedStep: string | null;    // ID of the first required step that failed
+  rolledBack: boolean;          // STATE_DIR was restored to its state before onboarding
+}
+
+// Dry-run plan returned by /setup/api/run when `dryRun` is set. Secrets are redacted throughout.
+
+export interface PlannedStep {
+  id: string;                   // Same IDs as StepResult
+  label: string;
+  required: boolean;
+}
+
+export interface PlannedConfigSet {
+  step: string;                 // ID of the step that makes this change
+  key: string;
+  value: string;                // Argument passed to `config set`, or the document sent to `config patch --stdin`
+  json: boolean;                // Passed with --json
+  patch: boolean;               // Written with `config patch --stdin` instead of `config set`
+}
+
+export interface OnboardPlan {
+  ok: boolean;
+  dryRun: true;
+  configured: boolean;          // Already configured: a real run would change nothing
+  onboardArgs: string[];        // `onboard` argument vector
+  configSets: PlannedConfigSet[];
+  channels: Record<string, Record<string, unknown>>; // Channel blocks as they would read after the run
+  steps: PlannedStep[];
+}
+
+// Copy of STATE_DIR taken before onboarding so a failed run can be undone.
+export interface StateSnapshot {
+  dir: string;                  // Temp directory holding the copied entries
+  entries: string[];            // Paths under STATE_DIR (relative to it) that existed
+  config: { path: string; content: string | null } | null; // Config file outside STATE_DIR, if any
+  createdAt: number;
+}
+
+// Long-running wrapper operations, run one at a time and persisted under STATE_DIR/jobs.
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobEvent {
+  seq: number;                  // Sent as the SSE id so clients can resume with Last-Event-ID
+  type: "phase" | "output" | "done";
+  time: number;
+  text?: string;                // Phase name or a chunk of redacted output
+  status?: JobStatus;           // Set on "done"
+  result?: unknown;             // Set on "done"
+}
+
+export interface JobSummary {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  phase: string | null;
+  cancellable: boolean;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+// Job record written to STATE_DIR/jobs/<id>.json and returned by GET /setup/api/jobs/:id.
+export interface JobRecord extends JobSummary {
+  output: string;               // Redacted output (tail)
+  result?: unknown;
+  artifact?: string;            // File name of a downloadable result (e.g. an export) in the jobs dir
 }
 
 // Channel configuration shapes persisted in the OpenClaw config.
@@ -103,6 +284,89 @@ export interface SlackConfig {
   appToken?: string;
 }
 
+export interface WhatsAppConfig {
+  enabled: boolean;
+  dmPolicy: string;
+  allowFrom?: string[];
+  groupPolicy: string;
+}
+
+export interface SignalConfig {
+  enabled: boolean;
+  account: string;              // E.164 number registered with signal-cli
+  cliPath?: string;
+  httpUrl?: string;             // External signal-cli daemon, if not spawned locally
+  dmPolicy: string;
+  allowFrom?: string[];
+}
+
+export interface IMessageConfig {
+  enabled: boolean;
+  cliPath?: string;
+  dbPath?: string;
+  dmPolicy: string;
+  allowFrom?: string[];
+}
+
+// Channel registry entries. Descriptors are sent to the setup UI to build forms.
+
+export type ChannelFieldType = "text" | "password" | "number" | "select" | "checkbox";
+
+export interface ChannelFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface ChannelField {
+  key: keyof OnboardPayload;
+  label: string;
+  type: ChannelFieldType;
+  placeholder?: string;
+  hint?: string;
+  options?: ChannelFieldOption[];
+  defaultValue?: string;
+  trigger?: boolean;            // A non-blank value means the channel was requested
+  secretKey?: string;           // Config key holding this secret (masked, kept on update)
+  advanced?: boolean;           // Rendered under the channel's advanced options
+  setupOnly?: boolean;          // Only shown in the onboarding form
+}
+
+export interface ChannelDescriptor {
+  name: string;
+  label: string;
+  notice?: string;
+  pairing: boolean;             // Channel issues pairing codes (`openclaw pairing list <name>`)
+  fields: ChannelField[];
+}
+
+export interface ChannelBuild<T = object> {
+  config: T;
+  errors: FieldErrors;
+}
+
+export interface ChannelDefinition extends ChannelDescriptor {
+  // Maps the form owns outright, as dot paths ("*" is any key): entries it no longer lists are removed on update.
+  replaces?: string[];
+  build: (payload: OnboardPayload) => ChannelBuild;
+  fromConfig: (config: Record<string, unknown>) => OnboardPayload;
+}
+
+// Result of applying one channel config block.
+export interface ChannelConfigureResult {
+  ok: boolean;
+  skipped: boolean;
+  code: number | null;          // `config patch` exit code; null when skipped
+  output: string;
+}
+
+// Channel summary returned by the channels API.
+export interface ChannelSummary {
+  name: string;
+  supported: boolean;
+  configured: boolean;
+  enabled: boolean;
+}
+
 // Pairing status output.
 
 export interface PairingEntry {
@@ -126,6 +390,10 @@ export interface ConsolePayload {
 
 export interface ConfigRawPayload {
   content?: string;
+  message?: string;             // Recorded with the config history revision
+  doctor?: boolean;             // Also run `openclaw doctor` against the new config in a scratch state dir
+  try?: boolean;                // Restart on the new config and put the old one back if the gateway does not stay up
+  graceSeconds?: number;        // How long a tried config must keep the gateway up (default CONFIG_TRY_GRACE_SECONDS)
 }
 
 export interface PairingApprovePayload {
@@ -133,6 +401,229 @@ export interface PairingApprovePayload {
   code?: string;
 }
 
+// Setup users, stored in STATE_DIR/users.json. Roles are ordered: viewer < operator < admin.
+
+export type UserRole = "viewer" | "operator" | "admin";
+
+export interface UserRecord {
+  username: string;
+  role: UserRole;
+  passwordHash: string;         // Bun.password (argon2id) hash
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UserSummary = Omit<UserRecord, "passwordHash">;
+
+// The identity a request was authenticated as.
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+  builtin: boolean;             // SETUP_PASSWORD, DEV_MODE, single sign-on or an API token rather than a stored user
+}
+
+// Identity asserted by the OpenID Connect provider for a single sign-on session.
+export interface OidcIdentity {
+  subject: string;              // `sub` claim
+  email: string | null;         // Lower-cased; null when missing or unverified
+  groups: string[];             // From OIDC_GROUPS_CLAIM
+}
+
+// Login session, stored in STATE_DIR/sessions.json and referenced by a signed cookie.
+export interface SessionRecord {
+  id: string;
+  username: string;
+  builtin: boolean;             // Signed in with SETUP_PASSWORD or single sign-on
+  oidc?: OidcIdentity;          // Set for single sign-on sessions; rechecked against the allowlist on every request
+  csrfToken: string;            // Must accompany mutating requests as X-CSRF-Token
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface LoginPayload {
+  username?: string;
+  password?: string;
+}
+
+// API token for scripts, stored in STATE_DIR/api-tokens.json and sent as `Authorization: Bearer ocs_...`.
+export interface ApiTokenRecord {
+  id: string;                   // Public part of the token value, used to look it up
+  name: string;
+  role: UserRole;               // Role checks apply as for a user with this role
+  scopes: string[];             // "console:<command>", "console:*" or "[METHOD ]/setup/<path>" (trailing * = prefix)
+  secretHash: string;           // sha256 of the secret part
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number;
+  lastUsedAt: number | null;
+}
+
+export type ApiTokenSummary = Omit<ApiTokenRecord, "secretHash">;
+
+export interface ApiTokenPayload {
+  name?: string;
+  role?: string;
+  scopes?: unknown;
+  expiresInDays?: number | string;
+}
+
+export interface UserPayload {
+  username?: string;
+  password?: string;
+  role?: string;
+}
+
+/** Credentials POST /setup/api/secrets/rotate can replace. */
+export type RotatableSecret = "gateway-token" | "setup-password" | "user-password";
+
+export interface SecretRotatePayload {
+  secret?: string;              // A RotatableSecret
+  username?: string;            // For "user-password"
+}
+
+export interface GatewayTokenRotation {
+  ok: boolean;
+  error?: string;
+  token?: string;               // Only on success
+  gateway: GatewayResult | null; // Null when not configured yet or when the config could not be updated
+}
+
+// Encrypted secret store in STATE_DIR/credentials/wrapper-secrets.json (AES-256-GCM, one entry per secret).
+
+export interface SecretEntry {
+  iv: string;                   // base64
+  tag: string;                  // base64 GCM auth tag
+  data: string;                 // base64 ciphertext
+  updatedAt: number;
+}
+
+export interface SecretStoreFile {
+  version: 1;
+  salt: string;                 // base64 scrypt salt for the master key
+  secrets: Record<string, SecretEntry>;  // Keyed by config path, e.g. "channels.telegram.botToken"
+}
+
+export interface SecretSummary {
+  name: string;
+  env: string;                  // Env var the value reaches child processes under
+  updatedAt: number;
+}
+
+// Redaction of credentials in output (see redactrules.ts).
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;              // Global; every match is replaced
+  providers?: string[];         // AUTH_GROUPS values whose credentials the rule catches
+}
+
+export interface RedactionSample {
+  rule: string;
+  text: string;
+  secret: string;               // Part of `text` that must not survive redaction
+}
+
+/** An extra pattern from OPENCLAW_REDACT_PATTERNS(_FILE); a bare string is the pattern alone. */
+export interface CustomRedactionPattern {
+  name?: string;
+  pattern: string;              // RegExp source
+  flags?: string;               // Any of "imsu"; "g" is always added
+}
+
+// Audit log of administrative actions, appended to STATE_DIR/audit.jsonl (one JSON entry per line).
+
+export type AuditOutcome = "success" | "failure";
+
+export interface AuditEntry {
+  time: number;
+  actor: string;                // Username, "token:<name>" or the name tried on a failed login
+  ip: string;
+  action: string;               // Dotted name, e.g. "pairing.approve", "console.gateway.restart"
+  outcome: AuditOutcome;
+  args: Record<string, unknown>; // Redacted
+  detail?: string;              // Error message or job ID
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  outcome?: AuditOutcome;
+  q?: string;                   // Free text over the whole entry
+  since?: number;
+  until?: number;
+  offset?: number;
+  limit?: number;
+}
+
+// Config history revision, one file per revision in STATE_DIR/config-history/<id>.json.
+
+export interface ConfigRevisionSummary {
+  id: number;
+  createdAt: number;
+  author: string;
+  message: string;
+  size: number;                 // Bytes; 0 when the config file had been deleted
+  sha256: string | null;        // null when the config file had been deleted
+}
+
+export interface ConfigRevision extends ConfigRevisionSummary {
+  content: string | null;
+}
+
+// Raw config validation: JSON5 parsing, the config schema and the optional `openclaw doctor` dry run.
+
+export interface SourcePosition {
+  line: number;                 // 1-based
+  column: number;               // 1-based
+}
+
+/** Where a string value sits in config text: offsets of the opening and past the closing quote. */
+export interface StringSpan {
+  start: number;
+  end: number;
+  value: string;
+}
+
+export type Json5Result =
+  | { ok: true; value: unknown; positions: Map<string, SourcePosition>; strings: Map<string, StringSpan> }
+  | { ok: false; error: string; line: number; column: number };
+
+export interface ConfigIssue {
+  path: string;                 // Dotted config key, e.g. "gateway.port"; "" for the whole file
+  message: string;
+  line: number | null;
+  column: number | null;
+}
+
+export interface ConfigValidation {
+  ok: boolean;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];      // Unknown keys; reported but never block a save
+  doctor?: CommandResult;       // Set when the doctor check ran
+}
+
+// Structured config editing: JSON-pointer patch operations against the parsed config.
+
+export interface ConfigPatchOp {
+  op: "add" | "replace" | "remove";
+  path: string;                 // JSON pointer, e.g. "/channels/telegram/dmPolicy"
+  value?: unknown;              // Required for add and replace
+}
+
+export interface ConfigTreePayload {
+  ops?: unknown;                // ConfigPatchOp[]; checked by applyConfigPatch
+  message?: string;             // Recorded with the config history revision
+}
+
+// Outcome of a tried config change (tryConfigChange).
+
+export interface ConfigTrialResult {
+  ok: boolean;                  // The gateway stayed healthy and the change was kept
+  error?: string;               // Why the change was not kept
+  reverted: boolean;            // The previous config was written back
+  output: string;
+  revision: ConfigRevisionSummary | null;  // The revision the config file ended up at
+}
+
 // Wrapper status and debug responses.
 
 export interface StatusResponse {
@@ -141,6 +632,17 @@ export interface StatusResponse {
   openclawVersion: string;
   channelsAddHelp: string;
   authGroups: AuthGroup[];
+  channels: ChannelDescriptor[];
+  activeJobs: JobSummary[];
+  user: AuthUser;
+}
+
+// Failed password attempts seen by the auth gate since the wrapper started.
+export interface AuthFailureStats {
+  total: number;
+  lockouts: number;             // Lockouts started (per-IP and global)
+  lockedIps: number;            // IPs locked out right now
+  globalLockedUntil: number | null; // Set while password sign-in is locked for everyone
 }
 
 export interface DebugResponse {
@@ -154,6 +656,7 @@ export interface DebugResponse {
     gatewayTokenFromEnv: boolean;
     gatewayTokenPersisted: boolean;
     railwayCommit: string | null;
+    authFailures: AuthFailureStats;
   };
   openclaw: {
     entry: string;
@@ -4,12 +4,30 @@
 
   // API helpers for setup endpoints.
   const API = {
+    // The session's CSRF token, which mutating requests must echo back.
+    csrfToken() {
+      const match = document.cookie.match(/(?:^|;\s*)openclaw_csrf=([^;]*)/);
+      return match ? decodeURIComponent(match[1]) : '';
+    },
+
+    // Session expired or signed out: go back to the login page.
+    signIn() {
+      window.location.href = `/setup/login?next=${encodeURIComponent(window.location.pathname)}`;
+    },
+
     async request(url, options = {}) {
       options.credentials = 'same-origin';
+      if (options.method && options.method !== 'GET') {
+        options.headers = { ...options.headers, 'X-CSRF-Token': this.csrfToken() };
+      }
       const res = await fetch(url, options);
+      if (res.status === 401) this.signIn();
       if (!res.ok) {
         const text = await res.text();
-        throw new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+        const err = new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+        // Keep structured error bodies (e.g. fieldErrors) available to callers.
+        try { err.data = JSON.parse(text); } catch {}
+        throw err;
       }
       return res.json();
     },
@@ -26,13 +44,26 @@
       });
     },
 
+    async put(url, data) {
+      return this.request(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+    },
+
+    async del(url) {
+      return this.request(url, { method: 'DELETE' });
+    },
+
     async postRaw(url, body, contentType) {
       const res = await fetch(url, {
         method: 'POST',
         credentials: 'same-origin',
-        headers: { 'Content-Type': contentType },
+        headers: { 'Content-Type': contentType, 'X-CSRF-Token': this.csrfToken() },
         body: body
       });
+      if (res.status === 401) this.signIn();
       return res.text();
     }
   };
@@ -165,10 +196,20 @@
       if (tabId === 'pairing') {
         Pairing.refresh();
       }
+      if (tabId === 'channels') {
+        Channels.refresh();
+      }
+      if (tabId === 'users') {
+        Users.refresh();
+        Tokens.refresh();
+      }
+      if (tabId === 'audit') {
+        Audit.refresh();
+      }
     },
 
     handleKeydown(e, tab) {
-      const tabs = Array.from($$('.tab'));
+      const tabs = Array.from($$('.tab')).filter(t => t.style.display !== 'none');
       const currentIndex = tabs.indexOf(tab);
       let newIndex = currentIndex;
 
@@ -203,7 +244,12 @@
   // Collapsible sections with ARIA updates.
   const Collapsible = {
     init() {
-      $$('.collapsible-toggle').forEach(toggle => {
+      this.bind(document);
+    },
+
+    // Wire up toggles under `root`; also used for sections rendered after load.
+    bind(root) {
+      root.querySelectorAll('.collapsible-toggle').forEach(toggle => {
         toggle.addEventListener('click', () => {
           const collapsible = toggle.parentElement;
           const isOpen = collapsible.classList.toggle('open');
@@ -218,7 +264,7 @@
         });
       });
       // Initialize aria-expanded for pre-opened sections.
-      $$('.collapsible').forEach(collapsible => {
+      root.querySelectorAll('.collapsible').forEach(collapsible => {
         const toggle = collapsible.querySelector('.collapsible-toggle');
         if (toggle) {
           toggle.setAttribute('aria-expanded', collapsible.classList.contains('open'));
@@ -240,10 +286,16 @@
     async refresh() {
       try {
         const data = await API.get('/setup/api/status');
+        User.set(data.user);
         this.authGroups = data.authGroups || [];
         this.render(data);
         Auth.renderGroups(this.authGroups);
-        Config.load();
+        ChannelForms.load(data.channels || []);
+        Jobs.resume(data.activeJobs || []);
+        if (User.can('admin')) {
+          Config.load();
+          ConfigTree.load();
+        }
       } catch (e) {
         setHtml(this.el, `<span class="text-danger">Error: ${e.message}</span>`);
       }
@@ -288,6 +340,72 @@
     }
   };
 
+  // Signed-in user; hides or disables controls their role cannot use (the server enforces roles too).
+  const User = {
+    ROLES: ['viewer', 'operator', 'admin'],
+    current: null,
+
+    init() {
+      $('#accountPassword')?.addEventListener('click', () => this.changePassword());
+      $('#accountLogout')?.addEventListener('click', () => this.logout());
+    },
+
+    can(role) {
+      if (!this.current) return true;
+      return this.ROLES.indexOf(this.current.role) >= this.ROLES.indexOf(role);
+    },
+
+    set(user) {
+      this.current = user || null;
+      if (this.current) {
+        setText($('#accountName'), `Signed in as ${user.username} (${user.role})`);
+        show($('#accountCard'));
+        // SETUP_PASSWORD and DEV_MODE logins have no stored password to change.
+        const passwordBtn = $('#accountPassword');
+        if (passwordBtn) passwordBtn.style.display = user.builtin ? 'none' : '';
+      }
+      this.apply(document);
+    },
+
+    apply(root) {
+      root.querySelectorAll('[data-role]').forEach(el => {
+        if (this.can(el.dataset.role)) return;
+        if (el.matches('.tab, a')) {
+          el.style.display = 'none';
+        } else {
+          el.disabled = true;
+          el.title = `Requires the ${el.dataset.role} role`;
+        }
+      });
+      const active = $('.tab.active');
+      if (active && active.style.display === 'none') Tabs.activate('setup');
+    },
+
+    async changePassword() {
+      const password = prompt('New password (at least 8 characters):');
+      if (!password) return;
+      if (prompt('Repeat the new password:') !== password) {
+        Toast.warning('The passwords did not match.');
+        return;
+      }
+      try {
+        await API.put(`/setup/api/users/${encodeURIComponent(this.current.username)}`, { password });
+        Toast.success('Password changed. Your other sessions have been signed out.');
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'Password Not Changed');
+      }
+    },
+
+    async logout() {
+      try {
+        await API.post('/setup/api/logout', {});
+      } catch {
+        // Signed out already (or using Basic auth); show the login page either way.
+      }
+      window.location.href = '/setup/login';
+    }
+  };
+
   // Auth provider selection UI.
   const Auth = {
     groupEl: null,
@@ -326,19 +444,177 @@
     }
   };
 
+  // Channel form fields generated from the server's channel registry.
+  const ChannelForms = {
+    channels: [],
+    rendered: false,
+
+    load(channels) {
+      this.channels = channels;
+      if (this.rendered) return;
+      this.rendered = true;
+      this.renderSetup($('#channelForms'));
+      this.renderPairingOptions($('#pairingChannel'));
+    },
+
+    get(name) {
+      return this.channels.find(ch => ch.name === name);
+    },
+
+    // Render one field. Ids are `${prefix}${field.key}` so errors keyed by payload field can find them.
+    renderField(field, { prefix = '', value, placeholder } = {}) {
+      const id = `${prefix}${field.key}`;
+      const current = String(value ?? field.defaultValue ?? '');
+      const label = Toast.escapeHtml(field.label);
+
+      if (field.type === 'checkbox') {
+        return `<label class="checkbox-label"><input type="checkbox" id="${id}" ${current === 'true' ? 'checked' : ''} /><span>${label}</span></label>`;
+      }
+
+      const hintId = `${id}-hint`;
+      const hint = field.hint ? `<span id="${hintId}" class="field-hint">${Toast.escapeHtml(field.hint)}</span>` : '';
+      let control;
+      if (field.type === 'select') {
+        control = `<select id="${id}">${(field.options || []).map(o =>
+          `<option value="${Toast.escapeHtml(o.value)}" ${o.value === current ? 'selected' : ''}>${Toast.escapeHtml(o.label)}</option>`
+        ).join('')}</select>`;
+      } else {
+        control = `<input id="${id}" type="${field.type}" value="${Toast.escapeHtml(current)}" ` +
+          `placeholder="${Toast.escapeHtml(placeholder ?? field.placeholder ?? '')}" autocomplete="off"` +
+          `${field.hint ? ` aria-describedby="${hintId}"` : ''} />`;
+      }
+      return `<div class="form-field"><label for="${id}">${label}</label>${control}${hint}</div>`;
+    },
+
+    // Render a field list, grouping option checkboxes after the inputs.
+    renderFields(fields, options = {}) {
+      const valueOf = (f) => options.values?.[f.key];
+      const main = fields.filter(f => f.type !== 'checkbox' || f.trigger);
+      const boxes = fields.filter(f => f.type === 'checkbox' && !f.trigger);
+      const html = main.map(f => this.renderField(f, { prefix: options.prefix, value: valueOf(f), placeholder: options.placeholderFor?.(f) })).join('');
+      const group = boxes.map(f => this.renderField(f, { prefix: options.prefix, value: valueOf(f) })).join('');
+      return html + (group ? `<div class="checkbox-group">${group}</div>` : '');
+    },
+
+    renderSetup(container) {
+      if (!container) return;
+      setHtml(container, this.channels.map(ch => {
+        const basic = ch.fields.filter(f => !f.advanced);
+        const advanced = ch.fields.filter(f => f.advanced);
+        const notice = ch.notice ? `<div class="alert alert-warning mt-2" role="alert">${Toast.escapeHtml(ch.notice)}</div>` : '';
+        const advancedHtml = advanced.length === 0 ? '' : `
+          <fieldset class="collapsible mt-3" id="${ch.name}Advanced">
+            <legend class="visually-hidden">${Toast.escapeHtml(ch.label)} Advanced Options</legend>
+            <button class="collapsible-toggle" type="button" aria-expanded="false" aria-controls="${ch.name}Advanced-content">
+              <span class="arrow" aria-hidden="true">▶</span> ${Toast.escapeHtml(ch.label)} Advanced Options
+            </button>
+            <div class="collapsible-content" id="${ch.name}Advanced-content">${this.renderFields(advanced)}</div>
+          </fieldset>`;
+        return `
+          <div class="channel-section" data-channel="${Toast.escapeHtml(ch.name)}">
+            <h4 class="channel-title">${Toast.escapeHtml(ch.label)}</h4>
+            ${this.renderFields(basic)}
+            ${notice}
+            ${advancedHtml}
+          </div>
+        `;
+      }).join(''));
+      Collapsible.bind(container);
+    },
+
+    renderPairingOptions(select) {
+      if (!select) return;
+      setHtml(select, this.channels.filter(ch => ch.pairing).map(ch =>
+        `<option value="${Toast.escapeHtml(ch.name)}">${Toast.escapeHtml(ch.label)}</option>`
+      ).join(''));
+    },
+
+    // Read field values back into payload form ("true"/"false" for checkboxes).
+    collect(fields, prefix = '') {
+      const payload = {};
+      for (const f of fields) {
+        const input = document.getElementById(`${prefix}${f.key}`);
+        if (!input) continue;
+        payload[f.key] = f.type === 'checkbox' ? (input.checked ? 'true' : 'false') : input.value;
+      }
+      return payload;
+    }
+  };
+
+  // Follow long-running jobs over Server-Sent Events. Job IDs are kept in
+  // sessionStorage so a reloaded page can reattach to the same job.
+  const Jobs = {
+    STORAGE_KEY: 'active-jobs',
+    sources: new Map(),
+
+    stored() {
+      try { return JSON.parse(sessionStorage.getItem(this.STORAGE_KEY) || '{}'); } catch { return {}; }
+    },
+
+    save(jobs) {
+      try { sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(jobs)); } catch {}
+    },
+
+    // handlers: onPhase(name), onOutput(text), onDone(event), onLost()
+    follow(jobId, kind, handlers) {
+      if (this.sources.has(jobId)) return;
+      this.save({ ...this.stored(), [jobId]: kind });
+
+      const source = new EventSource(`/setup/api/jobs/${encodeURIComponent(jobId)}/events`);
+      this.sources.set(jobId, source);
+      source.addEventListener('phase', (e) => handlers.onPhase?.(JSON.parse(e.data).text));
+      source.addEventListener('output', (e) => handlers.onOutput?.(JSON.parse(e.data).text));
+      source.addEventListener('done', (e) => {
+        this.stop(jobId);
+        handlers.onDone?.(JSON.parse(e.data));
+      });
+      source.onerror = () => {
+        // EventSource retries dropped connections itself; CLOSED means the job is gone.
+        if (source.readyState === EventSource.CLOSED) {
+          this.stop(jobId);
+          handlers.onLost?.();
+        }
+      };
+    },
+
+    stop(jobId) {
+      this.sources.get(jobId)?.close();
+      this.sources.delete(jobId);
+      const jobs = this.stored();
+      delete jobs[jobId];
+      this.save(jobs);
+    },
+
+    // Reattach to jobs started before a reload and to jobs the server started itself (bootstrap.sh).
+    resume(activeJobs = []) {
+      const jobs = { ...this.stored() };
+      for (const job of activeJobs) jobs[job.id] = jobs[job.id] || job.kind;
+      for (const [jobId, kind] of Object.entries(jobs)) {
+        if (this.sources.has(jobId)) continue;
+        if (kind === 'onboard' || kind === 'bootstrap') Setup.attach(jobId, kind);
+        else if (kind === 'export' || kind === 'import') Backup.attach(jobId, kind);
+        else if (kind === 'config.try') Config.attach(jobId);
+        else Console.attach(jobId, kind);
+      }
+    }
+  };
+
   // Setup form submission and reset.
   const Setup = {
     logEl: null,
     isRunning: false,
     connectivityEl: null,
     testResultsEl: null,
+    stepsEl: null,
 
     init() {
       this.logEl = $('#setupLog');
+      this.stepsEl = $('#setupSteps');
       this.connectivityEl = $('#connectivityResults');
       this.testResultsEl = $('#testResultsList');
 
       $('#runSetup')?.addEventListener('click', () => this.run());
+      $('#previewSetup')?.addEventListener('click', () => this.preview());
       $('#resetSetup')?.addEventListener('click', () => this.reset());
       $('#testConnectivity')?.addEventListener('click', () => this.testConnectivity());
       
@@ -365,16 +641,16 @@
       // Validate token formats on blur
       const tokenInputs = ['#telegramToken', '#discordToken', '#slackBotToken', '#slackAppToken'];
       
-      tokenInputs.forEach(sel => {
-        const input = $(sel);
-        if (!input) return;
-        
-        input.addEventListener('blur', () => this.validateTokenField(input));
-        input.addEventListener('input', () => {
-          // Clear error on new input
-          input.parentElement?.classList.remove('has-error');
-          const errorEl = input.parentElement?.querySelector('.field-error');
-          if (errorEl) errorEl.remove();
+      // Channel fields are rendered later from the registry, so listen on the section.
+      const channelsEl = $('#channelsSection-content');
+      channelsEl?.addEventListener('focusout', (e) => {
+        if (tokenInputs.includes(`#${e.target.id}`)) this.validateTokenField(e.target);
+      });
+
+      // Clear errors (including server-reported ones) once a field is edited
+      ['input', 'change'].forEach(type => {
+        channelsEl?.addEventListener(type, (e) => {
+          if (e.target.matches('input, select')) this.clearFieldError(e.target);
         });
       });
       
@@ -423,25 +699,58 @@
         }
       }
       
-      const parent = input.parentElement;
-      if (!valid && parent) {
-        parent.classList.add('has-error');
-        let errorEl = parent.querySelector('.field-error');
-        if (!errorEl) {
-          errorEl = document.createElement('span');
-          errorEl.className = 'field-error';
-          parent.appendChild(errorEl);
-        }
-        errorEl.textContent = errorMsg;
-      } else if (parent) {
-        parent.classList.remove('has-error');
-        parent.classList.add('has-success');
-        const errorEl = parent.querySelector('.field-error');
-        if (errorEl) errorEl.remove();
+      if (!valid) {
+        this.setFieldError(input, errorMsg);
+      } else {
+        this.clearFieldError(input);
+        input.parentElement?.classList.add('has-success');
       }
       
       return valid;
     },
+
+    setFieldError(input, message) {
+      const parent = input.closest('.form-field, .checkbox-label');
+      if (!parent) return;
+      parent.classList.remove('has-success');
+      parent.classList.add('has-error');
+      let errorEl = parent.querySelector('.field-error');
+      if (!errorEl) {
+        errorEl = document.createElement('span');
+        errorEl.className = 'field-error';
+        parent.appendChild(errorEl);
+      }
+      errorEl.textContent = message;
+    },
+
+    clearFieldError(input) {
+      const parent = input.closest('.form-field, .checkbox-label');
+      if (!parent) return;
+      parent.classList.remove('has-error');
+      const errorEl = parent.querySelector('.field-error');
+      if (errorEl) errorEl.remove();
+    },
+
+    // Show server-side field errors next to their inputs (ids match payload keys).
+    showFieldErrors(fieldErrors) {
+      const messages = [];
+      for (const [field, message] of Object.entries(fieldErrors)) {
+        const input = document.getElementById(field);
+        if (input) {
+          this.setFieldError(input, message);
+          // Expand collapsed sections (including nested ones) so the error is visible.
+          let section = input.closest('.collapsible');
+          while (section) {
+            if (!section.classList.contains('open')) {
+              section.querySelector('.collapsible-toggle')?.click();
+            }
+            section = section.parentElement?.closest('.collapsible');
+          }
+        }
+        messages.push(`${field}: ${message}`);
+      }
+      return messages;
+    },
     
     validateAll() {
       const issues = [];
@@ -525,61 +834,165 @@
         return;
       }
       
-      this.isRunning = true;
-      const runBtn = $('#runSetup');
-      if (runBtn) {
-        runBtn.disabled = true;
-        runBtn.textContent = 'Running Setup...';
-      }
+      this.setRunning(true);
       
-      const payload = {
+      const payload = this.payload();
+
+      show(this.logEl);
+      setText(this.logEl, 'Running setup...\n');
+      hide(this.stepsEl);
+
+      try {
+        const { jobId } = await API.post('/setup/api/run', payload);
+        this.attach(jobId, 'onboard');
+      } catch (e) {
+        const fieldErrors = e.data?.fieldErrors;
+        if (fieldErrors && Object.keys(fieldErrors).length > 0) {
+          const messages = this.showFieldErrors(fieldErrors);
+          setText(this.logEl, `${e.data.output || ''}${messages.join('\n')}`);
+          Toast.warning('Fix the highlighted fields and run setup again.', 'Invalid Settings');
+        } else {
+          setText(this.logEl, `Error: ${e.data?.output || e.message}`);
+          Toast.error(e.message, 'Setup Failed');
+        }
+        this.setRunning(false);
+      }
+    },
+
+    payload() {
+      return {
         flow: $('#flow')?.value,
         authChoice: $('#authChoice')?.value,
         authSecret: $('#authSecret')?.value,
-        telegramToken: $('#telegramToken')?.value,
-        discordToken: $('#discordToken')?.value,
-        discordDmPolicy: $('#discordDmPolicy')?.value || 'pairing',
-        discordAllowFrom: $('#discordAllowFrom')?.value || '',
-        discordGuildId: $('#discordGuildId')?.value || '',
-        discordChannelId: $('#discordChannelId')?.value || '',
-        discordRequireMention: $('#discordRequireMention')?.checked ? 'true' : 'false',
-        discordNativeCommands: $('#discordNativeCommands')?.checked ? 'true' : 'false',
-        discordHistoryLimit: $('#discordHistoryLimit')?.value || '20',
-        discordStreamMode: $('#discordStreamMode')?.value || 'partial',
-        slackBotToken: $('#slackBotToken')?.value,
-        slackAppToken: $('#slackAppToken')?.value
+        ...ChannelForms.collect(ChannelForms.channels.flatMap(ch => ch.fields))
       };
+    },
+
+    // Ask the server what setup would do (dry run) and show the plan in the log.
+    async preview() {
+      if (this.isRunning) return;
+
+      const issues = this.validateAll();
+      if (issues.length > 0) {
+        Toast.warning(issues.join(' '));
+        return;
+      }
 
       show(this.logEl);
-      setText(this.logEl, 'Running setup...\n');
+      hide(this.stepsEl);
+      setText(this.logEl, 'Planning setup...\n');
 
       try {
-        const result = await API.post('/setup/api/run', payload);
-        setText(this.logEl, result.output || JSON.stringify(result, null, 2));
-        
-        if (result.ok) {
-          Toast.success('Setup completed successfully! You can now configure channels and approve users.', 'Setup Complete');
-          this.updateProgressSteps(4); // Move to "Approve Users" step
-          // Highlight the Pairing tab
-          const pairingTab = $('#tab-btn-pairing');
-          if (pairingTab) {
-            pairingTab.style.animation = 'badge-pulse 1s ease-in-out 3';
-          }
+        const plan = await API.post('/setup/api/run', { ...this.payload(), dryRun: true });
+        const lines = [
+          plan.configured ? 'Already configured: running setup would change nothing.\n' : '',
+          'Steps:',
+          ...plan.steps.map(step => `  ${step.id}${step.required ? '' : ' (optional)'}`),
+          '',
+          `Onboard command:\n  openclaw ${plan.onboardArgs.join(' ')}`,
+          '',
+          'Config changes:',
+          ...plan.configSets.map(set => set.patch
+            ? `  config patch --stdin <<< '${set.value}'`
+            : `  config set ${set.json ? '--json ' : ''}${set.key} ${set.value}`),
+          '',
+          'Nothing was changed.'
+        ];
+        setText(this.logEl, lines.join('\n'));
+      } catch (e) {
+        const fieldErrors = e.data?.fieldErrors;
+        if (fieldErrors && Object.keys(fieldErrors).length > 0) {
+          const messages = this.showFieldErrors(fieldErrors);
+          setText(this.logEl, `${e.data.output || ''}${messages.join('\n')}`);
         } else {
-          Toast.error('Setup encountered issues. Check the log output for details.');
+          setText(this.logEl, `Error: ${e.data?.output || e.message}`);
         }
-        
-        Status.refresh();
-      } catch (e) {
-        setText(this.logEl, `Error: ${e.message}`);
-        Toast.error(e.message, 'Setup Failed');
-      } finally {
-        this.isRunning = false;
-        if (runBtn) {
-          runBtn.disabled = false;
-          runBtn.textContent = 'Run Setup';
+        Toast.error(e.message, 'Preview Failed');
+      }
+    },
+
+    setRunning(running) {
+      this.isRunning = running;
+      const runBtn = $('#runSetup');
+      if (runBtn) {
+        runBtn.disabled = running || !User.can('admin');
+        runBtn.textContent = running ? 'Running Setup...' : 'Run Setup';
+      }
+    },
+
+    appendLog(text) {
+      if (!this.logEl) return;
+      this.logEl.textContent += text;
+      this.logEl.scrollTop = this.logEl.scrollHeight;
+    },
+
+    // Stream a setup or bootstrap job into the log; also used to reattach after a reload.
+    attach(jobId, kind) {
+      const isOnboard = kind === 'onboard';
+      if (isOnboard) this.setRunning(true);
+      show(this.logEl);
+      setText(this.logEl, isOnboard ? '' : `Running ${kind}...\n`);
+
+      Jobs.follow(jobId, kind, {
+        onPhase: (name) => this.appendLog(`\n▶ ${name}\n`),
+        onOutput: (text) => this.appendLog(text),
+        onDone: (event) => {
+          if (isOnboard) {
+            this.finish(event.result);
+          } else {
+            this.appendLog(`\n[${kind}] ${event.status}\n`);
+          }
+        },
+        onLost: () => {
+          this.appendLog('\nLost track of this job (the server may have restarted).\n');
+          if (isOnboard) this.setRunning(false);
         }
+      });
+    },
+
+    finish(result) {
+      this.setRunning(false);
+      this.renderSteps(result?.steps);
+
+      if (result?.ok) {
+        Toast.success('Setup completed successfully! You can now configure channels and approve users.', 'Setup Complete');
+        this.updateProgressSteps(4); // Move to "Approve Users" step
+        // Highlight the Pairing tab
+        const pairingTab = $('#tab-btn-pairing');
+        if (pairingTab) {
+          pairingTab.style.animation = 'badge-pulse 1s ease-in-out 3';
+        }
+      } else {
+        const failed = result?.steps?.find(step => step.id === result.failedStep)
+          || result?.steps?.find(step => step.status === 'failed');
+        const restored = result?.rolledBack ? ' Your previous state was restored, so you can fix the problem and run setup again.' : '';
+        Toast.error(
+          failed ? `Step failed: ${failed.label}.${restored} Check the log output for details.` : (result?.error || 'Setup encountered issues. Check the log output for details.'),
+          'Setup Failed'
+        );
+      }
+
+      Status.refresh();
+    },
+
+    // Render onboarding step results as a checklist.
+    renderSteps(steps) {
+      const listEl = $('#setupStepsList');
+      if (!steps?.length || !listEl) {
+        hide(this.stepsEl);
+        return;
       }
+      const icons = { passed: '✓', failed: '✗', skipped: '–' };
+      const classes = { passed: 'success', failed: 'error', skipped: 'skipped' };
+      setHtml(listEl, steps.map(step => {
+        const exit = step.code === null ? step.status : `exit ${step.code}`;
+        return `<div class="test-item ${classes[step.status] || ''}" role="listitem" title="${Toast.escapeHtml(step.output || '')}">
+          <span class="test-icon">${icons[step.status] || '○'}</span>
+          <span class="test-label">${Toast.escapeHtml(step.label)}</span>
+          <span class="test-detail">${Toast.escapeHtml(exit)} · ${step.durationMs}ms</span>
+        </div>`;
+      }).join(''));
+      show(this.stepsEl);
     },
 
     async reset() {
@@ -706,7 +1119,7 @@
                     Copy
                   </button>
                 </div>
-                <button class="btn btn-primary btn-sm pairing-quick-approve">
+                <button class="btn btn-primary btn-sm pairing-quick-approve" data-role="operator">
                   Approve
                 </button>
               </div>
@@ -725,6 +1138,7 @@
       }
 
       setHtml(this.listEl, html);
+      User.apply(this.listEl);
       this.updateBadge(total);
 
       // Attach event handlers
@@ -868,6 +1282,169 @@
     }
   };
 
+  // Post-setup channel management (add, update, disable, remove).
+  const Channels = {
+    listEl: null,
+    editorEl: null,
+    fieldsEl: null,
+    outEl: null,
+    editing: null,
+    isRefreshing: false,
+
+    init() {
+      this.listEl = $('#channelsList');
+      this.editorEl = $('#channelEditor');
+      this.fieldsEl = $('#channelEditorFields');
+      this.outEl = $('#channelsOut');
+
+      $('#channelsRefresh')?.addEventListener('click', () => this.refresh());
+      $('#channelSave')?.addEventListener('click', () => this.save());
+      $('#channelCancel')?.addEventListener('click', () => this.closeEditor());
+    },
+
+    async refresh() {
+      if (!this.listEl || this.isRefreshing) return;
+      this.isRefreshing = true;
+
+      try {
+        const data = await API.get('/setup/api/channels');
+        this.render(data.channels || [], data.configured);
+      } catch (e) {
+        setHtml(this.listEl, `<div class="pairing-empty"><div class="empty-title">Error loading channels</div><div class="empty-hint">${Toast.escapeHtml(e.message)}</div></div>`);
+      } finally {
+        this.isRefreshing = false;
+      }
+    },
+
+    render(channels, configured) {
+      if (!configured) {
+        setHtml(this.listEl, `
+          <div class="pairing-empty">
+            <div class="empty-title">Not configured yet</div>
+            <div class="empty-hint">Run setup first, then manage channels here.</div>
+          </div>
+        `);
+        return;
+      }
+
+      setHtml(this.listEl, channels.map(ch => {
+        const state = !ch.supported ? 'unsupported'
+          : !ch.configured ? 'not configured'
+          : ch.enabled ? 'enabled' : 'disabled';
+        const stateClass = ch.configured && ch.supported ? (ch.enabled ? 'enabled' : 'disabled') : '';
+        return `
+          <div class="channel-status-item" role="listitem" data-channel="${Toast.escapeHtml(ch.name)}">
+            <span class="channel-status-name">${Toast.escapeHtml(ChannelForms.get(ch.name)?.label || ch.name)}</span>
+            <span class="channel-state ${stateClass}">${state}</span>
+            <div class="channel-actions">
+              <button class="btn btn-sm btn-primary" data-action="edit" data-role="admin" ${ch.supported ? '' : 'disabled'}>${ch.configured ? 'Edit' : 'Add'}</button>
+              ${ch.configured && ch.enabled ? '<button class="btn btn-sm" data-action="disable" data-role="admin">Disable</button>' : ''}
+              ${ch.configured ? '<button class="btn btn-sm btn-danger" data-action="remove" data-role="admin">Remove</button>' : ''}
+            </div>
+          </div>
+        `;
+      }).join(''));
+
+      User.apply(this.listEl);
+
+      this.listEl.querySelectorAll('[data-action]').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const name = btn.closest('.channel-status-item')?.dataset.channel;
+          if (!name) return;
+          if (btn.dataset.action === 'edit') this.openEditor(name);
+          if (btn.dataset.action === 'disable') this.remove(name, 'disable');
+          if (btn.dataset.action === 'remove') this.remove(name, 'remove');
+        });
+      });
+    },
+
+    // Fields shown in the editor; enable toggles only make sense during onboarding.
+    fieldsFor(name) {
+      return (ChannelForms.get(name)?.fields || []).filter(f => !f.setupOnly);
+    },
+
+    async openEditor(name) {
+      const fields = this.fieldsFor(name);
+      let detail = { values: {}, storedSecrets: {} };
+      try {
+        detail = await API.get(`/setup/api/channels/${encodeURIComponent(name)}`);
+      } catch (e) {
+        Toast.error(e.message, `Failed to load ${name}`);
+        return;
+      }
+
+      this.editing = name;
+      setText($('#channelEditorTitle'), `${ChannelForms.get(name)?.label || name} settings`);
+
+      setHtml(this.fieldsEl, ChannelForms.renderFields(fields, {
+        prefix: 'channelField-',
+        // Secrets are never sent back; an empty value keeps the stored one.
+        values: { ...detail.values, ...Object.fromEntries(fields.filter(f => f.secretKey).map(f => [f.key, ''])) },
+        placeholderFor: (f) => f.secretKey && detail.storedSecrets?.[f.key] ? 'Stored — leave blank to keep' : undefined
+      }));
+      show(this.editorEl);
+    },
+
+    closeEditor() {
+      this.editing = null;
+      hide(this.editorEl);
+      setHtml(this.fieldsEl, '');
+    },
+
+    collect(name) {
+      return ChannelForms.collect(this.fieldsFor(name), 'channelField-');
+    },
+
+    async save() {
+      const name = this.editing;
+      if (!name) return;
+      if (!confirm(`Save ${name} settings and restart the gateway?`)) return;
+
+      show(this.outEl);
+      setText(this.outEl, `Saving ${name}...`);
+
+      try {
+        const result = await API.put(`/setup/api/channels/${encodeURIComponent(name)}`, this.collect(name));
+        setText(this.outEl, `${name} saved.\n${result.output || ''}`);
+        Toast.success(`${name} updated and gateway restarted.`, 'Channel Saved');
+        this.closeEditor();
+        this.refresh();
+      } catch (e) {
+        const fieldErrors = e.data?.fieldErrors;
+        if (fieldErrors) {
+          for (const [field, message] of Object.entries(fieldErrors)) {
+            const input = document.getElementById(`channelField-${field}`);
+            if (input) Setup.setFieldError(input, message);
+          }
+        }
+        setText(this.outEl, `Error: ${e.data?.error || e.message}\n${e.data?.output || ''}`);
+        Toast.error(e.data?.error || e.message, 'Save Failed');
+      }
+    },
+
+    async remove(name, mode) {
+      const prompt = mode === 'disable'
+        ? `Disable ${name}? The settings are kept and the gateway restarts.`
+        : `Remove ${name}? Its settings and tokens are deleted and the gateway restarts.`;
+      if (!confirm(prompt)) return;
+
+      show(this.outEl);
+      setText(this.outEl, `${mode === 'disable' ? 'Disabling' : 'Removing'} ${name}...`);
+
+      try {
+        const suffix = mode === 'disable' ? '?mode=disable' : '';
+        const result = await API.del(`/setup/api/channels/${encodeURIComponent(name)}${suffix}`);
+        setText(this.outEl, `${name} ${mode === 'disable' ? 'disabled' : 'removed'}.\n${result.output || ''}`);
+        Toast.success(`${name} ${mode === 'disable' ? 'disabled' : 'removed'}.`);
+        if (this.editing === name) this.closeEditor();
+        this.refresh();
+      } catch (e) {
+        setText(this.outEl, `Error: ${e.data?.error || e.message}`);
+        Toast.error(e.data?.error || e.message, 'Channel Update Failed');
+      }
+    }
+  };
+
   // Config editor for raw JSON.
   const Config = {
     textEl: null,
@@ -881,6 +1458,9 @@
 
       $('#configReload')?.addEventListener('click', () => this.load());
       $('#configSave')?.addEventListener('click', () => this.save());
+      $('#configTry')?.addEventListener('click', () => this.tryConfig());
+      $('#configValidate')?.addEventListener('click', () => this.validate());
+      $('#configDiffRun')?.addEventListener('click', () => this.diff($('#configDiffFrom')?.value, $('#configDiffTo')?.value));
     },
 
     async load() {
@@ -894,6 +1474,124 @@
         setText(this.pathEl, `Error: ${e.message}`);
         Toast.error(e.message, 'Failed to load config');
       }
+      this.loadHistory();
+    },
+
+    async loadHistory() {
+      const listEl = $('#configHistory');
+      if (!listEl) return;
+      try {
+        const data = await API.get('/setup/api/config/history');
+        this.renderHistory(data.revisions || []);
+      } catch (e) {
+        setHtml(listEl, `<div class="pairing-empty"><div class="empty-title">Error loading history</div><div class="empty-hint">${Toast.escapeHtml(e.message)}</div></div>`);
+      }
+    },
+
+    renderHistory(revisions) {
+      const listEl = $('#configHistory');
+      const options = revisions.map(r => `<option value="${r.id}">#${r.id} · ${Toast.escapeHtml(r.message)}</option>`).join('');
+      setHtml($('#configDiffFrom'), options);
+      setHtml($('#configDiffTo'), options);
+      if (revisions.length > 1) $('#configDiffFrom').value = String(revisions[1].id);
+
+      if (revisions.length === 0) {
+        setHtml(listEl, `
+          <div class="pairing-empty">
+            <div class="empty-title">No revisions yet</div>
+            <div class="empty-hint">Revisions are recorded when the config is created or changed.</div>
+          </div>
+        `);
+        return;
+      }
+
+      setHtml(listEl, revisions.map((r, index) => {
+        const meta = `${r.author} · ${Pairing.formatTimeAgo(r.createdAt)} · ${r.sha256 ? `${r.size} bytes` : 'config deleted'}`;
+        return `
+          <div class="channel-status-item" role="listitem" data-revision="${r.id}" title="${Toast.escapeHtml(new Date(r.createdAt).toLocaleString())}">
+            <span class="channel-status-name">#${r.id}${index === 0 ? ' (current)' : ''}</span>
+            <span class="token-meta">${Toast.escapeHtml(r.message)}<br><span class="text-muted">${Toast.escapeHtml(meta)}</span></span>
+            <div class="channel-actions">
+              <button class="btn btn-sm" data-action="diff">Changes</button>
+              ${index === 0 ? '' : '<button class="btn btn-sm btn-danger" data-action="restore">Restore</button>'}
+            </div>
+          </div>
+        `;
+      }).join(''));
+
+      listEl.querySelectorAll('.channel-status-item').forEach(item => {
+        const id = item.dataset.revision;
+        item.querySelector('[data-action="diff"]')?.addEventListener('click', () => this.diff('', id));
+        item.querySelector('[data-action="restore"]')?.addEventListener('click', () => this.restore(id));
+      });
+    },
+
+    // An empty `from` compares with the revision before `to`.
+    async diff(from, to) {
+      const out = $('#configDiff');
+      show(out);
+      setText(out, 'Loading...');
+      try {
+        const params = new URLSearchParams({ to });
+        if (from) params.set('from', from);
+        const data = await API.get(`/setup/api/config/history/diff?${params}`);
+        if (!data.diff) {
+          setText(out, `No differences between revision ${data.from ?? '(none)'} and revision ${data.to}.`);
+          return;
+        }
+        setHtml(out, data.diff.split('\n').map(line => {
+          const cls = line.startsWith('@@') ? 'diff-hunk' : line.startsWith('+') ? 'diff-add' : line.startsWith('-') ? 'diff-del' : '';
+          return `<span class="${cls}">${Toast.escapeHtml(line)}</span>`;
+        }).join('\n'));
+      } catch (e) {
+        setText(out, `Error: ${e.data?.error || e.message}`);
+      }
+    },
+
+    async restore(id) {
+      if (!confirm(`Restore config revision ${id} and restart the gateway?`)) return;
+      try {
+        await API.post(`/setup/api/config/history/${encodeURIComponent(id)}/restore`, {});
+        Toast.success(`Restored revision ${id}. Gateway restarted.`);
+        this.load();
+        Status.refresh();
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'Restore Failed');
+      }
+    },
+
+    // Errors and warnings as lines of text; the first error with a position moves the cursor there.
+    showIssues(result) {
+      const lines = [
+        ...(result.errors || []).map(i => `Error: ${i.message}`),
+        ...(result.warnings || []).map(i => `Warning: ${i.message}`),
+      ];
+      if (result.doctor) lines.push('', 'openclaw doctor:', result.doctor.output.trim());
+      const located = (result.errors || []).find(i => i.line);
+      if (located) this.focusLine(located.line, located.column);
+      return lines.join('\n');
+    },
+
+    focusLine(line, column) {
+      const lines = this.textEl.value.split('\n');
+      const offset = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + (column || 1) - 1;
+      this.textEl.focus();
+      this.textEl.setSelectionRange(offset, offset);
+    },
+
+    async validate() {
+      show(this.outEl);
+      setText(this.outEl, 'Checking...');
+      try {
+        const doctor = $('#configDoctor')?.checked || false;
+        const result = await API.post('/setup/api/config/validate', { content: this.textEl.value, doctor });
+        const summary = result.ok ? 'Config is valid.' : 'Config has errors.';
+        setText(this.outEl, [summary, this.showIssues(result)].filter(Boolean).join('\n'));
+        if (result.ok) Toast.success(summary);
+        else Toast.error(result.errors[0]?.message || summary, 'Invalid Config');
+      } catch (e) {
+        setText(this.outEl, `Error: ${e.data?.error || e.message}`);
+      }
     },
 
     async save() {
@@ -903,9 +1601,15 @@
       setText(this.outEl, 'Saving...');
 
       try {
-        const result = await API.post('/setup/api/config/raw', { content: this.textEl.value });
+        const message = $('#configMessage')?.value.trim();
+        const doctor = $('#configDoctor')?.checked || false;
+        const result = await API.post('/setup/api/config/raw', { content: this.textEl.value, message, doctor });
         if (result.ok) {
-          setText(this.outEl, `Saved: ${result.path}\nGateway restarted.`);
+          const revision = result.revision ? ` as revision ${result.revision.id}` : ' (unchanged)';
+          const warnings = this.showIssues(result);
+          setText(this.outEl, `Saved${revision}: ${result.path}\nGateway restarted.${warnings ? `\n\n${warnings}` : ''}`);
+          $('#configMessage').value = '';
+          this.loadHistory();
           Toast.success('Configuration saved and gateway restarted.');
         } else {
           setText(this.outEl, `Error: ${result.error}`);
@@ -913,8 +1617,247 @@
         }
         Status.refresh();
       } catch (e) {
-        setText(this.outEl, `Error: ${e.message}`);
-        Toast.error(e.message, 'Save Failed');
+        // A config that fails validation comes back as a 400 with the errors; nothing was written.
+        const issues = e.data?.errors ? this.showIssues(e.data) : '';
+        setText(this.outEl, issues ? `Not saved.\n${issues}` : `Error: ${e.data?.error || e.message}`);
+        Toast.error(e.data?.error || e.message, 'Save Failed');
+      }
+    },
+
+    // Save as a trial: the server restarts the gateway and restores the previous config if it does not stay up.
+    async tryConfig() {
+      if (!confirm('Save config and restart gateway? The previous config comes back if the gateway fails.')) return;
+
+      show(this.outEl);
+      setText(this.outEl, 'Checking...');
+
+      try {
+        const message = $('#configMessage')?.value.trim();
+        const doctor = $('#configDoctor')?.checked || false;
+        const { jobId } = await API.post('/setup/api/config/raw', { content: this.textEl.value, message, doctor, try: true });
+        $('#configMessage').value = '';
+        this.attach(jobId);
+      } catch (e) {
+        const issues = e.data?.errors ? this.showIssues(e.data) : '';
+        setText(this.outEl, issues ? `Not saved.\n${issues}` : `Error: ${e.data?.error || e.message}`);
+        Toast.error(e.data?.error || e.message, 'Save Failed');
+      }
+    },
+
+    // Follow a config trial job; also used to reattach after a reload.
+    attach(jobId) {
+      show(this.outEl);
+      setText(this.outEl, 'Trying the new config...\n');
+      Jobs.follow(jobId, 'config.try', {
+        onPhase: (name) => { this.outEl.textContent += `▶ ${name}\n`; },
+        onOutput: (text) => { this.outEl.textContent += text; },
+        onDone: (event) => {
+          const result = event.result || {};
+          const warnings = this.showIssues(result);
+          if (warnings) this.outEl.textContent += `\n${warnings}\n`;
+          if (event.status === 'succeeded') {
+            Toast.success('Configuration saved; the gateway stayed healthy.');
+          } else if (result.reverted) {
+            Toast.error(result.error || 'Gateway did not stay healthy', 'Config Reverted');
+          } else {
+            Toast.error(result.error || 'Config trial failed', 'Save Failed');
+          }
+          // The editor keeps the tried text, so a reverted change can be fixed and tried again.
+          this.loadHistory();
+          Status.refresh();
+        },
+        onLost: () => Toast.error('Lost track of the config trial (the server may have restarted).')
+      });
+    }
+  };
+
+  // Form editor over /setup/api/config/tree. Edits are queued as JSON-pointer operations and saved together.
+  const ConfigTree = {
+    MASK: '[REDACTED]',
+    treeEl: null,
+    tree: null,
+    ops: [],
+
+    init() {
+      this.treeEl = $('#configTree');
+      $('#configTreeReload')?.addEventListener('click', () => this.load(true));
+      $('#configTreeApply')?.addEventListener('click', () => this.apply());
+    },
+
+    // Pending edits survive the periodic refresh; only Reload (force) throws them away.
+    async load(force = false) {
+      if (!this.treeEl || (this.ops.length && !force)) return;
+      try {
+        const data = await API.get('/setup/api/config/tree');
+        this.tree = data.tree || {};
+        this.ops = [];
+        this.render();
+      } catch (e) {
+        setHtml(this.treeEl, `<div class="pairing-empty"><div class="empty-title">Error loading settings</div><div class="empty-hint">${Toast.escapeHtml(e.data?.error || e.message)}</div></div>`);
+      }
+    },
+
+    pointer(segments) {
+      return segments.map(s => `/${String(s).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+    },
+
+    // Typed input: JSON when it parses (numbers, true/false, lists), otherwise the text itself.
+    parseValue(text) {
+      try { return JSON.parse(text); } catch { return text; }
+    },
+
+    render() {
+      this.treeEl.replaceChildren(this.renderChildren(this.tree, []));
+      this.renderPending();
+    },
+
+    renderPending() {
+      const count = this.ops.length;
+      setText($('#configTreePending'), count ? `${count} pending change${count === 1 ? '' : 's'}` : '');
+      $('#configTreeApply').disabled = count === 0;
+    },
+
+    renderChildren(container, segments) {
+      const wrap = document.createElement('div');
+      wrap.className = 'config-tree-children';
+      for (const [key, value] of Object.entries(container)) {
+        const path = [...segments, Array.isArray(container) ? Number(key) : key];
+        wrap.appendChild(value !== null && typeof value === 'object' ? this.renderBranch(key, value, path) : this.renderLeaf(key, value, path));
+      }
+      const add = document.createElement('button');
+      add.className = 'btn btn-sm';
+      add.textContent = Array.isArray(container) ? '+ Add item' : '+ Add key';
+      add.addEventListener('click', () => this.addTo(container, segments));
+      wrap.appendChild(add);
+      return wrap;
+    },
+
+    renderBranch(key, value, path) {
+      const details = document.createElement('details');
+      details.open = path.length < 2;
+      const summary = document.createElement('summary');
+      const size = Array.isArray(value) ? `${value.length} items` : `${Object.keys(value).length} keys`;
+      summary.textContent = `${key} `;
+      const meta = document.createElement('span');
+      meta.className = 'config-tree-meta';
+      meta.textContent = size;
+      summary.appendChild(meta);
+      details.append(summary, this.renderChildren(value, path));
+      return details;
+    },
+
+    renderLeaf(key, value, path) {
+      const row = document.createElement('div');
+      row.className = 'config-tree-leaf';
+      row.setAttribute('role', 'treeitem');
+      if (this.ops.some(op => op.path === this.pointer(path))) row.classList.add('changed');
+
+      const id = `cfg${this.pointer(path).replace(/[^A-Za-z0-9_-]/g, '_')}`;
+      const label = document.createElement('label');
+      label.htmlFor = id;
+      label.textContent = key;
+
+      const input = document.createElement('input');
+      input.id = id;
+      if (typeof value === 'boolean') {
+        input.type = 'checkbox';
+        input.checked = value;
+        input.addEventListener('change', () => this.replace(path, input.checked, row));
+      } else if (typeof value === 'number') {
+        input.type = 'number';
+        input.value = String(value);
+        input.addEventListener('change', () => {
+          const n = Number(input.value);
+          if (input.value.trim() === '' || !Number.isFinite(n)) return Toast.error(`${key} must be a number`);
+          this.replace(path, n, row);
+        });
+      } else if (value === this.MASK) {
+        input.type = 'password';
+        input.placeholder = 'Secret (unchanged)';
+        input.autocomplete = 'new-password';
+        input.addEventListener('change', () => input.value ? this.replace(path, input.value, row) : this.forget(path, row));
+      } else {
+        input.type = 'text';
+        input.value = value === null ? '' : value;
+        input.placeholder = value === null ? 'null' : '';
+        input.addEventListener('change', () => this.replace(path, value === null ? this.parseValue(input.value) : input.value, row));
+      }
+
+      const remove = document.createElement('button');
+      remove.className = 'btn btn-sm btn-danger';
+      remove.textContent = 'Remove';
+      remove.setAttribute('aria-label', `Remove ${key}`);
+      remove.addEventListener('click', () => this.remove(path));
+      row.append(label, input, remove);
+      return row;
+    },
+
+    // Replacing a value twice keeps only the latest edit. The row stays in place so focus is not lost.
+    replace(path, value, row) {
+      const pointer = this.pointer(path);
+      this.ops = this.ops.filter(op => !(op.op === 'replace' && op.path === pointer));
+      this.ops.push({ op: 'replace', path: pointer, value });
+      this.setAt(path, value);
+      row.classList.add('changed');
+      this.renderPending();
+    },
+
+    forget(path, row) {
+      const pointer = this.pointer(path);
+      this.ops = this.ops.filter(op => !(op.op === 'replace' && op.path === pointer));
+      row.classList.remove('changed');
+      this.renderPending();
+    },
+
+    remove(path) {
+      this.ops.push({ op: 'remove', path: this.pointer(path) });
+      const parent = path.slice(0, -1).reduce((node, key) => node[key], this.tree);
+      const last = path[path.length - 1];
+      if (Array.isArray(parent)) parent.splice(last, 1);
+      else delete parent[last];
+      this.render();
+    },
+
+    addTo(container, segments) {
+      const isList = Array.isArray(container);
+      const key = isList ? '-' : prompt('Key name')?.trim();
+      if (!key) return;
+      if (!isList && Object.prototype.hasOwnProperty.call(container, key)) return Toast.error(`${key} already exists`);
+      const raw = prompt(`Value for ${isList ? 'the new item' : key} (JSON, or plain text)`);
+      if (raw === null) return;
+      const value = this.parseValue(raw);
+      this.ops.push({ op: 'add', path: this.pointer([...segments, key]), value });
+      if (isList) container.push(value);
+      else container[key] = value;
+      this.render();
+    },
+
+    setAt(path, value) {
+      const parent = path.slice(0, -1).reduce((node, key) => node[key], this.tree);
+      parent[path[path.length - 1]] = value;
+    },
+
+    async apply() {
+      if (!this.ops.length || !confirm(`Save ${this.ops.length} change(s) and restart gateway?`)) return;
+      const out = $('#configOut');
+      show(out);
+      setText(out, 'Saving...');
+      try {
+        const message = $('#configMessage')?.value.trim();
+        const result = await API.post('/setup/api/config/tree', { ops: this.ops, message });
+        const revision = result.revision ? ` as revision ${result.revision.id}` : ' (unchanged)';
+        const warnings = Config.showIssues(result);
+        setText(out, `Saved${revision}.${result.gateway?.ok === false ? `\nGateway: ${result.gateway.reason}` : ''}${warnings ? `\n\n${warnings}` : ''}`);
+        $('#configMessage').value = '';
+        this.ops = [];
+        this.tree = result.tree;
+        this.render();
+        Config.load();
+        Toast.success('Settings saved and gateway restarted.');
+      } catch (e) {
+        const issues = e.data?.errors ? Config.showIssues({ ...e.data, errors: e.data.errors.map(i => ({ ...i, line: null })) }) : '';
+        setText(out, issues ? `Not saved.\n${issues}` : `Error: ${e.data?.error || e.message}`);
+        Toast.error(e.data?.error || e.message, 'Save Failed');
       }
     }
   };
@@ -923,7 +1866,7 @@
   const CONSOLE_COMMANDS = [
     'gateway.restart', 'gateway.stop', 'gateway.start', 'gateway.health', 'gateway.reset-breaker',
     'openclaw.version', 'openclaw.status', 'openclaw.health', 'openclaw.doctor',
-    'openclaw.logs.tail', 'openclaw.config.get', 'openclaw.config.set',
+    'openclaw.logs.tail', 'openclaw.config.get', 'openclaw.config.set', 'openclaw.config.try',
     'openclaw.pairing.list', 'openclaw.pairing.approve',
     'openclaw.nodes.list', 'openclaw.nodes.approve',
     'openclaw.channels.status', 'openclaw.security.audit',
@@ -933,7 +1876,7 @@
   const CONSOLE_HELP = {
     'Gateway': ['gateway.restart', 'gateway.stop', 'gateway.start', 'gateway.health', 'gateway.reset-breaker'],
     'Status': ['openclaw.version', 'openclaw.status', 'openclaw.health', 'openclaw.doctor'],
-    'Logs & Config': ['openclaw.logs.tail', 'openclaw.config.get', 'openclaw.config.set'],
+    'Logs & Config': ['openclaw.logs.tail', 'openclaw.config.get', 'openclaw.config.set', 'openclaw.config.try'],
     'Pairing': ['openclaw.pairing.list', 'openclaw.pairing.approve'],
     'Nodes': ['openclaw.nodes.list', 'openclaw.nodes.approve'],
     'Channels': ['openclaw.channels.status'],
@@ -1040,8 +1983,15 @@
       this.running = true;
       this.appendInfo('Running...');
 
+      let following = false;
       try {
         const result = await API.post('/setup/api/console/run', { cmd, arg });
+        // Long-running commands come back as a job to follow.
+        if (result.jobId && result.job) {
+          following = true;
+          this.attach(result.jobId, cmd);
+          return;
+        }
         const output = result.output || JSON.stringify(result, null, 2);
         if (result.ok) {
           this.appendSuccess(output);
@@ -1052,10 +2002,38 @@
       } catch (e) {
         this.appendError('Error: ' + e.message);
       } finally {
-        this.running = false;
+        if (!following) this.running = false;
       }
     },
 
+    // Stream a long-running command's output; also used to reattach after a reload.
+    attach(jobId, cmd) {
+      this.running = true;
+      let streamed = false;
+      Jobs.follow(jobId, cmd, {
+        onPhase: (name) => this.appendInfo(`▶ ${name}`),
+        onOutput: (text) => {
+          streamed = true;
+          this.appendLine(text.replace(/\n$/, ''));
+        },
+        onDone: (event) => {
+          this.running = false;
+          const result = event.result || {};
+          const summary = streamed ? `${cmd}: ${event.status}` : (result.output || result.error || event.status);
+          if (event.status === 'succeeded') {
+            this.appendSuccess(summary);
+          } else {
+            this.appendError(summary);
+          }
+          Status.refresh();
+        },
+        onLost: () => {
+          this.running = false;
+          this.appendError(`Lost track of ${cmd} (the server may have restarted).`);
+        }
+      });
+    },
+
     // DOM output helpers — safe, no innerHTML
     appendLine(text, className) {
       const div = document.createElement('div');
@@ -1173,6 +2151,23 @@
     init() {
       this.outEl = $('#importOut');
       $('#importRun')?.addEventListener('click', () => this.import());
+      // Exports run as a job; the download starts once the backup is ready.
+      $$('a[href="/setup/export"]').forEach(link => {
+        link.addEventListener('click', (e) => {
+          e.preventDefault();
+          this.export();
+        });
+      });
+    },
+
+    async export() {
+      Toast.info('Creating backup...');
+      try {
+        const { jobId } = await API.get('/setup/export');
+        this.attach(jobId, 'export');
+      } catch (e) {
+        Toast.error(e.message, 'Export Failed');
+      }
     },
 
     async import() {
@@ -1192,13 +2187,367 @@
       try {
         const buf = await file.arrayBuffer();
         const text = await API.postRaw('/setup/import', buf, 'application/gzip');
-        setText(this.outEl, text);
-        Toast.success('Backup imported successfully! Gateway has been restarted.');
-        Status.refresh();
+        let result = null;
+        try { result = JSON.parse(text); } catch {}
+        if (result?.jobId) {
+          this.attach(result.jobId, 'import');
+        } else {
+          setText(this.outEl, text);
+          Toast.error(text, 'Import Failed');
+        }
       } catch (e) {
         setText(this.outEl, `Error: ${e.message}`);
         Toast.error(e.message, 'Import Failed');
       }
+    },
+
+    // Follow an export or import job; also used to reattach after a reload.
+    attach(jobId, kind) {
+      if (kind === 'import') {
+        show(this.outEl);
+        setText(this.outEl, 'Importing...\n');
+      }
+      Jobs.follow(jobId, kind, {
+        onPhase: (name) => {
+          if (kind === 'import') this.outEl.textContent += `▶ ${name}\n`;
+        },
+        onDone: (event) => {
+          const result = event.result || {};
+          if (kind === 'export') {
+            if (event.status === 'succeeded') {
+              window.location.href = `/setup/api/jobs/${encodeURIComponent(jobId)}/artifact`;
+            } else {
+              Toast.error(result.error || 'Backup failed', 'Export Failed');
+            }
+            return;
+          }
+          this.outEl.textContent += result.output || result.error || event.status;
+          if (event.status === 'succeeded') {
+            Toast.success('Backup imported successfully! Gateway has been restarted.');
+          } else {
+            Toast.error(result.error || 'Import failed', 'Import Failed');
+          }
+          Status.refresh();
+        },
+        onLost: () => Toast.error(`Lost track of the ${kind} job (the server may have restarted).`)
+      });
+    }
+  };
+
+  // Setup user management (admin only).
+  const Users = {
+    listEl: null,
+
+    init() {
+      this.listEl = $('#usersList');
+      $('#userCreate')?.addEventListener('click', () => this.create());
+    },
+
+    async refresh() {
+      if (!this.listEl || !User.can('admin')) return;
+      try {
+        const data = await API.get('/setup/api/users');
+        $('#rotateSetupPassword').disabled = !data.setupPasswordEnabled;
+        setText($('#usersSetupPassword'), data.setupPasswordEnabled
+          ? 'SETUP_PASSWORD is set: it still signs in as the built-in "setup" admin.'
+          : 'SETUP_PASSWORD is not set: only the users below can sign in.');
+        this.render(data.users || []);
+      } catch (e) {
+        setHtml(this.listEl, `<div class="pairing-empty"><div class="empty-title">Error loading users</div><div class="empty-hint">${Toast.escapeHtml(e.message)}</div></div>`);
+      }
+    },
+
+    render(users) {
+      if (users.length === 0) {
+        setHtml(this.listEl, `
+          <div class="pairing-empty">
+            <div class="empty-title">No users yet</div>
+            <div class="empty-hint">Everyone signs in with SETUP_PASSWORD. Add users below to give people their own login and role.</div>
+          </div>
+        `);
+        return;
+      }
+
+      setHtml(this.listEl, users.map(u => `
+        <div class="channel-status-item" role="listitem" data-user="${Toast.escapeHtml(u.username)}">
+          <span class="channel-status-name">${Toast.escapeHtml(u.username)}</span>
+          <select class="user-role" aria-label="Role for ${Toast.escapeHtml(u.username)}">
+            ${User.ROLES.map(r => `<option value="${r}" ${r === u.role ? 'selected' : ''}>${r}</option>`).join('')}
+          </select>
+          <div class="channel-actions">
+            <button class="btn btn-sm" data-action="password">Set password</button>
+            <button class="btn btn-sm" data-action="reset">Reset password</button>
+            <button class="btn btn-sm btn-danger" data-action="delete">Delete</button>
+          </div>
+        </div>
+      `).join(''));
+
+      this.listEl.querySelectorAll('.channel-status-item').forEach(item => {
+        const name = item.dataset.user;
+        item.querySelector('.user-role')?.addEventListener('change', (e) => this.update(name, { role: e.target.value }));
+        item.querySelector('[data-action="password"]')?.addEventListener('click', () => {
+          const password = prompt(`New password for ${name} (at least 8 characters):`);
+          if (password) this.update(name, { password });
+        });
+        item.querySelector('[data-action="reset"]')?.addEventListener('click', () => Rotation.userPassword(name));
+        item.querySelector('[data-action="delete"]')?.addEventListener('click', () => this.remove(name));
+      });
+    },
+
+    async create() {
+      const username = $('#userName')?.value.trim();
+      const password = $('#userPassword')?.value || '';
+      const role = $('#userRole')?.value;
+      if (!username || !password) {
+        Toast.warning('Enter a username and password.');
+        return;
+      }
+      try {
+        await API.post('/setup/api/users', { username, password, role });
+        $('#userName').value = '';
+        $('#userPassword').value = '';
+        Toast.success(`Added ${username} (${role})`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'User Not Added');
+      }
+      this.refresh();
+    },
+
+    async update(name, changes) {
+      try {
+        await API.put(`/setup/api/users/${encodeURIComponent(name)}`, changes);
+        Toast.success(changes.role ? `${name} is now ${changes.role}` : `Password updated for ${name}`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'User Not Updated');
+      }
+      this.refresh();
+    },
+
+    async remove(name) {
+      if (!confirm(`Delete user ${name}? They will no longer be able to sign in.`)) return;
+      try {
+        await API.del(`/setup/api/users/${encodeURIComponent(name)}`);
+        Toast.success(`Deleted ${name}`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'User Not Deleted');
+      }
+      this.refresh();
+    }
+  };
+
+  // Credential rotation from the Users tab. The server returns each new value once; it is shown until the next one.
+  const Rotation = {
+    LABELS: {
+      'gateway-token': 'gateway token',
+      'setup-password': 'setup password'
+    },
+
+    init() {
+      $('#rotateGatewayToken')?.addEventListener('click', () => {
+        if (confirm('Rotate the gateway token? The gateway restarts, and clients holding the old token must be updated.')) {
+          this.rotate({ secret: 'gateway-token' });
+        }
+      });
+      $('#rotateSetupPassword')?.addEventListener('click', () => {
+        if (confirm('Rotate the setup password? Everyone else signed in with it is signed out.')) {
+          this.rotate({ secret: 'setup-password' });
+        }
+      });
+    },
+
+    userPassword(username) {
+      if (confirm(`Reset the password for ${username}? They are signed out and need the new password to sign in.`)) {
+        this.rotate({ secret: 'user-password', username });
+      }
+    },
+
+    async rotate(payload) {
+      const label = payload.username ? `password for ${payload.username}` : this.LABELS[payload.secret];
+      try {
+        const data = await API.post('/setup/api/secrets/rotate', payload);
+        setText($('#secretRotatedLabel'), `New ${label}: copy it now, it will not be shown again`);
+        $('#secretValue').value = data.value;
+        $('#secretRotated').style.display = '';
+        $('#secretValue').select();
+        Toast.success(`Rotated the ${label}. Copy the new value now: it is not shown again.`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'Not Rotated');
+      }
+      if (payload.secret === 'gateway-token') Status.refresh();
+    }
+  };
+
+  // API tokens for scripts, managed from the Users tab.
+  const Tokens = {
+    listEl: null,
+
+    init() {
+      this.listEl = $('#tokensList');
+      $('#tokenCreate')?.addEventListener('click', () => this.create());
+    },
+
+    async refresh() {
+      if (!this.listEl || !User.can('admin')) return;
+      try {
+        const data = await API.get('/setup/api/tokens');
+        this.render(data.tokens || []);
+      } catch (e) {
+        setHtml(this.listEl, `<div class="pairing-empty"><div class="empty-title">Error loading tokens</div><div class="empty-hint">${Toast.escapeHtml(e.message)}</div></div>`);
+      }
+    },
+
+    render(tokens) {
+      if (tokens.length === 0) {
+        setHtml(this.listEl, `
+          <div class="pairing-empty">
+            <div class="empty-title">No API tokens</div>
+            <div class="empty-hint">Create one below for scripts that call /setup/api.</div>
+          </div>
+        `);
+        return;
+      }
+
+      setHtml(this.listEl, tokens.map(t => {
+        const expired = t.expiresAt <= Date.now();
+        const used = t.lastUsedAt ? `used ${Pairing.formatTimeAgo(t.lastUsedAt)}` : 'never used';
+        const expires = `${expired ? 'expired' : 'expires'} ${new Date(t.expiresAt).toLocaleDateString()}`;
+        return `
+          <div class="channel-status-item" role="listitem" data-token="${Toast.escapeHtml(t.id)}">
+            <span class="channel-status-name">${Toast.escapeHtml(t.name)}</span>
+            <span class="token-meta text-muted">${Toast.escapeHtml(`${t.role} · ${t.scopes.join(', ')} · ${used} · ${expires}`)}</span>
+            <div class="channel-actions">
+              <button class="btn btn-sm btn-danger" data-action="revoke">Revoke</button>
+            </div>
+          </div>
+        `;
+      }).join(''));
+
+      this.listEl.querySelectorAll('.channel-status-item').forEach(item => {
+        const token = tokens.find(t => t.id === item.dataset.token);
+        item.querySelector('[data-action="revoke"]')?.addEventListener('click', () => this.revoke(token));
+      });
+    },
+
+    async create() {
+      const name = $('#tokenName')?.value.trim();
+      const role = $('#tokenRole')?.value;
+      const expiresInDays = $('#tokenExpiry')?.value;
+      const scopes = ($('#tokenScopes')?.value || '').split('\n').map(s => s.trim()).filter(Boolean);
+      if (!name || scopes.length === 0) {
+        Toast.warning('Enter a token name and at least one scope.');
+        return;
+      }
+      try {
+        const data = await API.post('/setup/api/tokens', { name, role, scopes, expiresInDays });
+        $('#tokenName').value = '';
+        $('#tokenScopes').value = '';
+        $('#tokenValue').value = data.value;
+        $('#tokenCreated').style.display = '';
+        $('#tokenValue').select();
+        Toast.success(`Created token ${name}. Copy it now: it is not shown again.`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'Token Not Created');
+      }
+      this.refresh();
+    },
+
+    async revoke(token) {
+      if (!confirm(`Revoke token ${token.name}? Scripts using it will stop working.`)) return;
+      try {
+        await API.del(`/setup/api/tokens/${encodeURIComponent(token.id)}`);
+        Toast.success(`Revoked ${token.name}`);
+      } catch (e) {
+        Toast.error(e.data?.error || e.message, 'Token Not Revoked');
+      }
+      this.refresh();
+    }
+  };
+
+  // Audit log viewer (admin only), newest entries first.
+  const Audit = {
+    PAGE_SIZE: 50,
+    listEl: null,
+    offset: 0,
+
+    init() {
+      this.listEl = $('#auditList');
+      ['#auditAction', '#auditOutcome'].forEach(sel => $(sel)?.addEventListener('change', () => this.search()));
+      ['#auditActor', '#auditSearch'].forEach(sel => $(sel)?.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') this.search();
+      }));
+      $('#auditRefresh')?.addEventListener('click', () => this.search());
+      $('#auditPrev')?.addEventListener('click', () => this.page(-1));
+      $('#auditNext')?.addEventListener('click', () => this.page(1));
+    },
+
+    search() {
+      this.offset = 0;
+      this.refresh();
+    },
+
+    page(direction) {
+      this.offset = Math.max(0, this.offset + direction * this.PAGE_SIZE);
+      this.refresh();
+    },
+
+    async refresh() {
+      if (!this.listEl || !User.can('admin')) return;
+      const params = new URLSearchParams({ offset: String(this.offset), limit: String(this.PAGE_SIZE) });
+      const filters = { action: '#auditAction', actor: '#auditActor', outcome: '#auditOutcome', q: '#auditSearch' };
+      for (const [key, sel] of Object.entries(filters)) {
+        const value = $(sel)?.value.trim();
+        if (value) params.set(key, value);
+      }
+      try {
+        const data = await API.get(`/setup/api/audit?${params}`);
+        this.renderActions(data.actions || []);
+        this.render(data);
+      } catch (e) {
+        setHtml(this.listEl, `<div class="pairing-empty"><div class="empty-title">Error loading audit log</div><div class="empty-hint">${Toast.escapeHtml(e.message)}</div></div>`);
+      }
+    },
+
+    // Keep the action filter in step with the actions that have been recorded so far.
+    renderActions(actions) {
+      const select = $('#auditAction');
+      if (!select) return;
+      const current = select.value;
+      const groups = [...new Set(actions.map(a => a.split('.')[0]))].filter(g => !actions.includes(g));
+      const options = [...groups.map(g => `${g}.*`), ...actions].sort();
+      setHtml(select, `<option value="">All actions</option>` + options.map(option => {
+        const value = option.endsWith('.*') ? option.slice(0, -2) : option;
+        return `<option value="${Toast.escapeHtml(value)}">${Toast.escapeHtml(option)}</option>`;
+      }).join(''));
+      select.value = current;
+    },
+
+    render(data) {
+      const { entries = [], total = 0, offset = 0 } = data;
+      $('#auditPrev').disabled = offset === 0;
+      $('#auditNext').disabled = offset + entries.length >= total;
+      setText($('#auditPage'), total ? `${offset + 1}-${offset + entries.length} of ${total}` : '');
+
+      if (entries.length === 0) {
+        setHtml(this.listEl, `
+          <div class="pairing-empty">
+            <div class="empty-title">No matching entries</div>
+            <div class="empty-hint">Sign-ins and changes made through /setup show up here.</div>
+          </div>
+        `);
+        return;
+      }
+
+      setHtml(this.listEl, entries.map(e => {
+        const args = Object.keys(e.args || {}).length ? JSON.stringify(e.args) : '';
+        const meta = [e.actor, e.ip, Pairing.formatTimeAgo(e.time), args, e.detail].filter(Boolean).join(' · ');
+        return `
+          <div class="channel-status-item" role="listitem" title="${Toast.escapeHtml(new Date(e.time).toLocaleString())}">
+            <span class="channel-status-name">${Toast.escapeHtml(e.action)}</span>
+            <span class="token-meta text-muted audit-meta">${Toast.escapeHtml(meta)}</span>
+            <span class="audit-outcome ${e.outcome === 'success' ? 'text-success' : 'text-danger'}">${e.outcome}</span>
+          </div>
+        `;
+      }).join(''));
     }
   };
 
@@ -1207,13 +2556,20 @@
     Toast.init();
     Tabs.init();
     Collapsible.init();
+    User.init();
     Auth.init();
     Status.init();
     Setup.init();
     Pairing.init();
+    Channels.init();
     Config.init();
+    ConfigTree.init();
     Console.init();
     Backup.init();
+    Users.init();
+    Rotation.init();
+    Tokens.init();
+    Audit.init();
     
     // Show welcome message on first load
     if (!sessionStorage.getItem('welcomed')) {
@@ -0,0 +1,78 @@
+// Login form for the setup UI: exchanges credentials for a session cookie, or hands off to single sign-on.
+(function() {
+  'use strict';
+
+  const $ = (sel) => document.querySelector(sel);
+
+  // Only same-site paths are accepted as the post-login destination.
+  function nextUrl() {
+    const next = new URLSearchParams(window.location.search).get('next') || '';
+    return next.startsWith('/') && !next.startsWith('//') ? next : '/setup';
+  }
+
+  function showError(message) {
+    const el = $('#loginError');
+    if (!el) return;
+    el.textContent = message;
+    el.style.display = 'block';
+  }
+
+  async function submit(e) {
+    e.preventDefault();
+    const button = $('#loginSubmit');
+    button.disabled = true;
+    button.textContent = 'Signing in...';
+
+    try {
+      const res = await fetch('/setup/api/login', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: $('#loginUsername').value.trim(),
+          password: $('#loginPassword').value
+        })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok && data.ok) {
+        window.location.href = nextUrl();
+        return;
+      }
+      showError(data.error || `Sign in failed (HTTP ${res.status})`);
+    } catch (err) {
+      showError(err.message);
+    }
+    button.disabled = false;
+    button.textContent = 'Sign In';
+  }
+
+  // Offer the sign-in methods the server has enabled. With only single sign-on, go straight to the provider.
+  async function loadMethods() {
+    const error = new URLSearchParams(window.location.search).get('error');
+    if (error) showError(error);
+
+    let methods = { password: true, oidc: false };
+    try {
+      const res = await fetch('/setup/api/login', { credentials: 'same-origin' });
+      if (res.ok) methods = await res.json();
+    } catch {
+      // Fall back to the password form.
+    }
+
+    const sso = $('#loginSso');
+    if (methods.oidc && sso) {
+      sso.href = `/setup/auth/oidc/login?next=${encodeURIComponent(nextUrl())}`;
+      sso.style.display = '';
+      if (!methods.password) {
+        $('#loginPasswordFields').style.display = 'none';
+        if (!error) window.location.href = sso.href;
+      }
+    }
+  }
+
+  document.addEventListener('DOMContentLoaded', () => {
+    $('#loginForm')?.addEventListener('submit', submit);
+    $('#loginUsername')?.focus();
+    loadMethods();
+  });
+})();
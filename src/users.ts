@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AuthUser, UserRecord, UserRole, UserSummary } from "./types.js";
+import { OIDC_ENABLED, OIDC_ROLE, SETUP_PASSWORD, STATE_DIR } from "./config.js";
+
+export const USERS_PATH = path.join(STATE_DIR, "users.json");
+
+export const ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+// Name reported for requests authenticated with SETUP_PASSWORD; stored users cannot take it.
+export const SETUP_PASSWORD_USER = "setup";
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._@-]{0,63}$/i;
+const MIN_PASSWORD_LENGTH = 8;
+const LAST_ADMIN_ERROR = "At least one admin is required when neither SETUP_PASSWORD nor admin single sign-on is set";
+
+let users: UserRecord[] | null = null;
+let loadedMtime = 0;
+let revision = 0;
+
+function summarize(user: UserRecord): UserSummary {
+  const { username, role, createdAt, updatedAt } = user;
+  return { username, role, createdAt, updatedAt };
+}
+
+/** Read the user store, reloading when the file changed on disk (e.g. after an import or rollback). */
+function loadUsers(): UserRecord[] {
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(USERS_PATH).mtimeMs;
+  } catch {
+    // No users yet.
+  }
+  if (users && mtime === loadedMtime) return users;
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(USERS_PATH, "utf8"));
+    users = Array.isArray(parsed) ? (parsed as UserRecord[]).filter((u) => u?.username && isRole(u.role)) : [];
+  } catch {
+    users = [];
+  }
+  loadedMtime = mtime;
+  revision++;
+  return users;
+}
+
+function saveUsers(next: UserRecord[]): void {
+  fs.mkdirSync(STATE_DIR, { recursive: true });
+  const tmp = `${USERS_PATH}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(next, null, 2), { encoding: "utf8", mode: 0o600 });
+  fs.renameSync(tmp, USERS_PATH);
+  users = next;
+  loadedMtime = fs.statSync(USERS_PATH).mtimeMs;
+  revision++;
+}
+
+function findUser(username: string): UserRecord | undefined {
+  const wanted = username.toLowerCase();
+  return loadUsers().find((u) => u.username.toLowerCase() === wanted);
+}
+
+// Refuse changes that would leave nobody able to manage users.
+function keepsAnAdmin(next: UserRecord[]): boolean {
+  if (SETUP_PASSWORD || (OIDC_ENABLED && OIDC_ROLE === "admin")) return true;
+  return next.some((u) => u.role === "admin");
+}
+
+function checkPassword(password: string): string | null {
+  return password.length >= MIN_PASSWORD_LENGTH ? null : `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+}
+
+/** Return true when the value is a known role name. */
+export function isRole(value: unknown): value is UserRole {
+  return ROLES.includes(value as UserRole);
+}
+
+/** Return true when `role` grants at least the access of `required`. */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/** Counter that changes whenever the user store changes, so cached logins can be dropped. */
+export function usersRevision(): number {
+  loadUsers();
+  return revision;
+}
+
+/** Return true when at least one user has been created. */
+export function hasUsers(): boolean {
+  return loadUsers().length > 0;
+}
+
+/** All users without their password hashes. */
+export function listUsers(): UserSummary[] {
+  return loadUsers().map(summarize);
+}
+
+/** Look up a user by name (case-insensitive). */
+export function getUser(username: string): UserSummary | undefined {
+  const user = findUser(username);
+  return user ? summarize(user) : undefined;
+}
+
+/** Check a username and password against the store. */
+export function verifyUser(username: string, password: string): AuthUser | null {
+  const user = findUser(username);
+  if (!user || !password) return null;
+  try {
+    if (!Bun.password.verifySync(password, user.passwordHash)) return null;
+  } catch {
+    return null;
+  }
+  return { username: user.username, role: user.role, builtin: false };
+}
+
+/** Add a user with a hashed password. */
+export function createUser(
+  username: string,
+  password: string,
+  role: string
+): { ok: boolean; error?: string; user?: UserSummary } {
+  if (!USERNAME_PATTERN.test(username)) {
+    return { ok: false, error: "Usernames are 1-64 letters, digits, '.', '_', '@' or '-'" };
+  }
+  if (username.toLowerCase() === SETUP_PASSWORD_USER) return { ok: false, error: `"${username}" is reserved` };
+  if (findUser(username)) return { ok: false, error: "User already exists" };
+  if (!isRole(role)) return { ok: false, error: `Role must be one of ${ROLES.join(", ")}` };
+  const passwordErr = checkPassword(password);
+  if (passwordErr) return { ok: false, error: passwordErr };
+
+  const now = Date.now();
+  const user: UserRecord = {
+    username,
+    role,
+    passwordHash: Bun.password.hashSync(password, { algorithm: "argon2id" }),
+    createdAt: now,
+    updatedAt: now,
+  };
+  saveUsers([...loadUsers(), user]);
+  return { ok: true, user: summarize(user) };
+}
+
+/** Change a user's role and/or password. */
+export function updateUser(
+  username: string,
+  changes: { password?: string; role?: string }
+): { ok: boolean; error?: string; user?: UserSummary } {
+  const user = findUser(username);
+  if (!user) return { ok: false, error: "User not found" };
+  if (changes.role !== undefined && !isRole(changes.role)) {
+    return { ok: false, error: `Role must be one of ${ROLES.join(", ")}` };
+  }
+  if (changes.password !== undefined) {
+    const passwordErr = checkPassword(changes.password);
+    if (passwordErr) return { ok: false, error: passwordErr };
+  }
+
+  const updated: UserRecord = {
+    ...user,
+    role: (changes.role as UserRole | undefined) ?? user.role,
+    passwordHash:
+      changes.password !== undefined
+        ? Bun.password.hashSync(changes.password, { algorithm: "argon2id" })
+        : user.passwordHash,
+    updatedAt: Date.now(),
+  };
+  const next = loadUsers().map((u) => (u === user ? updated : u));
+  if (!keepsAnAdmin(next)) return { ok: false, error: LAST_ADMIN_ERROR };
+  saveUsers(next);
+  return { ok: true, user: summarize(updated) };
+}
+
+/** Remove a user. */
+export function deleteUser(username: string): { ok: boolean; error?: string } {
+  const user = findUser(username);
+  if (!user) return { ok: false, error: "User not found" };
+  const next = loadUsers().filter((u) => u !== user);
+  if (!keepsAnAdmin(next)) return { ok: false, error: LAST_ADMIN_ERROR };
+  saveUsers(next);
+  return { ok: true };
+}
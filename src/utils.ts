@@ -1,12 +1,7 @@
 import path from "node:path";
 
-// Common token formats that should not leak into logs or responses.
-const SECRET_PATTERNS: RegExp[] = [
-  /(sk-[A-Za-z0-9_-]{10,})/g, // OpenAI-style keys.
-  /(gho_[A-Za-z0-9_]{10,})/g, // GitHub OAuth tokens.
-  /(xox[baprs]-[A-Za-z0-9-]{10,})/g, // Slack tokens.
-  /(AA[A-Za-z0-9_-]{10,}:\S{10,})/g, // Telegram bot tokens.
-];
+// Config keys and arguments whose values are credentials.
+const SECRET_KEY = /pass(word)?|secret|token|api[-_]?key|credential|private/i;
 
 // Normalize Node/Bun stream chunks into Buffers.
 function coerceBuffer(chunk: unknown): Buffer | null {
@@ -20,14 +15,9 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/** Best-effort redaction for common secrets in text output. */
-export function redactSecrets(text: string | null | undefined): string {
-  if (!text) return text ?? "";
-  let result = String(text);
-  for (const pattern of SECRET_PATTERNS) {
-    result = result.replace(pattern, "[REDACTED]");
-  }
-  return result;
+/** Return true when a key name (e.g. "botToken", "apiKey") holds a credential. */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key);
 }
 
 /** Return true when the path is inside the provided root directory. */
@@ -105,3 +95,19 @@ export function safeStringify(obj: unknown): string {
     return value;
   });
 }
+
+/** Parse a Cookie header into name/value pairs. */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const idx = part.indexOf("=");
+    if (idx <= 0) continue;
+    const name = part.slice(0, idx).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch {
+      // Skip malformed cookie values.
+    }
+  }
+  return cookies;
+}
@@ -0,0 +1,245 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { CommandResult, ConfigIssue, ConfigValidation, SourcePosition } from "./types.js";
+import { clawArgs, INTERNAL_GATEWAY_PORT, OPENCLAW_NODE } from "./config.js";
+import { CHANNELS } from "./channels.js";
+import { runCmd } from "./gateway.js";
+import { parseJson5 } from "./json5.js";
+import { redactSecrets } from "./redact.js";
+
+// Schema for the parts of the OpenClaw config the wrapper knows about. Wrong types and values are errors;
+// keys it does not know are only warnings, since newer OpenClaw releases add settings.
+type Schema =
+  | { type: "string"; values?: readonly string[] }
+  | { type: "boolean" }
+  | { type: "integer"; min?: number; max?: number }
+  | { type: "scalar" }                                   // A string or a number (e.g. allowFrom entries)
+  | { type: "array"; items: Schema }
+  | { type: "object"; properties: Record<string, Schema>; open?: boolean }
+  | { type: "record"; values: Schema };                 // Any keys, every value the same shape
+
+const string: Schema = { type: "string" };
+const boolean: Schema = { type: "boolean" };
+const oneOf = (...values: string[]): Schema => ({ type: "string", values });
+const integer = (min?: number, max?: number): Schema => ({ type: "integer", min, max });
+const object = (properties: Record<string, Schema>, open = false): Schema => ({ type: "object", properties, open });
+const allowList: Schema = { type: "array", items: { type: "scalar" } };
+
+const DM_POLICIES = ["pairing", "allowlist", "open", "disabled"];
+const GROUP_POLICIES = ["allowlist", "open", "disabled"];
+
+const CHANNEL_COMMON: Record<string, Schema> = {
+  enabled: boolean,
+  dmPolicy: oneOf(...DM_POLICIES),
+  groupPolicy: oneOf(...GROUP_POLICIES),
+  allowFrom: allowList,
+  streamMode: oneOf("off", "partial", "block"),
+};
+
+const CHANNEL_SETTINGS: Record<string, Record<string, Schema>> = {
+  telegram: { botToken: string },
+  discord: {
+    token: string,
+    historyLimit: integer(0),
+    commands: object({ native: boolean }),
+    dm: object({ enabled: boolean, policy: oneOf(...DM_POLICIES), allowFrom: allowList }),
+    guilds: {
+      type: "record",
+      values: object({
+        enabled: boolean,
+        requireMention: boolean,
+        channels: { type: "record", values: object({ enabled: boolean }) },
+      }),
+    },
+  },
+  slack: { botToken: string, appToken: string },
+  signal: { account: string, cliPath: string, httpUrl: string },
+  imessage: { cliPath: string, dbPath: string },
+};
+
+const CONFIG_SCHEMA: Schema = object(
+  {
+    gateway: object({
+      mode: oneOf("local", "remote"),
+      bind: oneOf("loopback", "lan", "tailnet", "auto", "custom"),
+      port: integer(1, 65535),
+      auth: object({ mode: oneOf("token", "password"), token: string, password: string, allowTailscale: boolean }),
+      remote: object({ url: string, token: string, password: string }),
+      trustedProxies: { type: "array", items: string },
+      controlUi: object({
+        enabled: boolean,
+        basePath: string,
+        allowInsecureAuth: boolean,
+        dangerouslyDisableDeviceAuth: boolean,
+      }),
+    }),
+    channels: object(
+      Object.fromEntries(
+        CHANNELS.map((channel) => [channel.name, object({ ...CHANNEL_COMMON, ...CHANNEL_SETTINGS[channel.name] })])
+      )
+    ),
+    auth: object({
+      profiles: {
+        type: "record",
+        values: object({ provider: string, mode: oneOf("api_key", "oauth", "token"), email: string }),
+      },
+      order: { type: "record", values: { type: "array", items: string } },
+    }),
+  },
+  // Other top-level sections (agents, models, tools, ...) are left to OpenClaw.
+  true
+);
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+function check(
+  value: unknown,
+  schema: Schema,
+  keyPath: string,
+  report: (kind: "error" | "warning", keyPath: string, message: string) => void
+): void {
+  const wrongType = (expected: string): void => {
+    report("error", keyPath, `Expected ${expected}, got ${typeName(value)}`);
+  };
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return wrongType("a string");
+      if (schema.values && !schema.values.includes(value)) {
+        report("error", keyPath, `Must be one of ${schema.values.join(", ")} (got "${value}")`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") wrongType("true or false");
+      return;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return wrongType("a whole number");
+      if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        report("error", keyPath, `Must be between ${schema.min ?? "-∞"} and ${schema.max ?? "∞"} (got ${value})`);
+      }
+      return;
+    case "scalar":
+      if (typeof value !== "string" && typeof value !== "number") wrongType("a string or number");
+      return;
+    case "array":
+      if (!Array.isArray(value)) return wrongType("a list");
+      value.forEach((item, i) => check(item, schema.items, `${keyPath}.${i}`, report));
+      return;
+    case "object":
+    case "record": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return wrongType("an object");
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = keyPath ? `${keyPath}.${key}` : key;
+        if (schema.type === "record") {
+          check(child, schema.values, childPath, report);
+        } else if (schema.properties[key]) {
+          check(child, schema.properties[key], childPath, report);
+        } else if (!schema.open) {
+          report("warning", childPath, "Unknown setting");
+        }
+      }
+      return;
+    }
+  }
+}
+
+/** Parse config text (JSON5) and check it against the schema. Positions are included wherever they are known. */
+export function validateConfigText(content: string): ConfigValidation {
+  const parsed = parseJson5(content);
+  if (!parsed.ok) {
+    const issue = { path: "", message: parsed.error, line: parsed.line, column: parsed.column };
+    return { ok: false, errors: [issue], warnings: [] };
+  }
+
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+  const report = (kind: "error" | "warning", keyPath: string, message: string): void => {
+    const at: SourcePosition | undefined = parsed.positions.get(keyPath);
+    const where = at ? ` (line ${at.line}, column ${at.column})` : "";
+    (kind === "error" ? errors : warnings).push({
+      path: keyPath,
+      message: `${keyPath || "Config"}: ${message}${where}`,
+      line: at?.line ?? null,
+      column: at?.column ?? null,
+    });
+  };
+
+  if (!parsed.value || typeof parsed.value !== "object" || Array.isArray(parsed.value)) {
+    report("error", "", `Expected an object, got ${typeName(parsed.value)}`);
+  } else {
+    check(parsed.value, CONFIG_SCHEMA, "", report);
+    // The wrapper proxies to INTERNAL_GATEWAY_PORT; any other port leaves the Control UI unreachable.
+    const port = (parsed.value as { gateway?: { port?: unknown } }).gateway?.port;
+    if (typeof port === "number" && port !== INTERNAL_GATEWAY_PORT) {
+      report("warning", "gateway.port", `The wrapper proxies to port ${INTERNAL_GATEWAY_PORT}`);
+    }
+  }
+  return { ok: errors.length === 0, errors, warnings };
+}
+
+// The schema for a config path, or null when the wrapper does not know the key.
+function schemaAt(segments: string[]): Schema | null {
+  let schema: Schema = CONFIG_SCHEMA;
+  for (const segment of segments) {
+    if (schema.type === "object" && Object.prototype.hasOwnProperty.call(schema.properties, segment)) {
+      schema = schema.properties[segment];
+    } else if (schema.type === "record") {
+      schema = schema.values;
+    } else if (schema.type === "array" && (segment === "-" || /^\d+$/.test(segment))) {
+      schema = schema.items;
+    } else {
+      return null;
+    }
+  }
+  return schema;
+}
+
+/** Type errors for one value about to be stored at `segments`, or null when the schema does not cover the key. */
+export function checkConfigValue(segments: string[], value: unknown): ConfigIssue[] | null {
+  const schema = schemaAt(segments);
+  if (!schema) return null;
+  const errors: ConfigIssue[] = [];
+  check(value, schema, segments.join("."), (kind, keyPath, message) => {
+    if (kind === "error") errors.push({ path: keyPath, message: `${keyPath}: ${message}`, line: null, column: null });
+  });
+  return errors;
+}
+
+/** Run `openclaw doctor` against `content` in a throwaway state dir, leaving the real state untouched. */
+export async function runConfigDoctor(content: string): Promise<CommandResult> {
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-doctor-"));
+  try {
+    const scratchConfig = path.join(scratch, "openclaw.json");
+    fs.writeFileSync(scratchConfig, content, { encoding: "utf8", mode: 0o600 });
+    const r = await runCmd(OPENCLAW_NODE, clawArgs(["doctor"]), {
+      env: {
+        OPENCLAW_STATE_DIR: scratch,
+        CLAWDBOT_STATE_DIR: scratch,
+        OPENCLAW_CONFIG_PATH: scratchConfig,
+        CLAWDBOT_CONFIG_PATH: scratchConfig,
+      },
+      timeoutMs: 60_000,
+    });
+    return { code: r.code, output: redactSecrets(r.output).split(scratch).join("<scratch>") };
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true });
+  }
+}
+
+/** Validate config text, then (when asked and the schema check passed) run the doctor against it. */
+export async function validateConfig(content: string, doctor: boolean): Promise<ConfigValidation> {
+  const validation = validateConfigText(content);
+  if (!validation.ok || !doctor) return validation;
+  const result = await runConfigDoctor(content);
+  if (result.code !== 0) {
+    const message = `openclaw doctor rejected the config (exit code ${result.code})`;
+    validation.errors.push({ path: "", message, line: null, column: null });
+    validation.ok = false;
+  }
+  return { ...validation, doctor: result };
+}